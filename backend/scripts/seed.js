@@ -0,0 +1,186 @@
+// Load demo/test data from fixture files into the database.
+//
+//   npm run seed                    # uses backend/fixtures
+//   npm run seed -- path/to/dir     # another fixture directory
+//
+// Each table is read from <table>.json or <table>.csv and upserted, so running
+// the seed twice leaves the same data behind. In CSV files, list columns
+// (tags, keywords) are separated with semicolons and jsonb columns (attributes)
+// hold JSON.
+import 'dotenv/config';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { supabase, logger } from '../src/middleware/index.js';
+import { toPoint } from '../src/utils/geo.js';
+import { createAuditEntry } from '../src/utils/audit.js';
+
+const SEED_USER = { id: 'seed' };
+
+// Parents before children so foreign keys resolve
+const TABLES = [
+  { name: 'disasters', onConflict: 'id', prepare: prepareDisaster },
+  { name: 'resources', onConflict: 'id', prepare: prepareResource },
+  { name: 'reports', onConflict: 'id', prepare: prepareReport },
+  { name: 'social_posts', onConflict: 'platform,external_id', prepare: prepareSocialPost }
+];
+
+const LIST_COLUMNS = ['tags', 'keywords'];
+const NUMBER_COLUMNS = ['lat', 'lng', 'capacity', 'current_occupancy'];
+const JSON_COLUMNS = ['attributes'];
+
+async function main() {
+  const defaultDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'fixtures');
+  const fixtureDir = path.resolve(process.argv[2] || defaultDir);
+
+  logger.info(`Seeding from ${fixtureDir}`);
+
+  for (const table of TABLES) {
+    const rows = await readFixture(fixtureDir, table.name);
+    if (!rows) {
+      logger.info(`No fixture for ${table.name}, skipping`);
+      continue;
+    }
+
+    const prepared = rows.map(table.prepare);
+    const { error } = await supabase
+      .from(table.name)
+      .upsert(prepared, { onConflict: table.onConflict, defaultToNull: false });
+
+    if (error) {
+      throw new Error(`Failed to seed ${table.name}: ${error.message}`);
+    }
+
+    logger.info(`Seeded ${prepared.length} ${table.name}`);
+  }
+}
+
+async function readFixture(dir, name) {
+  for (const ext of ['json', 'csv']) {
+    const file = path.join(dir, `${name}.${ext}`);
+
+    let text;
+    try {
+      text = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') continue;
+      throw error;
+    }
+
+    return ext === 'json' ? JSON.parse(text) : parseCsv(text).map(normalizeCsvRow);
+  }
+
+  return null;
+}
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, newlines and "" escapes
+function parseCsv(text) {
+  const records = [];
+  let record = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter(r => r.some(value => value !== ''));
+  return rows.map(row => Object.fromEntries(header.map((column, index) => [column.trim(), row[index] ?? ''])));
+}
+
+// Empty CSV cells become missing values; list, number and JSON columns are converted
+function normalizeCsvRow(row) {
+  const normalized = {};
+
+  for (const [column, value] of Object.entries(row)) {
+    if (value === '') continue;
+
+    if (LIST_COLUMNS.includes(column)) {
+      normalized[column] = value.split(';').map(item => item.trim()).filter(Boolean);
+    } else if (NUMBER_COLUMNS.includes(column)) {
+      normalized[column] = Number(value);
+    } else if (JSON_COLUMNS.includes(column)) {
+      normalized[column] = JSON.parse(value);
+    } else {
+      normalized[column] = value;
+    }
+  }
+
+  return normalized;
+}
+
+// Fixture rows may give lat/lng; the tables store a PostGIS point
+function withLocation({ lat, lng, ...row }) {
+  return lat !== undefined && lng !== undefined
+    ? { ...row, location: toPoint({ lat, lng }) }
+    : row;
+}
+
+function prepareDisaster(row) {
+  return withLocation({
+    tags: [],
+    status: 'reported',
+    severity: 'medium',
+    owner_id: SEED_USER.id,
+    audit_trail: [createAuditEntry('create', SEED_USER, {}, { note: 'Loaded from fixtures' })],
+    ...row
+  });
+}
+
+function prepareResource(row) {
+  return withLocation(row);
+}
+
+function prepareReport(row) {
+  return {
+    verification_status: 'pending',
+    ...row
+  };
+}
+
+function prepareSocialPost(row) {
+  return {
+    keywords: [],
+    ingested_by: 'seed',
+    ...row
+  };
+}
+
+main()
+  .then(() => {
+    logger.info('Seeding complete');
+    process.exit(0);
+  })
+  .catch(error => {
+    logger.error(error.message);
+    process.exit(1);
+  });
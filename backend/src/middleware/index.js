@@ -13,19 +13,34 @@ export const logger = {
   warn: (message) => console.warn(`[WARN] ${new Date().toISOString()} - ${message}`)
 };
 
+// For demo purposes, using hard-coded users
+const mockUsers = {
+  'netrunnerX': { id: 'netrunnerX', role: 'admin', name: 'NetRunner X' },
+  'reliefAdmin': { id: 'reliefAdmin', role: 'admin', name: 'Relief Admin' },
+  'coordinator1': { id: 'coordinator1', role: 'coordinator', name: 'Field Coordinator' },
+  'moderator1': { id: 'moderator1', role: 'moderator', name: 'Report Moderator' },
+  'responder1': { id: 'responder1', role: 'responder', name: 'Field Responder' },
+  'citizen1': { id: 'citizen1', role: 'contributor', name: 'Citizen Reporter' }
+};
+
+// The user a bearer token stands for; unknown or missing tokens are citizen1.
+// Shared by the HTTP middleware and socket handlers.
+export const resolveUser = (token) => {
+  const userId = token ? String(token).replace('Bearer ', '') : 'citizen1';
+  return mockUsers[userId] || mockUsers['citizen1'];
+};
+
 // Mock authentication middleware
 export const authenticate = (req, res, next) => {
-  // For demo purposes, using hard-coded users
-  const mockUsers = {
-    'netrunnerX': { id: 'netrunnerX', role: 'admin', name: 'NetRunner X' },
-    'reliefAdmin': { id: 'reliefAdmin', role: 'admin', name: 'Relief Admin' },
-    'citizen1': { id: 'citizen1', role: 'contributor', name: 'Citizen Reporter' }
-  };
-
-  const authHeader = req.headers.authorization;
-  const userId = authHeader ? authHeader.replace('Bearer ', '') : 'citizen1';
-  
-  req.user = mockUsers[userId] || mockUsers['citizen1'];
+  req.user = resolveUser(req.headers.authorization);
+  next();
+};
+
+// Role check middleware, must run after authenticate
+export const requireRole = (...roles) => (req, res, next) => {
+  if (!req.user || !roles.includes(req.user.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions' });
+  }
   next();
 };
 
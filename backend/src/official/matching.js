@@ -0,0 +1,63 @@
+import { haversineDistance } from '../utils/geo.js';
+
+// Decide which disasters an official update concerns, using each disaster's
+// context from getDisasterContext. The most specific information wins:
+//
+//   1. the update has geometry and the disaster a point: the point must lie in
+//      one of its polygons or circles, or within the match radius of its points
+//   2. the update names an area: one of its place names must contain, or be
+//      contained in, one of the disaster's (whole words)
+//   3. neither: the update must mention one of the disaster's tags
+
+const DEFAULT_MATCH_RADIUS_METERS = 50000;
+
+export function getMatchRadiusMeters() {
+  const meters = parseFloat(process.env.OFFICIAL_MATCH_RADIUS_METERS);
+  return Number.isFinite(meters) && meters > 0 ? meters : DEFAULT_MATCH_RADIUS_METERS;
+}
+
+export function isRelevantUpdate(update, context) {
+  if (update.geometry && context.coordinates) {
+    return coversPoint(update.geometry, context.coordinates);
+  }
+
+  if (update.area_desc) {
+    const areas = placeNames(update.area_desc);
+    const places = context.location_names.flatMap(placeNames);
+    return areas.some(area => places.some(place => containsWords(place, area) || containsWords(area, place)));
+  }
+
+  const text = `${update.title} ${update.content} ${(update.categories || []).join(' ')}`.toLowerCase();
+  return context.tags.some(tag => text.includes(tag.toLowerCase()));
+}
+
+// "New York (Manhattan); Kings (Brooklyn)" -> new york, manhattan, kings, brooklyn
+function placeNames(value) {
+  return value.split(/[;,()]/).map(part => part.trim().toLowerCase()).filter(Boolean);
+}
+
+function containsWords(text, words) {
+  return ` ${text} `.includes(` ${words} `);
+}
+
+function coversPoint(geometry, point) {
+  return (geometry.polygons || []).some(polygon => inPolygon(point, polygon)) ||
+    (geometry.circles || []).some(circle => haversineDistance(circle, point) <= circle.radius_meters) ||
+    (geometry.points || []).some(center => haversineDistance(center, point) <= getMatchRadiusMeters());
+}
+
+// Ray casting; polygons are small enough to treat lat/lng as planar
+function inPolygon(point, polygon) {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
@@ -0,0 +1,173 @@
+import * as cheerio from 'cheerio';
+
+// Parsers turn a feed document into official update items:
+//
+//   guid          stable id within the source, used to skip items already stored
+//   title, content, url, published_at
+//   priority      from the CAP severity when there is one, else null (the
+//                 source's default applies)
+//   categories    RSS/Atom categories, CAP category and event
+//   area_desc     CAP areaDesc, null when the item names no area
+//   geometry      { polygons, circles, points } from CAP areas and GeoRSS, or null
+//
+// CAP messages that are not `Actual` (tests, exercises, drafts) are left out.
+
+export const FEED_FORMATS = ['rss', 'atom', 'cap'];
+
+const SEVERITY_PRIORITIES = {
+  extreme: 'urgent',
+  severe: 'high',
+  moderate: 'medium',
+  minor: 'low'
+};
+
+export function parseFeed(xml, format) {
+  switch (format) {
+    case 'rss':
+      return parseRss(xml);
+    case 'atom':
+      return parseAtom(xml);
+    case 'cap':
+      return parseCap(xml);
+    default:
+      throw new Error(`Unsupported feed format: ${format}`);
+  }
+}
+
+export function parseRss(xml) {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  return $('item').toArray().map(element => {
+    const item = $(element);
+    const link = text(item.children('link'));
+    const title = text(item.children('title'));
+
+    return {
+      guid: text(item.children('guid')) || link || title,
+      title,
+      content: stripHtml(text(item.children('description'))),
+      url: link || null,
+      published_at: toTimestamp(text(item.children('pubDate')) || text(item.children('dc\\:date'))),
+      priority: null,
+      categories: item.children('category').toArray().map(category => $(category).text().trim()).filter(Boolean),
+      area_desc: null,
+      geometry: toGeometry({ points: item.children('georss\\:point').toArray().map(point => $(point).text()) })
+    };
+  }).filter(item => item.guid && item.title);
+}
+
+// Atom entries, including ones that carry CAP fields in the cap: namespace
+// (the National Weather Service alerts feed does)
+export function parseAtom(xml) {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  return $('entry').toArray().map(element => {
+    const entry = $(element);
+    const status = text(entry.children('cap\\:status'));
+    const link = entry.children('link[rel="alternate"]').attr('href') || entry.children('link').first().attr('href');
+
+    return {
+      status,
+      guid: text(entry.children('id')) || link,
+      title: text(entry.children('title')),
+      content: stripHtml(text(entry.children('summary')) || text(entry.children('content'))),
+      url: link || null,
+      published_at: toTimestamp(text(entry.children('published')) || text(entry.children('updated'))),
+      priority: toPriority(text(entry.children('cap\\:severity'))),
+      categories: [
+        ...entry.children('category').toArray().map(category => $(category).attr('term') || $(category).text().trim()),
+        text(entry.children('cap\\:event'))
+      ].filter(Boolean),
+      area_desc: text(entry.children('cap\\:areaDesc')) || null,
+      geometry: toGeometry({
+        polygons: entry.children('cap\\:polygon').toArray().map(polygon => $(polygon).text()),
+        points: entry.children('georss\\:point').toArray().map(point => $(point).text())
+      })
+    };
+  })
+    .filter(item => item.guid && item.title && (!item.status || item.status === 'Actual'))
+    .map(({ status, ...item }) => item);
+}
+
+// One or more CAP 1.2 <alert> documents. Each alert becomes one item built from
+// its first <info> block, with the areas of every block.
+export function parseCap(xml) {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  return $('alert').toArray().map(element => {
+    const alert = $(element);
+    const infos = alert.children('info').toArray().map(info => $(info));
+    const info = infos[0];
+    if (!info || text(alert.children('status')) !== 'Actual') return null;
+
+    const areas = infos.flatMap(block => block.children('area').toArray().map(area => $(area)));
+    const description = text(info.children('description'));
+    const instruction = text(info.children('instruction'));
+
+    return {
+      guid: text(alert.children('identifier')),
+      title: text(info.children('headline')) || text(info.children('event')),
+      content: [description, instruction].filter(Boolean).join('\n\n'),
+      url: text(info.children('web')) || null,
+      published_at: toTimestamp(text(alert.children('sent'))),
+      priority: toPriority(text(info.children('severity'))),
+      categories: [
+        ...info.children('category').toArray().map(category => $(category).text().trim()),
+        text(info.children('event'))
+      ].filter(Boolean),
+      area_desc: areas.map(area => text(area.children('areaDesc'))).filter(Boolean).join('; ') || null,
+      geometry: toGeometry({
+        polygons: areas.flatMap(area => area.children('polygon').toArray().map(polygon => $(polygon).text())),
+        circles: areas.flatMap(area => area.children('circle').toArray().map(circle => $(circle).text()))
+      })
+    };
+  }).filter(item => item && item.guid && item.title);
+}
+
+function text(node) {
+  return node.first().text().trim();
+}
+
+// Descriptions are often HTML (escaped or in CDATA)
+function stripHtml(value) {
+  return value ? cheerio.load(value).text().replace(/\s+/g, ' ').trim() : '';
+}
+
+function toTimestamp(value) {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : new Date().toISOString();
+}
+
+function toPriority(severity) {
+  return SEVERITY_PRIORITIES[severity.toLowerCase()] || null;
+}
+
+// CAP polygons are "lat,lng lat,lng ...", circles "lat,lng radius_km" and
+// GeoRSS points "lat lng". Malformed values are dropped; null when nothing is left.
+function toGeometry({ polygons = [], circles = [], points = [] }) {
+  const geometry = {
+    polygons: polygons
+      .map(polygon => polygon.trim().split(/\s+/).map(pair => toLatLng(pair.split(','))))
+      .filter(polygon => polygon.length >= 3 && polygon.every(Boolean)),
+    circles: circles
+      .map(circle => {
+        const [center, radiusKm] = circle.trim().split(/\s+/);
+        const point = toLatLng((center || '').split(','));
+        const radius = parseFloat(radiusKm);
+        return point && Number.isFinite(radius) ? { ...point, radius_meters: radius * 1000 } : null;
+      })
+      .filter(Boolean),
+    points: points
+      .map(point => toLatLng(point.trim().split(/[\s,]+/)))
+      .filter(Boolean)
+  };
+
+  return geometry.polygons.length || geometry.circles.length || geometry.points.length ? geometry : null;
+}
+
+function toLatLng([lat, lng]) {
+  const point = { lat: parseFloat(lat), lng: parseFloat(lng) };
+  if (!Number.isFinite(point.lat) || !Number.isFinite(point.lng)) return null;
+  if (Math.abs(point.lat) > 90 || Math.abs(point.lng) > 180) return null;
+  return point;
+}
@@ -0,0 +1,155 @@
+import { supabase, logger } from '../middleware/index.js';
+import { getDisasterContext } from '../utils/hierarchy.js';
+import { emitToDisasterRoom } from '../socket/handlers.js';
+import { getOfficialSources, fetchSourceDocument } from './sources.js';
+import { parseFeed } from './parsers.js';
+import { isRelevantUpdate } from './matching.js';
+
+const DEFAULT_POLL_INTERVAL_MS = 10 * 60 * 1000; // Every ten minutes
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000; // A failing source is retried at least every six hours
+const BACKFILL_LIMIT = 500;
+
+// Disasters already matched against the stored updates
+const backfilled = new Set();
+
+// A source's own `interval_minutes`, else OFFICIAL_POLL_INTERVAL_MS
+export function getPollIntervalMs(source) {
+  const ms = source.interval_minutes
+    ? source.interval_minutes * 60 * 1000
+    : parseInt(process.env.OFFICIAL_POLL_INTERVAL_MS);
+  return Number.isFinite(ms) && ms >= 10000 ? ms : DEFAULT_POLL_INTERVAL_MS;
+}
+
+// Read one source, store the items not seen before and match them to the open
+// disasters. Disasters not matched yet (new, or all of them after a restart)
+// are also matched against the latest stored updates. Each new match is pushed
+// to the disaster's room as `official_update`. Throws when the source cannot be
+// read or parsed so the caller can back off. Returns the new matches.
+export async function pollOfficialSource(io, source) {
+  const items = parseFeed(await fetchSourceDocument(source), source.format);
+  const contexts = await getOpenDisasterContexts();
+
+  const stored = await storeUpdates(source, items);
+  const matches = await storeMatches(stored, contexts);
+
+  const unseen = contexts.filter(({ disaster }) => !backfilled.has(disaster.id));
+  const recent = unseen.length > 0 ? await getRecentUpdates() : [];
+  matches.push(...await storeMatches(recent, unseen));
+  unseen.forEach(({ disaster }) => backfilled.add(disaster.id));
+
+  emitMatches(io, matches, [...stored, ...recent]);
+
+  if (stored.length > 0 || matches.length > 0) {
+    logger.info(`Official source ${source.id} stored ${stored.length} new updates and ${matches.length} disaster matches`);
+  }
+
+  return matches;
+}
+
+// Poll every source on its own timer. After a failure the next poll waits
+// twice as long as the one before, up to six hours; a success resets it.
+export async function startOfficialPoller(io) {
+  let sources;
+  try {
+    sources = await getOfficialSources();
+  } catch (error) {
+    logger.error(`Official sources not loaded: ${error.message}`);
+    return;
+  }
+
+  sources.forEach(source => pollOnSchedule(io, source, 0));
+
+  logger.info(`Official poller scheduled for ${sources.map(source => `${source.id} every ${getPollIntervalMs(source) / 1000}s`).join(', ') || 'no sources'}`);
+}
+
+async function pollOnSchedule(io, source, failures) {
+  try {
+    await pollOfficialSource(io, source);
+    failures = 0;
+  } catch (error) {
+    failures += 1;
+    logger.warn(`Official source ${source.id} failed (${failures} in a row): ${error.message}`);
+  }
+
+  const delay = Math.min(getPollIntervalMs(source) * 2 ** failures, MAX_BACKOFF_MS);
+  setTimeout(() => pollOnSchedule(io, source, failures), delay);
+}
+
+async function getOpenDisasterContexts() {
+  const { data, error } = await supabase
+    .from('disasters')
+    .select('id, title, tags, location_name, lat, lng, parent_id')
+    .is('archived_at', null)
+    .neq('status', 'resolved');
+
+  if (error) throw error;
+
+  return Promise.all(data.map(async disaster => ({
+    disaster,
+    context: await getDisasterContext(disaster)
+  })));
+}
+
+// Insert items whose guid the source has not delivered before. Returns only
+// the new rows.
+async function storeUpdates(source, items) {
+  const rows = [...new Map(items.map(item => [item.guid, {
+    ...item,
+    source_id: source.id,
+    source: source.name,
+    priority: item.priority || source.priority
+  }])).values()];
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('official_updates')
+    .upsert(rows, { onConflict: 'source_id,guid', ignoreDuplicates: true })
+    .select();
+
+  if (error) throw error;
+  return data;
+}
+
+async function getRecentUpdates() {
+  const { data, error } = await supabase
+    .from('official_updates')
+    .select('*')
+    .order('published_at', { ascending: false })
+    .limit(BACKFILL_LIMIT);
+
+  if (error) throw error;
+  return data;
+}
+
+// Returns only matches that did not exist yet
+async function storeMatches(updates, contexts) {
+  const rows = updates.flatMap(update => contexts
+    .filter(({ context }) => isRelevantUpdate(update, context))
+    .map(({ disaster }) => ({
+      update_id: update.id,
+      disaster_id: disaster.id,
+      published_at: update.published_at
+    }))
+  );
+
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('official_update_matches')
+    .upsert(rows, { onConflict: 'update_id,disaster_id', ignoreDuplicates: true })
+    .select();
+
+  if (error) throw error;
+  return data;
+}
+
+function emitMatches(io, matches, updates) {
+  const updatesById = new Map(updates.map(update => [update.id, update]));
+
+  for (const match of matches) {
+    emitToDisasterRoom(io, match.disaster_id, 'official_update', {
+      disaster_id: match.disaster_id,
+      update: { ...updatesById.get(match.update_id), disaster_id: match.disaster_id }
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import fs from 'fs/promises';
+import path from 'path';
+import axios from 'axios';
+import { FEED_FORMATS } from './parsers.js';
+
+// Official sources to ingest. Each has
+//
+//   id         stable key, stored with the items (`official_updates.source_id`)
+//   name       shown as the update's source
+//   format     rss, atom or cap
+//   url        http(s) URL, or a file path relative to the backend directory
+//   priority   for items that carry no CAP severity (default medium)
+//   interval_minutes
+//              how often the poller reads it (default OFFICIAL_POLL_INTERVAL_MS)
+//
+// The defaults read the bundled fixtures so the tab works offline.
+// OFFICIAL_SOURCES_FILE points to a JSON array of sources that replaces them.
+const DEFAULT_SOURCES = [
+  { id: 'fema', name: 'FEMA', format: 'rss', url: 'fixtures/official/fema_news.xml', priority: 'high' },
+  { id: 'nws', name: 'National Weather Service', format: 'atom', url: 'fixtures/official/nws_alerts.xml', priority: 'medium', interval_minutes: 5 },
+  { id: 'nyc_em', name: 'NYC Emergency Management', format: 'cap', url: 'fixtures/official/nyc_em_cap.xml', priority: 'high' }
+];
+
+const PRIORITIES = ['urgent', 'high', 'medium', 'low'];
+
+export async function getOfficialSources() {
+  if (!process.env.OFFICIAL_SOURCES_FILE) return DEFAULT_SOURCES;
+
+  const sources = JSON.parse(await fs.readFile(path.resolve(process.env.OFFICIAL_SOURCES_FILE), 'utf8'));
+  if (!Array.isArray(sources)) {
+    throw new Error('OFFICIAL_SOURCES_FILE must contain a JSON array of sources');
+  }
+
+  return sources.map(validateSource);
+}
+
+// The raw feed document
+export async function fetchSourceDocument(source) {
+  if (/^https?:\/\//.test(source.url)) {
+    const response = await axios.get(source.url, {
+      timeout: 10000,
+      responseType: 'text',
+      headers: { 'User-Agent': 'DisasterResponse/1.0', Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml' }
+    });
+    return response.data;
+  }
+
+  return fs.readFile(path.resolve(source.url), 'utf8');
+}
+
+function validateSource(source) {
+  if (!source || !source.id || !source.url) {
+    throw new Error('Every official source needs an id and a url');
+  }
+  if (!FEED_FORMATS.includes(source.format)) {
+    throw new Error(`Official source ${source.id} has format ${source.format}, expected one of: ${FEED_FORMATS.join(', ')}`);
+  }
+  if (source.priority && !PRIORITIES.includes(source.priority)) {
+    throw new Error(`Official source ${source.id} has an invalid priority: ${source.priority}`);
+  }
+  if (source.interval_minutes !== undefined && !(source.interval_minutes > 0)) {
+    throw new Error(`Official source ${source.id} needs a positive interval_minutes`);
+  }
+
+  return { ...source, name: source.name || source.id, priority: source.priority || 'medium' };
+}
@@ -0,0 +1,32 @@
+import express from 'express';
+import { logger } from '../middleware/index.js';
+import { URGENCY_LEVELS } from '../utils/classifier.js';
+import { ALERT_PRIORITIES, getPriorityAlerts } from '../utils/alerts.js';
+
+const router = express.Router();
+
+// Urgent and high-priority requests from social posts and field reports
+// (?priority=urgent to narrow it down, disaster_id, limit)
+router.get('/priority', async (req, res) => {
+  try {
+    const { disaster_id } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 10, 1), 50);
+    const priorities = req.query.priority
+      ? String(req.query.priority).split(',').map(p => p.trim()).filter(Boolean)
+      : ALERT_PRIORITIES;
+
+    const invalid = priorities.filter(p => !URGENCY_LEVELS.includes(p));
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid priority: ${invalid.join(', ')}` });
+    }
+
+    const alerts = await getPriorityAlerts({ limit, priorities, disasterId: disaster_id });
+
+    res.json({ alerts });
+  } catch (error) {
+    logger.error(`Failed to retrieve priority alerts: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,90 @@
+import express from 'express';
+import { supabase, logger } from '../middleware/index.js';
+import {
+  CAP_CONTENT_TYPE,
+  XML_DECLARATION,
+  getCapSender,
+  getLatestCapMessage,
+  getLatestCapMessages,
+  formatCapTime,
+  escapeXml
+} from '../utils/cap.js';
+
+const router = express.Router();
+
+// Latest CAP 1.2 message for a disaster: its Alert, the last Update or the
+// Cancel once archived. Read-only; messages are issued when disasters change
+// (and at startup for disasters older than CAP export).
+router.get('/disasters/:id/cap', async (req, res) => {
+  try {
+    const { data: disaster, error } = await supabase
+      .from('disasters')
+      .select('*')
+      .eq('id', req.params.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!disaster) return res.status(404).json({ error: 'Disaster not found' });
+
+    const message = await getLatestCapMessage(disaster.id);
+    if (!message) return res.status(404).json({ error: 'No CAP alert was issued for this disaster' });
+
+    res.type(CAP_CONTENT_TYPE).send(XML_DECLARATION + message.xml);
+  } catch (error) {
+    logger.error(`Failed to build CAP alert for disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Atom feed with the current CAP message of every active (not archived or
+// resolved) disaster, most recently changed first. Disasters without a
+// message yet are left out.
+router.get('/cap/feed', async (req, res) => {
+  try {
+    const { data: disasters, error } = await supabase
+      .from('disasters')
+      .select('*')
+      .is('archived_at', null)
+      .neq('status', 'resolved');
+
+    if (error) throw error;
+
+    const latest = await getLatestCapMessages(disasters.map(disaster => disaster.id));
+    const entries = disasters
+      .filter(disaster => latest.has(disaster.id))
+      .map(disaster => ({ disaster, message: latest.get(disaster.id) }))
+      .sort((a, b) => new Date(b.message.sent) - new Date(a.message.sent));
+
+    const baseUrl = `${req.protocol}://${req.get('host')}/api`;
+    const updated = entries.length > 0 ? entries[0].message.sent : new Date();
+
+    const feed = [
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `  <id>${escapeXml(`${baseUrl}/cap/feed`)}</id>`,
+      '  <title>Active disaster alerts</title>',
+      `  <updated>${formatCapTime(updated)}</updated>`,
+      `  <author><name>${escapeXml(getCapSender())}</name></author>`,
+      `  <link rel="self" href="${escapeXml(`${baseUrl}/cap/feed`)}"/>`,
+      ...entries.map(({ disaster, message }) => [
+        '  <entry>',
+        `    <id>${escapeXml(message.identifier)}</id>`,
+        `    <title>${escapeXml(disaster.title)}</title>`,
+        `    <updated>${formatCapTime(message.sent)}</updated>`,
+        `    <link rel="alternate" type="${CAP_CONTENT_TYPE}" href="${escapeXml(`${baseUrl}/disasters/${disaster.id}/cap`)}"/>`,
+        disaster.description && `    <summary>${escapeXml(disaster.description)}</summary>`,
+        `    <content type="${CAP_CONTENT_TYPE}">`,
+        message.xml.trimEnd(),
+        '    </content>',
+        '  </entry>'
+      ].filter(Boolean).join('\n')),
+      '</feed>'
+    ];
+
+    res.type('application/atom+xml').send(`${XML_DECLARATION}${feed.join('\n')}\n`);
+  } catch (error) {
+    logger.error(`Failed to build CAP feed: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
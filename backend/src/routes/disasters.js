@@ -1,44 +1,222 @@
 import express from 'express';
-import { supabase, authenticate, logger } from '../middleware/index.js';
+import { supabase, authenticate, requireRole, logger } from '../middleware/index.js';
+import { geocodeWithCache } from '../utils/geocoding.js';
+import { parseCoordinates, parseBBox, toPoint } from '../utils/geo.js';
+import { DISASTER_STATUSES, SEVERITY_LEVELS, canTransition, getAllowedTransitions } from '../utils/disasterStatus.js';
+import { diffFields, createAuditEntry, appendAuditEntry } from '../utils/audit.js';
+import { formatETag, parseIfMatch } from '../utils/concurrency.js';
+import { findDuplicateDisasters } from '../utils/duplicates.js';
+import { validateParent, getAncestors, getDisasterTree } from '../utils/hierarchy.js';
+import { parseLimit, encodeCursor, decodeCursor, keysetFilter } from '../utils/pagination.js';
+import { issueCapMessage } from '../utils/cap.js';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = express.Router();
 
+// Fields recorded as before/after diffs on update, and restorable by revert.
+// Status is left out of revert on purpose: it only moves through the lifecycle.
+const AUDITED_FIELDS = ['title', 'location_name', 'description', 'tags', 'severity', 'parent_id'];
+const REVERTABLE_FIELDS = [...AUDITED_FIELDS, 'coordinates'];
+
+const SORT_FIELDS = ['created_at', 'updated_at', 'title'];
+const COUNT_MODES = ['exact', 'estimated'];
+
 // Get all disasters with optional filtering
 router.get('/', async (req, res) => {
   try {
-    const { tag, owner_id, limit = 20, offset = 0 } = req.query;
+    const {
+      tag, tags, tag_mode = 'any', owner_id, parent_id, root, status, severity, include_resolved, archived,
+      created_after, created_before, sort = 'created_at', order = 'desc', cursor, count = 'exact',
+      lat, lng, radius = 10000, bbox
+    } = req.query;
+    const limit = parseLimit(req.query.limit);
+    
+    if (!SORT_FIELDS.includes(sort)) {
+      return res.status(400).json({ error: `sort must be one of: ${SORT_FIELDS.join(', ')}` });
+    }
+    if (order !== 'asc' && order !== 'desc') {
+      return res.status(400).json({ error: 'order must be asc or desc' });
+    }
+    if (tag_mode !== 'any' && tag_mode !== 'all') {
+      return res.status(400).json({ error: 'tag_mode must be any or all' });
+    }
+    if (!COUNT_MODES.includes(count)) {
+      return res.status(400).json({ error: 'count must be exact or estimated' });
+    }
+    
+    const after = cursor ? decodeCursor(cursor, sort, order) : null;
+    if (cursor && !after) {
+      return res.status(400).json({ error: 'Invalid cursor for this sort order' });
+    }
     
+    for (const [name, value] of [['created_after', created_after], ['created_before', created_before]]) {
+      if (value && Number.isNaN(Date.parse(value))) {
+        return res.status(400).json({ error: `${name} must be an ISO date` });
+      }
+    }
+    
+    const statuses = parseListParam(status);
+    const severities = parseListParam(severity);
+    const invalidStatuses = statuses.filter(s => !DISASTER_STATUSES.includes(s));
+    const invalidSeverities = severities.filter(s => !SEVERITY_LEVELS.includes(s));
+    
+    if (invalidStatuses.length > 0) {
+      return res.status(400).json({ error: `Invalid status: ${invalidStatuses.join(', ')}` });
+    }
+    if (invalidSeverities.length > 0) {
+      return res.status(400).json({ error: `Invalid severity: ${invalidSeverities.join(', ')}` });
+    }
+    
+    // Resolve spatial filters to a set of matching disaster ids and distances
+    const center = parseCoordinates(lat, lng);
+    const box = parseBBox(bbox);
+    
+    if ((lat || lng) && !center) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+    if (bbox && !box) {
+      return res.status(400).json({ error: 'bbox must be minLng,minLat,maxLng,maxLat' });
+    }
+    
+    let distances = null;
+    
+    if (box) {
+      const { data: matches, error: spatialError } = await supabase
+        .rpc('get_disasters_in_bbox', {
+          min_lng: box.minLng,
+          min_lat: box.minLat,
+          max_lng: box.maxLng,
+          max_lat: box.maxLat,
+          lat: center?.lat ?? null,
+          lng: center?.lng ?? null
+        });
+      
+      if (spatialError) throw spatialError;
+      distances = new Map(matches.map(m => [m.id, m.distance_meters]));
+    } else if (center) {
+      const { data: matches, error: spatialError } = await supabase
+        .rpc('get_nearby_disasters', {
+          lat: center.lat,
+          lng: center.lng,
+          radius_meters: parseInt(radius)
+        });
+      
+      if (spatialError) throw spatialError;
+      distances = new Map(matches.map(m => [m.id, m.distance_meters]));
+    }
+    
+    if (distances && distances.size === 0) {
+      return res.json({ disasters: [], total: 0, next_cursor: null, limit });
+    }
+    
+    // Fetch one extra row to know whether there is a next page. The total is
+    // only counted for the first page; later pages return null.
     let query = supabase
       .from('disasters')
       .select(`
         *,
         reports:reports(count),
         resources:resources(count)
-      `)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      `, after ? {} : { count })
+      .order(sort, { ascending: order === 'asc' })
+      .order('id', { ascending: order === 'asc' })
+      .limit(limit + 1);
     
     if (tag) {
       query = query.contains('tags', [tag]);
     }
     
+    // Several tags: match any of them, or require all with tag_mode=all
+    const tagList = parseListParam(tags);
+    if (tagList.length > 0) {
+      query = tag_mode === 'all'
+        ? query.contains('tags', tagList)
+        : query.overlaps('tags', tagList);
+    }
+    
+    if (created_after) {
+      query = query.gte('created_at', new Date(created_after).toISOString());
+    }
+    
+    if (created_before) {
+      query = query.lt('created_at', new Date(created_before).toISOString());
+    }
+    
     if (owner_id) {
       query = query.eq('owner_id', owner_id);
     }
     
-    const { data, error } = await query;
+    // Sub-incidents of one disaster, or only top-level incidents
+    if (parent_id) {
+      query = query.eq('parent_id', parent_id);
+    } else if (root === 'true') {
+      query = query.is('parent_id', null);
+    }
+    
+    // Archived disasters only show up when listing the archive
+    if (archived === 'true') {
+      query = query.not('archived_at', 'is', null);
+    } else {
+      query = query.is('archived_at', null);
+    }
+    
+    // Resolved disasters are hidden unless asked for explicitly
+    if (statuses.length > 0) {
+      query = query.in('status', statuses);
+    } else if (include_resolved !== 'true') {
+      query = query.neq('status', 'resolved');
+    }
+    
+    if (severities.length > 0) {
+      query = query.in('severity', severities);
+    }
+    
+    if (distances) {
+      query = query.in('id', [...distances.keys()]);
+    }
+    
+    if (after) {
+      query = query.or(keysetFilter(sort, order, after));
+    }
+    
+    const { data, error, count: total = null } = await query;
     
     if (error) throw error;
     
-    logger.info(`Retrieved ${data.length} disasters`);
-    res.json(data);
+    const page = data.slice(0, limit);
+    const hasMore = data.length > limit;
+    
+    const result = distances
+      ? page.map(disaster => ({ ...disaster, distance_meters: distances.get(disaster.id) }))
+      : page;
+    
+    logger.info(`Retrieved ${result.length} disasters`);
+    res.json({
+      disasters: result,
+      total,
+      next_cursor: hasMore ? encodeCursor(sort, order, page[page.length - 1]) : null,
+      limit
+    });
   } catch (error) {
     logger.error(`Failed to retrieve disasters: ${error.message}`);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Dashboard totals over all open (not archived, not resolved) disasters
+router.get('/stats', async (req, res) => {
+  try {
+    const { data, error } = await supabase.rpc('get_disaster_stats');
+    
+    if (error) throw error;
+    
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to retrieve disaster stats: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Get single disaster
 router.get('/:id', async (req, res) => {
   try {
@@ -55,35 +233,124 @@ router.get('/:id', async (req, res) => {
     if (error) throw error;
     if (!data) return res.status(404).json({ error: 'Disaster not found' });
     
-    res.json(data);
+    const { children, rollup } = await getDisasterTree(data.id);
+    const ancestors = data.parent_id
+      ? (await getAncestors(data.id)).map(({ id, title }) => ({ id, title }))
+      : [];
+    
+    res.set('ETag', formatETag(data.version));
+    res.json({ ...data, ancestors, children, rollup });
   } catch (error) {
     logger.error(`Failed to retrieve disaster ${req.params.id}: ${error.message}`);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Get the audit history of a disaster, newest first
+router.get('/:id/history', async (req, res) => {
+  try {
+    const { field, entity, user_id } = req.query;
+    
+    const { data, error } = await supabase
+      .from('disasters')
+      .select('id, audit_trail')
+      .eq('id', req.params.id)
+      .single();
+    
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: 'Disaster not found' });
+    
+    // Older entries have no id, so their position doubles as one
+    let entries = (data.audit_trail || []).map((entry, index) => ({
+      ...entry,
+      id: entry.id || String(index),
+      entity: entry.entity || 'disaster',
+      index
+    }));
+    
+    if (field) {
+      entries = entries.filter(entry => entry.changes && field in entry.changes);
+    }
+    
+    if (entity) {
+      entries = entries.filter(entry => entry.entity === entity);
+    }
+    
+    if (user_id) {
+      entries = entries.filter(entry => entry.user_id === user_id);
+    }
+    
+    res.json({ disaster_id: data.id, entries: entries.reverse() });
+  } catch (error) {
+    logger.error(`Failed to retrieve history for disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Check a draft report against recent disasters before it is submitted
+router.post('/check-duplicates', authenticate, async (req, res) => {
+  try {
+    const { title, description, tags = [], location_name, lat, lng, exclude_id } = req.body;
+    
+    if (!title && !description) {
+      return res.status(400).json({ error: 'Title or description is required' });
+    }
+    
+    if ((lat !== undefined || lng !== undefined) && !parseCoordinates(lat, lng)) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+    
+    const coordinates = await resolveLocation(location_name, lat, lng);
+    const duplicates = await findDuplicateDisasters(
+      { title, description, tags, coordinates },
+      { excludeId: exclude_id }
+    );
+    
+    res.json({ duplicates });
+  } catch (error) {
+    logger.error(`Failed to check for duplicate disasters: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Create new disaster
 router.post('/', authenticate, async (req, res) => {
   try {
-    const { title, location_name, description, tags = [] } = req.body;
+    const { title, location_name, description, tags = [], severity = 'medium', lat, lng, parent_id } = req.body;
     
     if (!title || !description) {
       return res.status(400).json({ error: 'Title and description are required' });
     }
     
+    if (!SEVERITY_LEVELS.includes(severity)) {
+      return res.status(400).json({ error: `Severity must be one of: ${SEVERITY_LEVELS.join(', ')}` });
+    }
+    
+    if ((lat !== undefined || lng !== undefined) && !parseCoordinates(lat, lng)) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+    
+    if (parent_id) {
+      const parentError = await validateParent(null, parent_id);
+      if (parentError) return res.status(400).json({ error: parentError });
+    }
+    
+    const coordinates = await resolveLocation(location_name, lat, lng);
+    const duplicateWarnings = await findDuplicateDisasters({ title, description, tags, coordinates });
+    
     const disaster = {
       id: uuidv4(),
       title,
       location_name,
+      ...(coordinates && { location: toPoint(coordinates) }),
       description,
       tags,
+      status: 'reported',
+      severity,
+      parent_id: parent_id || null,
       owner_id: req.user.id,
       created_at: new Date().toISOString(),
-      audit_trail: [{
-        action: 'create',
-        user_id: req.user.id,
-        timestamp: new Date().toISOString()
-      }]
+      audit_trail: [createAuditEntry('create', req.user)]
     };
     
     const { data, error } = await supabase
@@ -96,9 +363,11 @@ router.post('/', authenticate, async (req, res) => {
     
     // Emit real-time update
     req.io.emit('disaster_updated', { action: 'create', disaster: data });
+    await publishCapMessage(data, 'Alert');
     
     logger.info(`Disaster created: ${title} by ${req.user.id}`);
-    res.status(201).json(data);
+    res.set('ETag', formatETag(data.version));
+    res.status(201).json({ ...data, duplicate_warnings: duplicateWarnings });
   } catch (error) {
     logger.error(`Failed to create disaster: ${error.message}`);
     res.status(500).json({ error: error.message });
@@ -108,7 +377,19 @@ router.post('/', authenticate, async (req, res) => {
 // Update disaster
 router.put('/:id', authenticate, async (req, res) => {
   try {
-    const { title, location_name, description, tags } = req.body;
+    const { title, location_name, description, tags, severity, lat, lng, parent_id } = req.body;
+    
+    if (req.body.status !== undefined) {
+      return res.status(400).json({ error: 'Use PATCH /api/disasters/:id/status to change status' });
+    }
+    
+    if (severity !== undefined && !SEVERITY_LEVELS.includes(severity)) {
+      return res.status(400).json({ error: `Severity must be one of: ${SEVERITY_LEVELS.join(', ')}` });
+    }
+    
+    if ((lat !== undefined || lng !== undefined) && !parseCoordinates(lat, lng)) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
     
     // Get existing disaster
     const { data: existing, error: fetchError } = await supabase
@@ -125,43 +406,282 @@ router.put('/:id', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'Not authorized to update this disaster' });
     }
     
+    if (!checkIfMatch(req, res, existing, { required: true })) return;
+    if (rejectIfArchived(res, existing)) return;
+    
+    // parent_id: null detaches a sub-incident from its parent
+    if (parent_id) {
+      const parentError = await validateParent(existing.id, parent_id);
+      if (parentError) return res.status(400).json({ error: parentError });
+    }
+    
+    // Re-geocode when the location name changes or explicit coordinates are sent,
+    // clearing the point if the new name cannot be resolved
+    const locationChanged = (location_name && location_name !== existing.location_name) ||
+      (lat !== undefined && lng !== undefined);
+    
     const updates = {
       ...(title && { title }),
       ...(location_name && { location_name }),
       ...(description && { description }),
       ...(tags && { tags }),
-      audit_trail: [
-        ...existing.audit_trail,
-        {
-          action: 'update',
-          user_id: req.user.id,
-          timestamp: new Date().toISOString(),
-          changes: { title, location_name, description, tags }
-        }
-      ]
+      ...(severity && { severity }),
+      ...(parent_id !== undefined && { parent_id: parent_id || null })
     };
     
-    const { data, error } = await supabase
+    const changes = diffFields(existing, updates, AUDITED_FIELDS);
+    
+    if (locationChanged) {
+      const coordinates = await resolveLocation(location_name || existing.location_name, lat, lng);
+      updates.location = coordinates ? toPoint(coordinates) : null;
+      Object.assign(changes, diffFields(
+        { coordinates: getCoordinates(existing) },
+        { coordinates },
+        ['coordinates']
+      ));
+    }
+    
+    // Nothing actually changed, so there is nothing to write or audit
+    if (Object.keys(changes).length === 0) {
+      res.set('ETag', formatETag(existing.version));
+      return res.json(existing);
+    }
+    
+    const data = await updateIfUnchanged(existing, updates, createAuditEntry('update', req.user, changes));
+    if (!data) return sendLatestConflict(res, req.params.id);
+    
+    // Emit real-time update
+    req.io.emit('disaster_updated', { action: 'update', disaster: data });
+    await publishCapMessage(data, 'Update');
+    
+    logger.info(`Disaster updated: ${req.params.id} by ${req.user.id}`);
+    res.set('ETag', formatETag(data.version));
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to update disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Move a disaster to the next lifecycle status
+router.patch('/:id/status', authenticate, async (req, res) => {
+  try {
+    const { status, note } = req.body;
+    
+    if (!DISASTER_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Status must be one of: ${DISASTER_STATUSES.join(', ')}` });
+    }
+    
+    // Get existing disaster
+    const { data: existing, error: fetchError } = await supabase
       .from('disasters')
-      .update(updates)
+      .select('*')
       .eq('id', req.params.id)
-      .select()
       .single();
     
-    if (error) throw error;
+    if (fetchError) throw fetchError;
+    if (!existing) return res.status(404).json({ error: 'Disaster not found' });
+    
+    // Check ownership or admin role
+    if (existing.owner_id !== req.user.id && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Not authorized to update this disaster' });
+    }
+    
+    if (!checkIfMatch(req, res, existing, { required: false })) return;
+    if (rejectIfArchived(res, existing)) return;
+    
+    if (!canTransition(existing.status, status)) {
+      return res.status(409).json({
+        error: `Cannot move disaster from ${existing.status} to ${status}`,
+        allowed_transitions: getAllowedTransitions(existing.status)
+      });
+    }
+    
+    const data = await updateIfUnchanged(existing, { status }, createAuditEntry(
+      'status_change',
+      req.user,
+      { status: { from: existing.status, to: status } },
+      note ? { note } : {}
+    ));
+    if (!data) return sendLatestConflict(res, req.params.id);
+    
+    // Emit real-time update
+    req.io.emit('disaster_updated', { action: 'status_change', disaster: data });
+    await publishCapMessage(data, 'Update');
+    
+    logger.info(`Disaster ${req.params.id} moved from ${existing.status} to ${status} by ${req.user.id}`);
+    res.set('ETag', formatETag(data.version));
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to change status of disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Restore a disaster to the state it had before the given audit entry (admin only)
+router.post('/:id/revert/:entry', authenticate, requireRole('admin'), async (req, res) => {
+  try {
+    // Get existing disaster
+    const { data: existing, error: fetchError } = await supabase
+      .from('disasters')
+      .select('*')
+      .eq('id', req.params.id)
+      .single();
+    
+    if (fetchError) throw fetchError;
+    if (!existing) return res.status(404).json({ error: 'Disaster not found' });
+    
+    if (!checkIfMatch(req, res, existing, { required: false })) return;
+    if (rejectIfArchived(res, existing)) return;
+    
+    const trail = existing.audit_trail || [];
+    const targetIndex = findAuditEntryIndex(trail, req.params.entry);
+    
+    if (targetIndex === -1) {
+      return res.status(404).json({ error: 'Audit entry not found' });
+    }
+    
+    // Walk back from the newest entry to the target, undoing each disaster-level change
+    const restored = {};
+    
+    for (let i = trail.length - 1; i >= targetIndex; i--) {
+      const entry = trail[i];
+      if (entry.entity && entry.entity !== 'disaster') continue;
+      
+      for (const [field, change] of Object.entries(entry.changes || {})) {
+        if (!REVERTABLE_FIELDS.includes(field)) continue;
+        
+        if (!change || typeof change !== 'object' || !('from' in change)) {
+          return res.status(409).json({
+            error: 'History before this point has no before/after values and cannot be reverted',
+            entry_id: entry.id || String(i)
+          });
+        }
+        
+        restored[field] = change.from;
+      }
+    }
+    
+    // The old parent may have been archived or moved below this disaster since
+    if (restored.parent_id && restored.parent_id !== existing.parent_id) {
+      const parentError = await validateParent(existing.id, restored.parent_id);
+      if (parentError) {
+        return res.status(409).json({ error: `Cannot restore parent: ${parentError}` });
+      }
+    }
+    
+    const { coordinates, ...fields } = restored;
+    const updates = { ...fields };
+    const changes = diffFields(existing, fields, AUDITED_FIELDS);
+    
+    if ('coordinates' in restored) {
+      updates.location = coordinates ? toPoint(coordinates) : null;
+      Object.assign(changes, diffFields(
+        { coordinates: getCoordinates(existing) },
+        { coordinates },
+        ['coordinates']
+      ));
+    }
+    
+    if (Object.keys(changes).length === 0) {
+      res.set('ETag', formatETag(existing.version));
+      return res.json(existing);
+    }
+    
+    const data = await updateIfUnchanged(existing, updates, createAuditEntry('revert', req.user, changes, {
+      reverted_to: trail[targetIndex].id || String(targetIndex)
+    }));
+    if (!data) return sendLatestConflict(res, req.params.id);
     
     // Emit real-time update
     req.io.emit('disaster_updated', { action: 'update', disaster: data });
+    await publishCapMessage(data, 'Update');
     
-    logger.info(`Disaster updated: ${req.params.id} by ${req.user.id}`);
+    logger.info(`Disaster ${req.params.id} reverted to before entry ${req.params.entry} by ${req.user.id}`);
+    res.set('ETag', formatETag(data.version));
     res.json(data);
   } catch (error) {
-    logger.error(`Failed to update disaster ${req.params.id}: ${error.message}`);
+    logger.error(`Failed to revert disaster ${req.params.id}: ${error.message}`);
     res.status(500).json({ error: error.message });
   }
 });
 
-// Delete disaster
+// Merge a duplicate into this disaster (admin only). Reports and resources move
+// over and the duplicate is archived with a pointer to the surviving record.
+router.post('/:id/merge', authenticate, requireRole('admin'), async (req, res) => {
+  try {
+    const targetId = req.params.id;
+    const { source_id: sourceId } = req.body;
+    
+    if (!sourceId) {
+      return res.status(400).json({ error: 'source_id is required' });
+    }
+    
+    if (sourceId === targetId) {
+      return res.status(400).json({ error: 'A disaster cannot be merged into itself' });
+    }
+    
+    const { data: found, error: fetchError } = await supabase
+      .from('disasters')
+      .select('*')
+      .in('id', [targetId, sourceId]);
+    
+    if (fetchError) throw fetchError;
+    
+    const target = found.find(d => d.id === targetId);
+    const source = found.find(d => d.id === sourceId);
+    
+    if (!target) return res.status(404).json({ error: 'Disaster not found' });
+    if (!source) return res.status(404).json({ error: 'Source disaster not found' });
+    
+    if (!checkIfMatch(req, res, target, { required: false })) return;
+    if (rejectIfArchived(res, target)) return;
+    
+    if (source.archived_at) {
+      return res.status(409).json({ error: 'Source disaster is already archived' });
+    }
+    
+    const { data: counts, error: mergeError } = await supabase.rpc('merge_disaster_records', {
+      p_target_id: targetId,
+      p_source_id: sourceId,
+      p_user_id: req.user.id,
+      p_target_entry: createAuditEntry('merge', req.user, {}, {
+        merged_from: sourceId,
+        merged_title: source.title
+      }),
+      p_source_entry: createAuditEntry('merge', req.user, {
+        merged_into: { from: null, to: targetId }
+      }, {
+        merged_into: targetId
+      })
+    });
+    
+    if (mergeError) throw mergeError;
+    
+    const { data, error } = await supabase
+      .from('disasters')
+      .select('*')
+      .eq('id', targetId)
+      .single();
+    
+    if (error) throw error;
+    
+    // Emit real-time update
+    req.io.emit('disaster_updated', { action: 'merge', disaster: data, merged_id: sourceId });
+    await publishCapMessage(source, 'Cancel', `Merged into ${targetId}`);
+    await publishCapMessage(data, 'Update');
+    
+    logger.info(`Disaster ${sourceId} merged into ${targetId} by ${req.user.id}`);
+    res.set('ETag', formatETag(data.version));
+    res.json({ disaster: data, merged_id: sourceId, ...counts });
+  } catch (error) {
+    logger.error(`Failed to merge into disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Archive disaster. Nothing is removed until the purge job runs after the
+// retention window, so a mistaken delete can be restored.
 router.delete('/:id', authenticate, async (req, res) => {
   try {
     // Get existing disaster
@@ -179,22 +699,191 @@ router.delete('/:id', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'Not authorized to delete this disaster' });
     }
     
-    const { error } = await supabase
+    if (!checkIfMatch(req, res, existing, { required: true })) return;
+    if (rejectIfArchived(res, existing)) return;
+    
+    const archivedAt = new Date().toISOString();
+    const data = await updateIfUnchanged(
+      existing,
+      { archived_at: archivedAt, archived_by: req.user.id },
+      createAuditEntry('archive', req.user, {
+        archived_at: { from: null, to: archivedAt },
+        archived_by: { from: null, to: req.user.id }
+      })
+    );
+    if (!data) return sendLatestConflict(res, req.params.id);
+    
+    // Emit real-time update
+    req.io.emit('disaster_updated', { action: 'archive', disaster: data });
+    await publishCapMessage(data, 'Cancel', 'Disaster archived');
+    
+    logger.info(`Disaster archived: ${req.params.id} by ${req.user.id}`);
+    res.json({ message: 'Disaster archived successfully', disaster: data });
+  } catch (error) {
+    logger.error(`Failed to archive disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Restore an archived disaster (admin only)
+router.post('/:id/restore', authenticate, requireRole('admin'), async (req, res) => {
+  try {
+    // Get existing disaster
+    const { data: existing, error: fetchError } = await supabase
       .from('disasters')
-      .delete()
-      .eq('id', req.params.id);
+      .select('*')
+      .eq('id', req.params.id)
+      .single();
     
-    if (error) throw error;
+    if (fetchError) throw fetchError;
+    if (!existing) return res.status(404).json({ error: 'Disaster not found' });
+    
+    if (!existing.archived_at) {
+      return res.status(409).json({ error: 'Disaster is not archived' });
+    }
+    
+    if (!checkIfMatch(req, res, existing, { required: false })) return;
+    
+    const data = await updateIfUnchanged(
+      existing,
+      { archived_at: null, archived_by: null },
+      createAuditEntry('restore', req.user, {
+        archived_at: { from: existing.archived_at, to: null },
+        archived_by: { from: existing.archived_by, to: null }
+      })
+    );
+    if (!data) return sendLatestConflict(res, req.params.id);
     
     // Emit real-time update
-    req.io.emit('disaster_updated', { action: 'delete', disaster: existing });
+    req.io.emit('disaster_updated', { action: 'restore', disaster: data });
+    await publishCapMessage(data, 'Update');
     
-    logger.info(`Disaster deleted: ${req.params.id} by ${req.user.id}`);
-    res.json({ message: 'Disaster deleted successfully' });
+    logger.info(`Disaster restored: ${req.params.id} by ${req.user.id}`);
+    res.set('ETag', formatETag(data.version));
+    res.json(data);
   } catch (error) {
-    logger.error(`Failed to delete disaster ${req.params.id}: ${error.message}`);
+    logger.error(`Failed to restore disaster ${req.params.id}: ${error.message}`);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Compare If-Match with the current version. Sends the error response and
+// returns false when the request must not go ahead.
+function checkIfMatch(req, res, existing, { required }) {
+  const expected = parseIfMatch(req.get('If-Match'));
+  
+  if (expected === null) {
+    if (!required) return true;
+    res.status(428).json({ error: 'If-Match header with the disaster version is required' });
+    return false;
+  }
+  
+  if (Number.isNaN(expected)) {
+    res.status(400).json({ error: 'Malformed If-Match header' });
+    return false;
+  }
+  
+  if (expected !== '*' && expected !== existing.version) {
+    sendConflict(res, existing);
+    return false;
+  }
+  
+  return true;
+}
+
+// CAP messages are issued after the change is saved; a failure is logged and
+// does not fail the request
+async function publishCapMessage(disaster, msgType, note) {
+  try {
+    await issueCapMessage(disaster, msgType, note);
+  } catch (error) {
+    logger.warn(`Failed to issue CAP ${msgType} for disaster ${disaster.id}: ${error.message}`);
+  }
+}
+
+// Archived disasters are read-only until restored
+function rejectIfArchived(res, existing) {
+  if (!existing.archived_at) return false;
+  
+  res.status(409).json({ error: 'Disaster is archived', archived_at: existing.archived_at });
+  return true;
+}
+
+function sendConflict(res, current) {
+  res.set('ETag', formatETag(current.version));
+  res.status(409).json({ error: 'Disaster was modified by someone else', current });
+}
+
+// Used when a conditional write matched no row: someone else wrote first
+async function sendLatestConflict(res, id) {
+  const { data: current, error } = await supabase
+    .from('disasters')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  
+  if (error) throw error;
+  if (!current) return res.status(404).json({ error: 'Disaster not found' });
+  
+  sendConflict(res, current);
+}
+
+// Write only if the row still has the version that was read, then append the
+// audit entry. Returns null when the version moved on in the meantime.
+async function updateIfUnchanged(existing, updates, auditEntry) {
+  const { data, error } = await supabase
+    .from('disasters')
+    .update({ ...updates, version: existing.version + 1 })
+    .eq('id', existing.id)
+    .eq('version', existing.version)
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  if (!data) return null;
+  
+  await appendAuditEntry(existing.id, auditEntry);
+  
+  return { ...data, audit_trail: [...(data.audit_trail || []), auditEntry] };
+}
+
+// Split a comma-separated query value into a list
+function parseListParam(value) {
+  if (!value) return [];
+  return String(value).split(',').map(v => v.trim()).filter(Boolean);
+}
+
+// Find an audit entry by id, falling back to its position for legacy entries
+function findAuditEntryIndex(trail, ref) {
+  const index = trail.findIndex(entry => entry.id === ref);
+  if (index !== -1) return index;
+  
+  if (/^\d+$/.test(ref) && Number(ref) < trail.length && !trail[Number(ref)].id) {
+    return Number(ref);
+  }
+  
+  return -1;
+}
+
+// Stored coordinates of a disaster, or null if it has no point
+function getCoordinates(disaster) {
+  return disaster.lat !== null && disaster.lat !== undefined
+    ? { lat: disaster.lat, lng: disaster.lng }
+    : null;
+}
+
+// Use client coordinates, or geocode the location name
+async function resolveLocation(locationName, lat, lng) {
+  const coordinates = parseCoordinates(lat, lng);
+  if (coordinates) {
+    return coordinates;
+  }
+  
+  if (!locationName) {
+    return null;
+  }
+  
+  return geocodeWithCache(locationName);
+}
+
 export default router;
\ No newline at end of file
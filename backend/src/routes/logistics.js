@@ -0,0 +1,394 @@
+import express from 'express';
+import { supabase, authenticate, logger } from '../middleware/index.js';
+import { createAuditEntry, appendAuditEntry } from '../utils/audit.js';
+import {
+  SUPPLY_ITEMS,
+  SHIPMENT_STATUSES,
+  parseShipmentItems,
+  isLowStock,
+  emitLowStockAlerts
+} from '../utils/inventory.js';
+import { canManageDisaster } from '../utils/permissions.js';
+import { emitToDisasterRoom } from '../socket/handlers.js';
+
+const router = express.Router();
+
+const SHIPMENT_SELECT = `*,
+  origin:resources!shipments_origin_resource_id_fkey(id, name, disaster_id),
+  destination:resources!shipments_destination_resource_id_fkey(id, name, disaster_id)`;
+
+// Stock at every resource of a disaster. Items at or below their threshold are
+// flagged `low_stock` and also listed under `low_stock`.
+router.get('/:id/inventory', async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+
+    const { data, error } = await supabase
+      .from('resources')
+      .select('id, name, type, location_name, inventory:inventory_items(*)')
+      .eq('disaster_id', disasterId)
+      .order('name');
+
+    if (error) throw error;
+
+    const resources = data.map(resource => ({
+      ...resource,
+      inventory: resource.inventory
+        .map(stock => ({ ...stock, low_stock: isLowStock(stock) }))
+        .sort((a, b) => a.item.localeCompare(b.item))
+    }));
+
+    const lowStock = resources.flatMap(resource => resource.inventory
+      .filter(stock => stock.low_stock)
+      .map(stock => ({ resource_id: resource.id, resource_name: resource.name, ...stock }))
+    );
+
+    res.json({ items: SUPPLY_ITEMS, resources, low_stock: lowStock });
+  } catch (error) {
+    logger.error(`Failed to retrieve inventory for disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Record a stock count and/or low-stock threshold for an item at a resource
+router.put('/:id/resources/:resourceId/inventory/:item', authenticate, async (req, res) => {
+  try {
+    const { id: disasterId, resourceId, item } = req.params;
+    const { quantity, low_stock_threshold } = req.body;
+
+    if (!SUPPLY_ITEMS[item]) {
+      return res.status(400).json({ error: `Item must be one of: ${Object.keys(SUPPLY_ITEMS).join(', ')}` });
+    }
+    if (quantity !== undefined && !isNonNegativeInteger(quantity)) {
+      return res.status(400).json({ error: 'Quantity must be a non-negative integer' });
+    }
+    if (low_stock_threshold !== undefined && low_stock_threshold !== null && !isNonNegativeInteger(low_stock_threshold)) {
+      return res.status(400).json({ error: 'low_stock_threshold must be a non-negative integer' });
+    }
+    if (quantity === undefined && low_stock_threshold === undefined) {
+      return res.status(400).json({ error: 'quantity or low_stock_threshold is required' });
+    }
+
+    const resource = await findResource(disasterId, resourceId);
+    if (!resource) return res.status(404).json({ error: 'Resource not found' });
+
+    if (!(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to manage inventory for this disaster' });
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('inventory_items')
+      .select('*')
+      .eq('resource_id', resourceId)
+      .eq('item', item)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .upsert({
+        resource_id: resourceId,
+        item,
+        unit: existing?.unit || SUPPLY_ITEMS[item].unit,
+        quantity: quantity !== undefined ? Number(quantity) : existing?.quantity ?? 0,
+        low_stock_threshold: low_stock_threshold !== undefined
+          ? (low_stock_threshold === null ? null : Number(low_stock_threshold))
+          : existing?.low_stock_threshold ?? null,
+        updated_by: req.user.id
+      }, { onConflict: 'resource_id,item' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'inventory_count',
+      req.user,
+      { [item]: { from: existing?.quantity ?? null, to: data.quantity } },
+      { entity: 'resource', entity_id: resourceId }
+    ));
+
+    emitToDisasterRoom(req.io, disasterId, 'inventory_updated', {
+      disaster_id: disasterId,
+      resource_id: resourceId,
+      inventory: [data]
+    });
+    await emitLowStockAlerts(req.io, resourceId, [item]);
+
+    logger.info(`Inventory of ${item} at ${resourceId} set to ${data.quantity} by ${req.user.id}`);
+    res.json({ ...data, low_stock: isLowStock(data) });
+  } catch (error) {
+    logger.error(`Failed to update inventory for resource ${req.params.resourceId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Add or remove stock, e.g. when supplies are handed out ({ delta: -20 })
+router.post('/:id/resources/:resourceId/inventory/:item/adjust', authenticate, async (req, res) => {
+  try {
+    const { id: disasterId, resourceId, item } = req.params;
+    const { note } = req.body;
+    const delta = Number(req.body.delta);
+
+    if (!SUPPLY_ITEMS[item]) {
+      return res.status(400).json({ error: `Item must be one of: ${Object.keys(SUPPLY_ITEMS).join(', ')}` });
+    }
+    if (!Number.isInteger(delta) || delta === 0) {
+      return res.status(400).json({ error: 'delta must be a non-zero integer' });
+    }
+
+    const resource = await findResource(disasterId, resourceId);
+    if (!resource) return res.status(404).json({ error: 'Resource not found' });
+
+    if (!(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to manage inventory for this disaster' });
+    }
+
+    const { data, error } = await supabase.rpc('adjust_inventory', {
+      p_resource_id: resourceId,
+      p_item: item,
+      p_delta: delta,
+      p_user_id: req.user.id
+    });
+
+    if (error) {
+      // Raised by the function when stock would go below zero
+      if (error.code === '23514') return res.status(409).json({ error: error.message });
+      throw error;
+    }
+
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'inventory_adjust',
+      req.user,
+      { [item]: { from: data.quantity - delta, to: data.quantity } },
+      { entity: 'resource', entity_id: resourceId, ...(note && { note }) }
+    ));
+
+    emitToDisasterRoom(req.io, disasterId, 'inventory_updated', {
+      disaster_id: disasterId,
+      resource_id: resourceId,
+      inventory: [data]
+    });
+    await emitLowStockAlerts(req.io, resourceId, [item]);
+
+    logger.info(`Inventory of ${item} at ${resourceId} adjusted by ${delta} by ${req.user.id}`);
+    res.json({ ...data, low_stock: isLowStock(data) });
+  } catch (error) {
+    logger.error(`Failed to adjust inventory for resource ${req.params.resourceId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Shipments into this disaster's resources, newest first
+router.get('/:id/shipments', async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+    const { status } = req.query;
+
+    let query = supabase
+      .from('shipments')
+      .select(SHIPMENT_SELECT)
+      .eq('disaster_id', disasterId)
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      const statuses = status.split(',').map(s => s.trim()).filter(Boolean);
+      const invalid = statuses.filter(s => !SHIPMENT_STATUSES.includes(s));
+
+      if (invalid.length > 0) {
+        return res.status(400).json({ error: `Invalid status: ${invalid.join(', ')}` });
+      }
+
+      query = query.in('status', statuses);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    res.json({ shipments: data });
+  } catch (error) {
+    logger.error(`Failed to retrieve shipments for disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Request a shipment to one of this disaster's resources, from another
+// resource (origin_resource_id) or an external donor (donor_name). Taking
+// stock from another disaster's resource needs the right to manage that one too.
+router.post('/:id/shipments', authenticate, async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+    const { destination_resource_id, origin_resource_id, donor_name, note } = req.body;
+
+    if (!destination_resource_id) {
+      return res.status(400).json({ error: 'destination_resource_id is required' });
+    }
+    if (!origin_resource_id && !donor_name) {
+      return res.status(400).json({ error: 'origin_resource_id or donor_name is required' });
+    }
+    if (origin_resource_id && origin_resource_id === destination_resource_id) {
+      return res.status(400).json({ error: 'Origin and destination must be different resources' });
+    }
+
+    const { errors, items } = parseShipmentItems(req.body.items);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; ') });
+    }
+
+    const destination = await findResource(disasterId, destination_resource_id);
+    if (!destination) return res.status(404).json({ error: 'Destination resource not found' });
+
+    let origin = null;
+    if (origin_resource_id) {
+      const { data, error: originError } = await supabase
+        .from('resources')
+        .select('id, disaster_id')
+        .eq('id', origin_resource_id)
+        .maybeSingle();
+
+      if (originError) throw originError;
+      if (!data) return res.status(404).json({ error: 'Origin resource not found' });
+      origin = data;
+    }
+
+    if (!(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to request shipments for this disaster' });
+    }
+    if (origin && origin.disaster_id !== disasterId && !(await canManageDisaster(req.user, origin.disaster_id))) {
+      return res.status(403).json({ error: 'Not authorized to ship from the origin resource' });
+    }
+
+    const { data, error } = await supabase
+      .from('shipments')
+      .insert({
+        disaster_id: disasterId,
+        destination_resource_id,
+        origin_resource_id: origin_resource_id || null,
+        donor_name: origin_resource_id ? null : donor_name,
+        items,
+        note: note || null,
+        requested_by: req.user.id
+      })
+      .select(SHIPMENT_SELECT)
+      .single();
+
+    if (error) throw error;
+
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'create',
+      req.user,
+      { status: { from: null, to: 'requested' } },
+      { entity: 'shipment', entity_id: data.id }
+    ));
+
+    emitToDisasterRoom(req.io, disasterId, 'shipments_updated', {
+      disaster_id: disasterId,
+      action: 'create',
+      shipment: data
+    });
+
+    logger.info(`Shipment ${data.id} requested for ${destination.name} by ${req.user.id}`);
+    res.status(201).json(data);
+  } catch (error) {
+    logger.error(`Failed to create shipment for disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Dispatch, deliver or cancel a shipment; stock moves with it
+router.patch('/:id/shipments/:shipmentId/status', authenticate, async (req, res) => {
+  try {
+    const { id: disasterId, shipmentId } = req.params;
+    const { status } = req.body;
+
+    if (!SHIPMENT_STATUSES.includes(status) || status === 'requested') {
+      return res.status(400).json({ error: 'Status must be one of: dispatched, delivered, cancelled' });
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('shipments')
+      .select('*')
+      .eq('id', shipmentId)
+      .eq('disaster_id', disasterId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!existing) return res.status(404).json({ error: 'Shipment not found' });
+
+    if (!(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to update shipments for this disaster' });
+    }
+
+    const { error } = await supabase.rpc('transition_shipment', {
+      p_shipment_id: shipmentId,
+      p_status: status,
+      p_user_id: req.user.id
+    });
+
+    if (error) {
+      // Raised by the function for disallowed moves and missing stock
+      if (error.code === '23514') return res.status(409).json({ error: error.message });
+      if (error.code === 'P0002') return res.status(404).json({ error: 'Shipment not found' });
+      throw error;
+    }
+
+    const { data, error: refetchError } = await supabase
+      .from('shipments')
+      .select(SHIPMENT_SELECT)
+      .eq('id', shipmentId)
+      .single();
+
+    if (refetchError) throw refetchError;
+
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'status_change',
+      req.user,
+      { status: { from: existing.status, to: status } },
+      { entity: 'shipment', entity_id: shipmentId }
+    ));
+
+    emitToDisasterRoom(req.io, disasterId, 'shipments_updated', {
+      disaster_id: disasterId,
+      action: 'status_change',
+      shipment: data
+    });
+
+    // Stock left the origin on dispatch (or came back on cancel) and reached
+    // the destination on delivery
+    const items = existing.items.map(line => line.item);
+    const touched = status === 'delivered' ? existing.destination_resource_id : existing.origin_resource_id;
+    if (touched && (status !== 'cancelled' || existing.status === 'dispatched')) {
+      emitToDisasterRoom(req.io, disasterId, 'inventory_updated', {
+        disaster_id: disasterId,
+        resource_id: touched
+      });
+      await emitLowStockAlerts(req.io, touched, items);
+    }
+
+    logger.info(`Shipment ${shipmentId} ${existing.status} -> ${status} by ${req.user.id}`);
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to update shipment ${req.params.shipmentId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+async function findResource(disasterId, resourceId) {
+  const { data, error } = await supabase
+    .from('resources')
+    .select('id, name')
+    .eq('id', resourceId)
+    .eq('disaster_id', disasterId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+function isNonNegativeInteger(value) {
+  const isNumeric = typeof value === 'number' || (typeof value === 'string' && value.trim() !== '');
+  return isNumeric && Number.isInteger(Number(value)) && Number(value) >= 0;
+}
+
+export default router;
@@ -0,0 +1,271 @@
+import express from 'express';
+import { supabase, authenticate, requireRole, logger } from '../middleware/index.js';
+import { createAuditEntry, appendAuditEntry } from '../utils/audit.js';
+import { MODERATOR_ROLES } from '../utils/permissions.js';
+import { parseLimit, encodeCursor, decodeCursor, keysetFilter } from '../utils/pagination.js';
+import { QUEUE_STATUSES, CLAIM_TTL_MS, activeClaim } from '../utils/moderation.js';
+import { emitToModerators } from '../socket/handlers.js';
+
+const router = express.Router();
+
+const CLAIM_FILTERS = ['any', 'unclaimed', 'mine', 'others'];
+
+// Approving marks the report verified, rejecting marks it fake
+const DECISIONS = {
+  approve: 'verified',
+  reject: 'fake'
+};
+
+const REPORT_SELECT = '*, disaster:disasters!inner(id, title, location_name, lat, lng, created_at, archived_at)';
+
+// Pending and suspicious reports on open disasters, oldest first
+// (?status=suspicious, disaster_id, claimed=unclaimed|mine|others, limit, cursor)
+router.get('/queue', authenticate, requireRole(...MODERATOR_ROLES), async (req, res) => {
+  try {
+    const { disaster_id, cursor, claimed = 'any' } = req.query;
+    const limit = parseLimit(req.query.limit);
+    const statuses = req.query.status
+      ? String(req.query.status).split(',').map(s => s.trim()).filter(Boolean)
+      : QUEUE_STATUSES;
+
+    const invalid = statuses.filter(s => !QUEUE_STATUSES.includes(s));
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid status: ${invalid.join(', ')} (queue holds ${QUEUE_STATUSES.join(', ')})` });
+    }
+    if (!CLAIM_FILTERS.includes(claimed)) {
+      return res.status(400).json({ error: `claimed must be one of: ${CLAIM_FILTERS.join(', ')}` });
+    }
+
+    let after = null;
+    if (cursor) {
+      after = decodeCursor(cursor, 'created_at', 'asc');
+      if (!after) return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const claimCutoff = new Date(Date.now() - CLAIM_TTL_MS).toISOString();
+
+    let query = supabase
+      .from('reports')
+      .select(REPORT_SELECT, { count: 'exact' })
+      .in('verification_status', statuses)
+      .is('disaster.archived_at', null)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (disaster_id) {
+      query = query.eq('disaster_id', disaster_id);
+    }
+
+    if (claimed === 'mine') {
+      query = query.eq('claimed_by', req.user.id).gte('claimed_at', claimCutoff);
+    } else if (claimed === 'others') {
+      query = query.neq('claimed_by', req.user.id).gte('claimed_at', claimCutoff);
+    }
+
+    // Both go in one `or` parameter so PostgREST applies them together
+    const conditions = [];
+    if (claimed === 'unclaimed') {
+      conditions.push(`or(claimed_by.is.null,claimed_at.lt."${claimCutoff}")`);
+    }
+    if (after) {
+      conditions.push(`or(${keysetFilter('created_at', 'asc', after)})`);
+    }
+    if (conditions.length > 0) {
+      query = query.or(`and(${conditions.join(',')})`);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+
+    const nextCursor = data.length === limit ? encodeCursor('created_at', 'asc', data[data.length - 1]) : null;
+
+    res.json({ reports: data.map(toQueueItem), total: count, next_cursor: nextCursor, limit });
+  } catch (error) {
+    logger.error(`Failed to retrieve moderation queue: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// One report with its disaster and every audit entry recorded for it
+router.get('/reports/:reportId', authenticate, requireRole(...MODERATOR_ROLES), async (req, res) => {
+  try {
+    const report = await getReport(req.params.reportId);
+    if (!report) return res.status(404).json({ error: 'Report not found' });
+
+    const { data: disaster, error } = await supabase
+      .from('disasters')
+      .select('audit_trail')
+      .eq('id', report.disaster_id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const history = (disaster?.audit_trail || [])
+      .filter(entry => entry.entity === 'report' && entry.entity_id === report.id)
+      .reverse();
+
+    res.json({ ...toQueueItem(report), history });
+  } catch (error) {
+    logger.error(`Failed to retrieve report ${req.params.reportId} for moderation: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Take a report so other moderators leave it alone. Claiming again renews it.
+router.post('/reports/:reportId/claim', authenticate, requireRole(...MODERATOR_ROLES), async (req, res) => {
+  try {
+    const existing = await getReport(req.params.reportId);
+    if (!existing) return res.status(404).json({ error: 'Report not found' });
+    if (!QUEUE_STATUSES.includes(existing.verification_status)) {
+      return res.status(409).json({ error: `Report is already ${existing.verification_status}` });
+    }
+
+    const claim = activeClaim(existing);
+    if (claim && claim.user_id !== req.user.id) {
+      return res.status(409).json({ error: `Report is claimed by ${claim.user_id}`, claim });
+    }
+
+    const now = new Date().toISOString();
+    const claimCutoff = new Date(Date.now() - CLAIM_TTL_MS).toISOString();
+
+    // Only succeeds if nobody else took the report since it was read
+    const { data, error } = await supabase
+      .from('reports')
+      .update({
+        claimed_by: req.user.id,
+        claimed_at: now,
+        verification_details: withModerationEntry(existing.verification_details, {
+          action: 'claim',
+          user_id: req.user.id,
+          reason: null,
+          timestamp: now
+        })
+      })
+      .eq('id', existing.id)
+      .or(`claimed_by.is.null,claimed_by.eq."${req.user.id}",claimed_at.lt."${claimCutoff}"`)
+      .select(REPORT_SELECT)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(409).json({ error: 'Report was just claimed by another moderator' });
+
+    const item = toQueueItem(data);
+    emitToModerators(req.io, 'moderation_updated', { action: 'claim', user_id: req.user.id, report: item });
+
+    logger.info(`Report ${existing.id} claimed by ${req.user.id}`);
+    res.json(item);
+  } catch (error) {
+    logger.error(`Failed to claim report ${req.params.reportId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Approve (verified) or reject (fake) a report, with the reason recorded next
+// to the moderator in `verification_details`. Rejecting needs a reason.
+router.post('/reports/:reportId/:decision(approve|reject)', authenticate, requireRole(...MODERATOR_ROLES), async (req, res) => {
+  try {
+    const { reportId, decision } = req.params;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (decision === 'reject' && !reason) {
+      return res.status(400).json({ error: 'A reason is required to reject a report' });
+    }
+
+    const existing = await getReport(reportId);
+    if (!existing) return res.status(404).json({ error: 'Report not found' });
+    if (!QUEUE_STATUSES.includes(existing.verification_status)) {
+      return res.status(409).json({ error: `Report is already ${existing.verification_status}` });
+    }
+
+    const claim = activeClaim(existing);
+    if (claim && claim.user_id !== req.user.id) {
+      return res.status(409).json({ error: `Report is claimed by ${claim.user_id}`, claim });
+    }
+
+    const status = DECISIONS[decision];
+    const now = new Date().toISOString();
+    const details = withModerationEntry(existing.verification_details, {
+      action: decision,
+      user_id: req.user.id,
+      reason: reason || null,
+      timestamp: now
+    });
+
+    // Guarded on the status read above so two decisions can't both land
+    const { data, error } = await supabase
+      .from('reports')
+      .update({
+        verification_status: status,
+        verification_details: {
+          ...details,
+          status_history: [
+            ...(details.status_history || []),
+            {
+              from: existing.verification_status,
+              to: status,
+              user_id: req.user.id,
+              reason: reason || null,
+              timestamp: now
+            }
+          ]
+        },
+        claimed_by: null,
+        claimed_at: null
+      })
+      .eq('id', reportId)
+      .eq('verification_status', existing.verification_status)
+      .select(REPORT_SELECT)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(409).json({ error: 'Report was just decided by another moderator' });
+
+    await appendAuditEntry(existing.disaster_id, createAuditEntry(
+      'moderation',
+      req.user,
+      { verification_status: { from: existing.verification_status, to: status } },
+      { entity: 'report', entity_id: reportId, decision, ...(reason && { note: reason }) }
+    ));
+
+    const { disaster, ...report } = data;
+    req.io.emit('reports_updated', {
+      disaster_id: existing.disaster_id,
+      action: 'status_change',
+      report
+    });
+
+    const item = toQueueItem(data);
+    emitToModerators(req.io, 'moderation_updated', { action: decision, user_id: req.user.id, report: item });
+
+    logger.info(`Report ${reportId} ${decision === 'approve' ? 'approved' : 'rejected'} by ${req.user.id}`);
+    res.json(item);
+  } catch (error) {
+    logger.error(`Failed to ${req.params.decision} report ${req.params.reportId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+async function getReport(reportId) {
+  const { data, error } = await supabase
+    .from('reports')
+    .select(REPORT_SELECT)
+    .eq('id', reportId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+function toQueueItem(report) {
+  const { claimed_by, claimed_at, ...rest } = report;
+  return { ...rest, claim: activeClaim(report) };
+}
+
+function withModerationEntry(details, entry) {
+  const current = details || {};
+  return { ...current, moderation_history: [...(current.moderation_history || []), entry] };
+}
+
+export default router;
@@ -0,0 +1,55 @@
+import express from 'express';
+import { logger } from '../middleware/index.js';
+import { getFromCache, setCache } from '../utils/cache.js';
+import { parseCoordinates } from '../utils/geo.js';
+import { parseResourceFilters } from '../utils/resourceTypes.js';
+import { findNearbyResources } from '../utils/resourceSearch.js';
+
+const router = express.Router();
+
+const MAX_RADIUS_METERS = 200000;
+const MAX_RESULTS = 100;
+
+// Nearest resources to a point across every disaster that is neither archived
+// nor resolved, e.g. the closest shelter with space regardless of which
+// incident it was registered under. Accepts the same type/attr filters as the
+// per-disaster resource list.
+router.get('/nearby', async (req, res) => {
+  try {
+    const { lat, lng, available } = req.query;
+    const origin = parseCoordinates(lat, lng);
+    const radius = Math.min(Math.max(parseInt(req.query.radius) || 10000, 1), MAX_RADIUS_METERS);
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), MAX_RESULTS);
+    const onlyAvailable = available === 'true';
+
+    if (!origin) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+
+    const filters = parseResourceFilters(req.query);
+    if (filters.errors.length > 0) {
+      return res.status(400).json({ error: filters.errors.join('; ') });
+    }
+
+    const cacheKey = `resources_nearby_${origin.lat}_${origin.lng}_${radius}_${limit}_${onlyAvailable}_${filters.key}`;
+    const cachedData = await getFromCache(cacheKey);
+    if (cachedData) {
+      logger.info('Nearby resources retrieved from cache');
+      return res.json(cachedData);
+    }
+
+    const resources = await findNearbyResources(origin, { radius, limit, onlyAvailable, filters });
+    const result = { resources, origin, radius, limit };
+
+    // Short TTL: occupancy and disaster status change often
+    await setCache(cacheKey, result, 300);
+
+    logger.info(`Found ${resources.length} resources within ${radius}m of ${origin.lat},${origin.lng}`);
+    res.json(result);
+  } catch (error) {
+    logger.error(`Failed to find nearby resources: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,335 @@
+import express from 'express';
+import { supabase, authenticate, logger } from '../middleware/index.js';
+import { createAuditEntry, appendAuditEntry } from '../utils/audit.js';
+import { parseCoordinates, toPoint } from '../utils/geo.js';
+import { RESOURCE_TYPE_NAMES } from '../utils/resourceTypes.js';
+import { NEED_URGENCIES, inferNeedDetails, findMatches } from '../utils/needsMatcher.js';
+import { invalidateResourceCache } from '../utils/resourceSearch.js';
+import { canManageDisaster } from '../utils/permissions.js';
+
+const router = express.Router();
+
+const NEED_STATUSES = ['open', 'fulfilled', 'cancelled'];
+const SOURCE_TYPES = ['report', 'social_post'];
+const MAX_PAGE_SIZE = 100;
+
+// Needs for a disaster, open ones first by urgency. Open needs come with
+// match suggestions unless include_matches=false.
+router.get('/:id/needs', async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+    const { status = 'open', include_matches } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), MAX_PAGE_SIZE);
+
+    const statuses = status === 'all' ? NEED_STATUSES : String(status).split(',').map(s => s.trim());
+    const invalid = statuses.filter(s => !NEED_STATUSES.includes(s));
+
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid status: ${invalid.join(', ')}` });
+    }
+
+    const disaster = await findDisaster(disasterId);
+    if (!disaster) return res.status(404).json({ error: 'Disaster not found' });
+
+    const { data, error } = await supabase
+      .from('needs')
+      .select('*')
+      .eq('disaster_id', disasterId)
+      .in('status', statuses)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    const needs = data.sort((a, b) =>
+      NEED_URGENCIES.indexOf(b.urgency) - NEED_URGENCIES.indexOf(a.urgency)
+    );
+
+    if (include_matches !== 'false') {
+      await Promise.all(needs.map(async need => {
+        if (need.status === 'open') {
+          need.matches = await findMatches(need, disaster);
+        }
+      }));
+    }
+
+    logger.info(`Retrieved ${needs.length} needs for disaster ${disasterId}`);
+    res.json({ needs });
+  } catch (error) {
+    logger.error(`Failed to retrieve needs for disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Record a need, directly or from a field report or social post. When created
+// from a source, the category, urgency, quantity and description default to
+// what the source text suggests; a source naming several categories (e.g.
+// "food and water") creates one need per category.
+router.post('/:id/needs', authenticate, async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+    const { category, source_type, source_id, quantity, urgency, description, location_name, lat, lng } = req.body;
+
+    if (source_type && !SOURCE_TYPES.includes(source_type)) {
+      return res.status(400).json({ error: `source_type must be one of: ${SOURCE_TYPES.join(', ')}` });
+    }
+    if (source_type && !source_id) {
+      return res.status(400).json({ error: 'source_id is required with source_type' });
+    }
+    if (category && !RESOURCE_TYPE_NAMES.includes(category)) {
+      return res.status(400).json({ error: `Category must be one of: ${RESOURCE_TYPE_NAMES.join(', ')}` });
+    }
+    if (urgency && !NEED_URGENCIES.includes(urgency)) {
+      return res.status(400).json({ error: `Urgency must be one of: ${NEED_URGENCIES.join(', ')}` });
+    }
+    if (quantity !== undefined && !(Number.isInteger(Number(quantity)) && Number(quantity) > 0)) {
+      return res.status(400).json({ error: 'Quantity must be a positive integer' });
+    }
+    if ((lat !== undefined || lng !== undefined) && !parseCoordinates(lat, lng)) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+
+    const disaster = await findDisaster(disasterId);
+    if (!disaster) return res.status(404).json({ error: 'Disaster not found' });
+    if (disaster.archived_at) return res.status(409).json({ error: 'Disaster is archived' });
+
+    let source = null;
+    if (source_type) {
+      source = await findSource(source_type, source_id, disasterId);
+      if (!source) return res.status(404).json({ error: 'Source not found' });
+    }
+
+    const inferred = inferNeedDetails(source?.content, source?.priority);
+    const categories = category ? [category] : inferred.categories;
+
+    if (categories.length === 0) {
+      return res.status(400).json({ error: 'Category is required when it cannot be inferred from the source' });
+    }
+
+    const coordinates = parseCoordinates(lat, lng);
+    const rows = categories.map(needCategory => ({
+      disaster_id: disasterId,
+      category: needCategory,
+      quantity: quantity !== undefined ? Number(quantity) : inferred.quantity,
+      urgency: urgency || inferred.urgency,
+      description: description ?? source?.content ?? null,
+      location_name: location_name || null,
+      ...(coordinates && { location: toPoint(coordinates) }),
+      source_type: source_type || 'manual',
+      source_id: source_type ? source_id : null,
+      created_by: req.user.id
+    }));
+
+    const { data, error } = await supabase
+      .from('needs')
+      .insert(rows)
+      .select();
+
+    if (error) throw error;
+
+    for (const need of data) {
+      await appendAuditEntry(disasterId, createAuditEntry(
+        'create',
+        req.user,
+        { category: { from: null, to: need.category }, quantity: { from: null, to: need.quantity } },
+        { entity: 'need', entity_id: need.id }
+      ));
+    }
+
+    // Emit real-time update
+    req.io.emit('needs_updated', {
+      disaster_id: disasterId,
+      action: 'create',
+      needs: data
+    });
+
+    logger.info(`${data.length} need(s) created for disaster ${disasterId} by ${req.user.id}`);
+    res.status(201).json({ needs: data });
+  } catch (error) {
+    logger.error(`Failed to create need for disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Match suggestions for one need
+router.get('/:id/needs/:needId/matches', async (req, res) => {
+  try {
+    const { id: disasterId, needId } = req.params;
+    const radius = Math.min(Math.max(parseInt(req.query.radius) || 25000, 1), 200000);
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 5, 1), 20);
+
+    const need = await findNeed(disasterId, needId);
+    if (!need) return res.status(404).json({ error: 'Need not found' });
+
+    const disaster = await findDisaster(disasterId);
+    const matches = need.status === 'open' ? await findMatches(need, disaster, { radius, limit }) : [];
+
+    res.json({ need, matches });
+  } catch (error) {
+    logger.error(`Failed to match need ${req.params.needId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Accept a match: books the need's quantity on the resource and marks the
+// need fulfilled (disaster owner or admin)
+router.post('/:id/needs/:needId/accept', authenticate, async (req, res) => {
+  try {
+    const { id: disasterId, needId } = req.params;
+    const { resource_id } = req.body;
+
+    if (!resource_id) {
+      return res.status(400).json({ error: 'resource_id is required' });
+    }
+
+    const existing = await findNeed(disasterId, needId);
+    if (!existing) return res.status(404).json({ error: 'Need not found' });
+
+    if (!(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to assign needs for this disaster' });
+    }
+
+    const { data, error } = await supabase.rpc('accept_need_match', {
+      p_need_id: needId,
+      p_resource_id: resource_id,
+      p_user_id: req.user.id
+    });
+
+    if (error) {
+      // Raised by the function; see the migration for the codes
+      if (error.code === 'P0002') return res.status(404).json({ error: error.message });
+      if (error.code === '23514') return res.status(409).json({ error: error.message });
+      if (error.code === '22023') return res.status(400).json({ error: error.message });
+      throw error;
+    }
+
+    const { data: resource, error: resourceError } = await supabase
+      .from('resources')
+      .select('*')
+      .eq('id', resource_id)
+      .single();
+
+    if (resourceError) throw resourceError;
+
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'fulfill',
+      req.user,
+      { status: { from: existing.status, to: data.status } },
+      { entity: 'need', entity_id: needId, resource_id }
+    ));
+    await invalidateResourceCache(resource.disaster_id);
+
+    // Emit real-time updates
+    req.io.emit('needs_updated', {
+      disaster_id: disasterId,
+      action: 'fulfill',
+      needs: [data]
+    });
+    req.io.emit('resources_updated', {
+      disaster_id: resource.disaster_id,
+      action: 'check_in',
+      resource
+    });
+
+    logger.info(`Need ${needId} fulfilled by resource ${resource_id} (${req.user.id})`);
+    res.json({ need: data, resource });
+  } catch (error) {
+    logger.error(`Failed to accept match for need ${req.params.needId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Cancel an open need, or reopen a cancelled one (creator, disaster owner or admin)
+router.patch('/:id/needs/:needId', authenticate, async (req, res) => {
+  try {
+    const { id: disasterId, needId } = req.params;
+    const { status } = req.body;
+
+    if (!['open', 'cancelled'].includes(status)) {
+      return res.status(400).json({ error: 'Status must be open or cancelled' });
+    }
+
+    const existing = await findNeed(disasterId, needId);
+    if (!existing) return res.status(404).json({ error: 'Need not found' });
+
+    if (existing.created_by !== req.user.id && !(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to update this need' });
+    }
+
+    if (existing.status === 'fulfilled') {
+      return res.status(409).json({ error: 'Need is already fulfilled' });
+    }
+
+    if (existing.status === status) {
+      return res.json(existing);
+    }
+
+    const { data, error } = await supabase
+      .from('needs')
+      .update({ status })
+      .eq('id', needId)
+      .eq('status', existing.status)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(409).json({ error: 'Need was changed by someone else' });
+
+    await appendAuditEntry(disasterId, createAuditEntry(
+      status === 'cancelled' ? 'cancel' : 'reopen',
+      req.user,
+      { status: { from: existing.status, to: status } },
+      { entity: 'need', entity_id: needId }
+    ));
+
+    // Emit real-time update
+    req.io.emit('needs_updated', {
+      disaster_id: disasterId,
+      action: status === 'cancelled' ? 'cancel' : 'reopen',
+      needs: [data]
+    });
+
+    logger.info(`Need ${needId} ${status} by ${req.user.id}`);
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to update need ${req.params.needId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+async function findDisaster(disasterId) {
+  const { data, error } = await supabase
+    .from('disasters')
+    .select('id, lat, lng, archived_at')
+    .eq('id', disasterId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function findNeed(disasterId, needId) {
+  const { data, error } = await supabase
+    .from('needs')
+    .select('*')
+    .eq('id', needId)
+    .eq('disaster_id', disasterId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Reports must belong to the disaster; social posts are not tied to one
+async function findSource(sourceType, sourceId, disasterId) {
+  const query = sourceType === 'report'
+    ? supabase.from('reports').select('id, content, priority').eq('id', sourceId).eq('disaster_id', disasterId)
+    : supabase.from('social_posts').select('id, content, priority').eq('id', sourceId);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export default router;
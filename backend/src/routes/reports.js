@@ -0,0 +1,199 @@
+import express from 'express';
+import { supabase, authenticate, requireRole, logger } from '../middleware/index.js';
+import { createAuditEntry, appendAuditEntry } from '../utils/audit.js';
+import { classifyText, toClassificationColumns } from '../utils/classifier.js';
+import { isPriorityAlert, emitPriorityAlert } from '../utils/alerts.js';
+import { emitToModerators } from '../socket/handlers.js';
+
+const router = express.Router();
+
+const VERIFICATION_STATUSES = ['pending', 'verified', 'suspicious', 'fake'];
+const MAX_PAGE_SIZE = 100;
+
+// Get reports for a disaster with optional status filtering
+router.get('/:id/reports', async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+    const { status, user_id } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+
+    let query = supabase
+      .from('reports')
+      .select('*', { count: 'exact' })
+      .eq('disaster_id', disasterId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    // Accept a single status or a comma-separated list
+    if (status) {
+      const statuses = status.split(',').map(s => s.trim()).filter(Boolean);
+      const invalid = statuses.filter(s => !VERIFICATION_STATUSES.includes(s));
+
+      if (invalid.length > 0) {
+        return res.status(400).json({ error: `Invalid status: ${invalid.join(', ')}` });
+      }
+
+      query = query.in('verification_status', statuses);
+    }
+
+    if (user_id) {
+      query = query.eq('user_id', user_id);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+
+    logger.info(`Retrieved ${data.length} reports for disaster ${disasterId}`);
+    res.json({ reports: data, total: count, limit, offset });
+  } catch (error) {
+    logger.error(`Failed to retrieve reports for disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Submit a new field report
+router.post('/:id/reports', authenticate, async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+    const { content, image_url } = req.body;
+
+    if (!content || !content.trim()) {
+      return res.status(400).json({ error: 'Content is required' });
+    }
+
+    if (image_url && !isHttpUrl(image_url)) {
+      return res.status(400).json({ error: 'Image URL must be an http(s) URL' });
+    }
+
+    // Make sure the disaster exists and is still open for reports
+    const { data: disaster, error: disasterError } = await supabase
+      .from('disasters')
+      .select('id, title, archived_at')
+      .eq('id', disasterId)
+      .maybeSingle();
+
+    if (disasterError) throw disasterError;
+    if (!disaster) return res.status(404).json({ error: 'Disaster not found' });
+    if (disaster.archived_at) return res.status(409).json({ error: 'Disaster is archived' });
+
+    const report = {
+      disaster_id: disasterId,
+      user_id: req.user.id,
+      content: content.trim(),
+      image_url: image_url || null,
+      verification_status: 'pending',
+      ...toClassificationColumns(await classifyText(content)),
+      created_at: new Date().toISOString()
+    };
+
+    const { data, error } = await supabase
+      .from('reports')
+      .insert(report)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // Emit real-time update
+    req.io.emit('reports_updated', {
+      disaster_id: disasterId,
+      action: 'create',
+      report: data
+    });
+
+    // New reports start pending, so they join the moderation queue
+    emitToModerators(req.io, 'moderation_updated', { action: 'queued', user_id: req.user.id, report: data });
+
+    if (isPriorityAlert(data)) {
+      emitPriorityAlert(req.io, 'report', data, [{ id: disaster.id, title: disaster.title }]);
+    }
+
+    logger.info(`Report created for disaster ${disasterId} by ${req.user.id}`);
+    res.status(201).json(data);
+  } catch (error) {
+    logger.error(`Failed to create report for disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Change the verification status of a report (admin only)
+router.patch('/:id/reports/:reportId/status', authenticate, requireRole('admin'), async (req, res) => {
+  try {
+    const { id: disasterId, reportId } = req.params;
+    const { status, reason } = req.body;
+
+    if (!VERIFICATION_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Status must be one of: ${VERIFICATION_STATUSES.join(', ')}` });
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('reports')
+      .select('*')
+      .eq('id', reportId)
+      .eq('disaster_id', disasterId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!existing) return res.status(404).json({ error: 'Report not found' });
+
+    const details = existing.verification_details || {};
+
+    const { data, error } = await supabase
+      .from('reports')
+      .update({
+        verification_status: status,
+        verification_details: {
+          ...details,
+          status_history: [
+            ...(details.status_history || []),
+            {
+              from: existing.verification_status,
+              to: status,
+              user_id: req.user.id,
+              reason: reason || null,
+              timestamp: new Date().toISOString()
+            }
+          ]
+        }
+      })
+      .eq('id', reportId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'status_change',
+      req.user,
+      { verification_status: { from: existing.verification_status, to: status } },
+      { entity: 'report', entity_id: reportId, ...(reason && { note: reason }) }
+    ));
+
+    // Emit real-time update
+    req.io.emit('reports_updated', {
+      disaster_id: disasterId,
+      action: 'status_change',
+      report: data
+    });
+    emitToModerators(req.io, 'moderation_updated', { action: 'status_change', user_id: req.user.id, report: data });
+
+    logger.info(`Report ${reportId} marked ${status} by ${req.user.id}`);
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to update report ${req.params.reportId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+function isHttpUrl(value) {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export default router;
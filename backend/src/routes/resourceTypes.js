@@ -0,0 +1,18 @@
+import express from 'express';
+import { RESOURCE_TYPES } from '../utils/resourceTypes.js';
+
+const router = express.Router();
+
+// Resource types with the attributes each accepts, for building forms and filters
+router.get('/', (req, res) => {
+  res.json(Object.entries(RESOURCE_TYPES).map(([name, definition]) => ({
+    name,
+    label: definition.label,
+    attributes: Object.entries(definition.attributes).map(([attribute, spec]) => ({
+      name: attribute,
+      ...spec
+    }))
+  })));
+});
+
+export default router;
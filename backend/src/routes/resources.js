@@ -1,14 +1,35 @@
 import express from 'express';
-import { supabase, logger } from '../middleware/index.js';
+import { supabase, authenticate, logger } from '../middleware/index.js';
 import { getFromCache, setCache } from '../utils/cache.js';
+import { diffFields, createAuditEntry, appendAuditEntry } from '../utils/audit.js';
+import { getDisasterContext } from '../utils/hierarchy.js';
+import { parseCoordinates, rankByDistance, toPoint } from '../utils/geo.js';
+import { RESOURCE_TYPE_NAMES, validateAttributes, parseResourceFilters } from '../utils/resourceTypes.js';
+import { invalidateResourceCache } from '../utils/resourceSearch.js';
+import { canManageDisaster } from '../utils/permissions.js';
 
 const router = express.Router();
 
-// Get resources for a disaster with geospatial filtering
+const AUDITED_RESOURCE_FIELDS = ['name', 'location_name', 'type', 'description', 'capacity', 'attributes'];
+
+// Get resources for a disaster with geospatial filtering. Filter by type with
+// `type=shelter,medical` and, for a single type, by attribute values with
+// `attr[beds]=min:20` or `attr[specialties]=trauma,pediatrics`.
 router.get('/:id/resources', async (req, res) => {
   try {
     const disasterId = req.params.id;
-    const { lat, lng, radius = 10000 } = req.query; // radius in meters, default 10km
+    const { lat, lng, radius = 10000, include_parent, available } = req.query; // radius in meters, default 10km
+    const onlyAvailable = available === 'true';
+    const origin = parseCoordinates(lat, lng);
+    
+    if ((lat || lng) && !origin) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+    
+    const filters = parseResourceFilters(req.query);
+    if (filters.errors.length > 0) {
+      return res.status(400).json({ error: filters.errors.join('; ') });
+    }
     
     // Get disaster details
     const { data: disaster, error: disasterError } = await supabase
@@ -20,14 +41,26 @@ router.get('/:id/resources', async (req, res) => {
     if (disasterError) throw disasterError;
     if (!disaster) return res.status(404).json({ error: 'Disaster not found' });
     
+    // Sub-incidents can also list the resources registered on their parents
+    const disasterIds = include_parent === 'true'
+      ? [disasterId, ...(await getDisasterContext(disaster)).ancestor_ids]
+      : [disasterId];
+    
     let query = supabase
       .from('resources')
       .select('*')
-      .eq('disaster_id', disasterId);
+      .in('disaster_id', disasterIds);
+    
+    // Skip resources that are at capacity
+    if (onlyAvailable) {
+      query = query.eq('is_full', false);
+    }
+    
+    query = filters.apply(query);
     
     // If coordinates provided, filter by distance
-    if (lat && lng) {
-      const cacheKey = `resources_${disasterId}_${lat}_${lng}_${radius}`;
+    if (origin) {
+      const cacheKey = `resources_${disasterIds.join('_')}_${lat}_${lng}_${radius}_${onlyAvailable}_${filters.key}`;
       
       // Check cache first
       const cachedData = await getFromCache(cacheKey);
@@ -37,21 +70,25 @@ router.get('/:id/resources', async (req, res) => {
       }
       
       // Use PostGIS function for geospatial query
-      const { data, error } = await supabase
+      const results = await Promise.all(disasterIds.map(id => filters.apply(supabase
         .rpc('get_nearby_resources', {
-          disaster_id: disasterId,
+          disaster_id: id,
           lat: parseFloat(lat),
           lng: parseFloat(lng),
-          radius_meters: parseInt(radius)
-        });
+          radius_meters: parseInt(radius),
+          only_available: onlyAvailable
+        })
+      )));
+      const error = results.find(result => result.error)?.error;
+      const data = error ? null : results.flatMap(result => result.data);
       
       if (error) {
-        // Fallback to basic query if geospatial function fails
-        logger.warn(`Geospatial query failed, falling back to basic query: ${error.message}`);
+        // Fall back to computing distances here if the geospatial function fails
+        logger.warn(`Geospatial query failed, falling back to haversine distances: ${error.message}`);
         const { data: fallbackData, error: fallbackError } = await query;
         if (fallbackError) throw fallbackError;
         
-        return res.json(addMockDistances(fallbackData, lat, lng));
+        return res.json(rankByDistance(fallbackData, origin, parseInt(radius)));
       }
       
       // Cache the results
@@ -63,10 +100,7 @@ router.get('/:id/resources', async (req, res) => {
       const { data, error } = await query;
       if (error) throw error;
       
-      // Add some mock resources if none exist
-      const resourcesWithMock = data.length === 0 ? await addMockResources(disasterId, disaster) : data;
-      
-      res.json(resourcesWithMock);
+      res.json(data);
     }
     
     logger.info(`Resources retrieved for disaster ${disasterId}`);
@@ -77,30 +111,55 @@ router.get('/:id/resources', async (req, res) => {
 });
 
 // Create new resource
-router.post('/:id/resources', async (req, res) => {
+router.post('/:id/resources', authenticate, async (req, res) => {
   try {
     const disasterId = req.params.id;
-    const { name, location_name, type, lat, lng, description, capacity } = req.body;
+    const { name, location_name, type, lat, lng, description, capacity, attributes } = req.body;
     
     if (!name || !type) {
       return res.status(400).json({ error: 'Name and type are required' });
     }
     
+    if (!RESOURCE_TYPE_NAMES.includes(type)) {
+      return res.status(400).json({ error: `Type must be one of: ${RESOURCE_TYPE_NAMES.join(', ')}` });
+    }
+    
+    const validated = validateAttributes(type, attributes ?? {});
+    if (validated.errors.length > 0) {
+      return res.status(400).json({ error: validated.errors.join('; ') });
+    }
+    
+    if (capacity !== undefined && capacity !== null && !isNonNegativeInteger(capacity)) {
+      return res.status(400).json({ error: 'Capacity must be a non-negative integer' });
+    }
+    
+    const coordinates = parseCoordinates(lat, lng);
+    if ((lat !== undefined || lng !== undefined) && !coordinates) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+    
+    const { data: disaster, error: disasterError } = await supabase
+      .from('disasters')
+      .select('id, archived_at')
+      .eq('id', disasterId)
+      .maybeSingle();
+    
+    if (disasterError) throw disasterError;
+    if (!disaster) return res.status(404).json({ error: 'Disaster not found' });
+    if (disaster.archived_at) return res.status(409).json({ error: 'Disaster is archived' });
+    
     const resource = {
       disaster_id: disasterId,
       name,
       location_name,
       type,
+      attributes: validated.attributes,
       description,
-      capacity,
+      capacity: capacity === undefined || capacity === null ? capacity : Number(capacity),
+      ...(coordinates && { location: toPoint(coordinates) }),
       created_at: new Date().toISOString()
     };
     
-    // Add geospatial point if coordinates provided
-    if (lat && lng) {
-      resource.location = `POINT(${lng} ${lat})`;
-    }
-    
     const { data, error } = await supabase
       .from('resources')
       .insert(resource)
@@ -109,6 +168,15 @@ router.post('/:id/resources', async (req, res) => {
     
     if (error) throw error;
     
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'create',
+      req.user,
+      diffFields({}, data, AUDITED_RESOURCE_FIELDS),
+      { entity: 'resource', entity_id: data.id }
+    ));
+    
+    await invalidateResourceCache(disasterId);
+    
     // Emit real-time update
     req.io.emit('resources_updated', { 
       disaster_id: disasterId, 
@@ -124,64 +192,257 @@ router.post('/:id/resources', async (req, res) => {
   }
 });
 
-// Helper function to add mock distances when geospatial query fails
-function addMockDistances(resources, lat, lng) {
-  return resources.map(resource => ({
-    ...resource,
-    distance: Math.random() * 20000, // Mock distance in meters
-    estimated: true
-  }));
-}
-
-// Helper function to add mock resources for demonstration
-async function addMockResources(disasterId, disaster) {
-  const mockResources = [
-    {
-      disaster_id: disasterId,
-      name: 'Red Cross Emergency Shelter',
-      location_name: disaster.location_name || 'Local Area',
-      type: 'shelter',
-      description: 'Emergency shelter with capacity for 200 people',
-      capacity: 200,
-      created_at: new Date().toISOString()
-    },
-    {
-      disaster_id: disasterId,
-      name: 'Mobile Medical Unit',
-      location_name: disaster.location_name || 'Local Area',
-      type: 'medical',
-      description: 'Mobile medical unit providing emergency care',
-      capacity: 50,
-      created_at: new Date().toISOString()
-    },
-    {
+// Update a resource's details
+router.patch('/:id/resources/:resourceId', authenticate, async (req, res) => {
+  try {
+    const { id: disasterId, resourceId } = req.params;
+    const { name, location_name, type, description, capacity, lat, lng, attributes } = req.body;
+    
+    if (capacity !== undefined && capacity !== null && !isNonNegativeInteger(capacity)) {
+      return res.status(400).json({ error: 'Capacity must be a non-negative integer' });
+    }
+    
+    if (type && !RESOURCE_TYPE_NAMES.includes(type)) {
+      return res.status(400).json({ error: `Type must be one of: ${RESOURCE_TYPE_NAMES.join(', ')}` });
+    }
+    
+    const coordinates = parseCoordinates(lat, lng);
+    if ((lat !== undefined || lng !== undefined) && !coordinates) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+    
+    const existing = await findResource(disasterId, resourceId);
+    if (!existing) return res.status(404).json({ error: 'Resource not found' });
+    
+    // Attributes are validated against the resulting type. Changing the type
+    // without sending attributes keeps only the ones the new type still accepts.
+    const nextType = type || existing.type;
+    let nextAttributes;
+    if (attributes !== undefined) {
+      const validated = validateAttributes(nextType, attributes ?? {});
+      if (validated.errors.length > 0) {
+        return res.status(400).json({ error: validated.errors.join('; ') });
+      }
+      nextAttributes = validated.attributes;
+    } else if (nextType !== existing.type) {
+      nextAttributes = validateAttributes(nextType, existing.attributes || {}).attributes;
+    }
+    
+    if (!(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to update this resource' });
+    }
+    
+    if (capacity !== undefined && capacity !== null && Number(capacity) < existing.current_occupancy) {
+      return res.status(409).json({
+        error: `Capacity cannot be lower than the current occupancy of ${existing.current_occupancy}`
+      });
+    }
+    
+    const updates = {
+      ...(name && { name }),
+      ...(location_name !== undefined && { location_name }),
+      ...(type && { type }),
+      ...(description !== undefined && { description }),
+      ...(capacity !== undefined && { capacity: capacity === null ? null : Number(capacity) }),
+      ...(nextAttributes !== undefined && { attributes: nextAttributes })
+    };
+    
+    const changes = diffFields(existing, updates, AUDITED_RESOURCE_FIELDS);
+    
+    if (coordinates) {
+      updates.location = toPoint(coordinates);
+      Object.assign(changes, diffFields(
+        { coordinates: getCoordinates(existing) },
+        { coordinates },
+        ['coordinates']
+      ));
+    }
+    
+    // Nothing actually changed, so there is nothing to write or audit
+    if (Object.keys(changes).length === 0) {
+      return res.json(existing);
+    }
+    
+    const { data, error } = await supabase
+      .from('resources')
+      .update(updates)
+      .eq('id', resourceId)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'update',
+      req.user,
+      changes,
+      { entity: 'resource', entity_id: resourceId }
+    ));
+    await invalidateResourceCache(disasterId);
+    
+    // Emit real-time update
+    req.io.emit('resources_updated', {
       disaster_id: disasterId,
-      name: 'Food Distribution Center',
-      location_name: disaster.location_name || 'Local Area',
-      type: 'food',
-      description: 'Emergency food distribution point',
-      capacity: 1000,
-      created_at: new Date().toISOString()
+      action: 'update',
+      resource: data
+    });
+    
+    logger.info(`Resource updated: ${resourceId} by ${req.user.id}`);
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to update resource ${req.params.resourceId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete a resource
+router.delete('/:id/resources/:resourceId', authenticate, async (req, res) => {
+  try {
+    const { id: disasterId, resourceId } = req.params;
+    
+    const existing = await findResource(disasterId, resourceId);
+    if (!existing) return res.status(404).json({ error: 'Resource not found' });
+    
+    if (!(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to delete this resource' });
     }
-  ];
-  
+    
+    const { error } = await supabase
+      .from('resources')
+      .delete()
+      .eq('id', resourceId);
+    
+    if (error) throw error;
+    
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'delete',
+      req.user,
+      diffFields(existing, Object.fromEntries(AUDITED_RESOURCE_FIELDS.map(f => [f, null])), AUDITED_RESOURCE_FIELDS),
+      { entity: 'resource', entity_id: resourceId }
+    ));
+    await invalidateResourceCache(disasterId);
+    
+    // Emit real-time update
+    req.io.emit('resources_updated', {
+      disaster_id: disasterId,
+      action: 'delete',
+      resource: existing
+    });
+    
+    logger.info(`Resource deleted: ${resourceId} by ${req.user.id}`);
+    res.json({ message: 'Resource deleted successfully' });
+  } catch (error) {
+    logger.error(`Failed to delete resource ${req.params.resourceId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Check people or units in to a resource. Responders on the ground and the
+// disaster's coordinators record occupancy.
+router.post('/:id/resources/:resourceId/check-in', authenticate, (req, res) =>
+  adjustOccupancy(req, res, 'check_in', 1)
+);
+
+// Check people or units out of a resource
+router.post('/:id/resources/:resourceId/check-out', authenticate, (req, res) =>
+  adjustOccupancy(req, res, 'check_out', -1)
+);
+
+// Occupancy changes for a resource, newest first
+router.get('/:id/resources/:resourceId/occupancy', async (req, res) => {
   try {
+    const { id: disasterId, resourceId } = req.params;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), 200);
+    
+    const existing = await findResource(disasterId, resourceId);
+    if (!existing) return res.status(404).json({ error: 'Resource not found' });
+    
     const { data, error } = await supabase
-      .from('resources')
-      .insert(mockResources)
-      .select();
+      .from('resource_occupancy_log')
+      .select('*')
+      .eq('resource_id', resourceId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    
+    if (error) throw error;
+    
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to retrieve occupancy history for resource ${req.params.resourceId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+async function adjustOccupancy(req, res, action, direction) {
+  try {
+    const { id: disasterId, resourceId } = req.params;
+    const { count = 1, note } = req.body;
+    
+    if (!isNonNegativeInteger(count) || Number(count) === 0) {
+      return res.status(400).json({ error: 'Count must be a positive integer' });
+    }
+    
+    const existing = await findResource(disasterId, resourceId);
+    if (!existing) return res.status(404).json({ error: 'Resource not found' });
+    
+    if (req.user.role !== 'responder' && !(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to record occupancy for this resource' });
+    }
+    
+    const { data, error } = await supabase.rpc('adjust_resource_occupancy', {
+      p_resource_id: resourceId,
+      p_delta: direction * Number(count),
+      p_action: action,
+      p_user_id: req.user.id,
+      p_note: note || null
+    });
     
     if (error) {
-      logger.warn(`Failed to insert mock resources: ${error.message}`);
-      return [];
+      // Raised by the function when the change would leave the valid range
+      if (error.code === '23514') return res.status(409).json({ error: error.message });
+      if (error.code === 'P0002') return res.status(404).json({ error: 'Resource not found' });
+      throw error;
     }
     
-    logger.info(`Mock resources created for disaster ${disasterId}`);
-    return data;
+    await invalidateResourceCache(disasterId);
+    
+    // Emit real-time update
+    req.io.emit('resources_updated', {
+      disaster_id: disasterId,
+      action,
+      resource: data
+    });
+    
+    logger.info(`Resource ${resourceId} ${action} x${count} by ${req.user.id}: ${data.current_occupancy}/${data.capacity ?? '∞'}`);
+    res.json(data);
   } catch (error) {
-    logger.warn(`Failed to create mock resources: ${error.message}`);
-    return [];
+    logger.error(`Failed to ${action.replace('_', ' ')} resource ${req.params.resourceId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
   }
 }
 
+async function findResource(disasterId, resourceId) {
+  const { data, error } = await supabase
+    .from('resources')
+    .select('*')
+    .eq('id', resourceId)
+    .eq('disaster_id', disasterId)
+    .maybeSingle();
+  
+  if (error) throw error;
+  return data;
+}
+
+// Stored coordinates of a resource, or null if it has no point
+function getCoordinates(resource) {
+  return resource.lat !== null && resource.lat !== undefined
+    ? { lat: resource.lat, lng: resource.lng }
+    : null;
+}
+
+function isNonNegativeInteger(value) {
+  const isNumeric = typeof value === 'number' || (typeof value === 'string' && value.trim() !== '');
+  return isNumeric && Number.isInteger(Number(value)) && Number(value) >= 0;
+}
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,220 @@
+import express from 'express';
+import { supabase, authenticate, requireRole, logger } from '../middleware/index.js';
+import { parseCoordinates, toPoint, boundingBox, rankByDistance } from '../utils/geo.js';
+import { RESPONDER_AVAILABILITY, parseSkills, emitResponderUpdate } from '../utils/responders.js';
+import { COORDINATOR_ROLES } from '../utils/permissions.js';
+
+const router = express.Router();
+
+const MAX_PAGE_SIZE = 100;
+
+// List responders. Filter by skill (all listed skills required), availability
+// and deployment; with lat/lng, only responders within `radius` meters are
+// returned, nearest first. Phone numbers and locations are for coordinators
+// and admins only.
+router.get('/', authenticate, requireRole(...COORDINATOR_ROLES), async (req, res) => {
+  try {
+    const { availability, disaster_id, lat, lng, radius = 25000 } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), MAX_PAGE_SIZE);
+    const origin = parseCoordinates(lat, lng);
+
+    if ((lat || lng) && !origin) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+
+    const { skills, invalid } = parseSkills(req.query.skill);
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid skill: ${invalid.join(', ')}` });
+    }
+
+    if (availability && !RESPONDER_AVAILABILITY.includes(availability)) {
+      return res.status(400).json({ error: `Availability must be one of: ${RESPONDER_AVAILABILITY.join(', ')}` });
+    }
+
+    let query = supabase
+      .from('responders')
+      .select('*')
+      .order('name');
+
+    if (skills.length > 0) query = query.contains('skills', skills);
+    if (availability) query = query.eq('availability', availability);
+    if (disaster_id) query = query.eq('disaster_id', disaster_id);
+
+    if (origin) {
+      const box = boundingBox(origin, parseInt(radius));
+      query = query
+        .gte('lat', box.minLat)
+        .lte('lat', box.maxLat)
+        .gte('lng', box.minLng)
+        .lte('lng', box.maxLng);
+    } else {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const responders = origin ? rankByDistance(data, origin, parseInt(radius)).slice(0, limit) : data;
+
+    res.json({ responders });
+  } catch (error) {
+    logger.error(`Failed to retrieve responders: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get a responder with their active tasks (the responder themselves, a
+// coordinator or an admin)
+router.get('/:id', authenticate, async (req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from('responders')
+      .select('*, tasks(id, disaster_id, title, status, priority)')
+      .eq('id', req.params.id)
+      .in('tasks.status', ['assigned', 'in_progress'])
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: 'Responder not found' });
+
+    if (data.user_id !== req.user.id && !COORDINATOR_ROLES.includes(req.user.role)) {
+      return res.status(403).json({ error: 'Not authorized to view this responder' });
+    }
+
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to retrieve responder ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Register a responder. Volunteers register themselves; coordinators and
+// admins can also register people without an account or for another user.
+router.post('/', authenticate, async (req, res) => {
+  try {
+    const { name, phone, availability, disaster_id, lat, lng } = req.body;
+    const isCoordinator = COORDINATOR_ROLES.includes(req.user.role);
+    const userId = req.body.user_id !== undefined ? req.body.user_id : req.user.id;
+
+    if (userId !== req.user.id && !isCoordinator) {
+      return res.status(403).json({ error: 'Only coordinators can register other people' });
+    }
+
+    const { skills, invalid } = parseSkills(req.body.skills);
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid skill: ${invalid.join(', ')}` });
+    }
+
+    if (availability && !RESPONDER_AVAILABILITY.includes(availability)) {
+      return res.status(400).json({ error: `Availability must be one of: ${RESPONDER_AVAILABILITY.join(', ')}` });
+    }
+
+    if ((lat !== undefined || lng !== undefined) && !parseCoordinates(lat, lng)) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+
+    const coordinates = parseCoordinates(lat, lng);
+    const responder = {
+      user_id: userId,
+      name: name || (userId === req.user.id ? req.user.name : null),
+      phone: phone || null,
+      skills,
+      availability: availability || 'available',
+      disaster_id: disaster_id || null,
+      ...(coordinates && { location: toPoint(coordinates), location_updated_at: new Date().toISOString() }),
+      created_by: req.user.id
+    };
+
+    if (!responder.name) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+
+    const { data, error } = await supabase
+      .from('responders')
+      .insert(responder)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') return res.status(409).json({ error: 'This user is already registered as a responder' });
+      throw error;
+    }
+
+    // Emit real-time update
+    emitResponderUpdate(req.io, 'create', data);
+
+    logger.info(`Responder registered: ${data.name} by ${req.user.id}`);
+    res.status(201).json(data);
+  } catch (error) {
+    logger.error(`Failed to register responder: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update skills, availability, deployment or current location (the responder
+// themselves, a coordinator or an admin)
+router.patch('/:id', authenticate, async (req, res) => {
+  try {
+    const { name, phone, availability, disaster_id, lat, lng } = req.body;
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('responders')
+      .select('*')
+      .eq('id', req.params.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!existing) return res.status(404).json({ error: 'Responder not found' });
+
+    if (existing.user_id !== req.user.id && !COORDINATOR_ROLES.includes(req.user.role)) {
+      return res.status(403).json({ error: 'Not authorized to update this responder' });
+    }
+
+    const { skills, invalid } = parseSkills(req.body.skills);
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid skill: ${invalid.join(', ')}` });
+    }
+
+    if (availability && !RESPONDER_AVAILABILITY.includes(availability)) {
+      return res.status(400).json({ error: `Availability must be one of: ${RESPONDER_AVAILABILITY.join(', ')}` });
+    }
+
+    if ((lat !== undefined || lng !== undefined) && !parseCoordinates(lat, lng)) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+
+    const coordinates = parseCoordinates(lat, lng);
+    const updates = {
+      ...(name && { name }),
+      ...(phone !== undefined && { phone }),
+      ...(req.body.skills !== undefined && { skills }),
+      ...(availability && { availability }),
+      ...(disaster_id !== undefined && { disaster_id }),
+      ...(coordinates && { location: toPoint(coordinates), location_updated_at: new Date().toISOString() })
+    };
+
+    if (Object.keys(updates).length === 0) {
+      return res.json(existing);
+    }
+
+    const { data, error } = await supabase
+      .from('responders')
+      .update(updates)
+      .eq('id', req.params.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // Emit real-time update, also to the disaster the responder just left
+    emitResponderUpdate(req.io, 'update', data, existing.disaster_id);
+
+    logger.info(`Responder updated: ${req.params.id} by ${req.user.id}`);
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to update responder ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
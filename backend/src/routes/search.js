@@ -0,0 +1,50 @@
+import express from 'express';
+import { supabase, logger } from '../middleware/index.js';
+
+const router = express.Router();
+
+const SEARCH_TYPES = ['disaster', 'report', 'resource'];
+const MAX_RESULTS_PER_TYPE = 50;
+
+// Full-text search over disasters, reports and resources. Matches come back
+// ranked and grouped by type; highlighted terms are wrapped in <mark></mark>.
+router.get('/', async (req, res) => {
+  try {
+    const q = (req.query.q || '').trim();
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 10, 1), MAX_RESULTS_PER_TYPE);
+    
+    if (!q) {
+      return res.status(400).json({ error: 'Query parameter q is required' });
+    }
+    
+    const types = req.query.type
+      ? String(req.query.type).split(',').map(t => t.trim()).filter(Boolean)
+      : SEARCH_TYPES;
+    const invalidTypes = types.filter(t => !SEARCH_TYPES.includes(t));
+    
+    if (invalidTypes.length > 0) {
+      return res.status(400).json({ error: `Invalid type: ${invalidTypes.join(', ')}` });
+    }
+    
+    const { data, error } = await supabase.rpc('search_records', {
+      p_query: q,
+      p_types: types,
+      p_limit: limit
+    });
+    
+    if (error) throw error;
+    
+    const results = { disasters: [], reports: [], resources: [] };
+    for (const row of data) {
+      results[`${row.entity}s`].push(row);
+    }
+    
+    logger.info(`Search "${q}" returned ${data.length} results`);
+    res.json({ query: q, total: data.length, results });
+  } catch (error) {
+    logger.error(`Search failed: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
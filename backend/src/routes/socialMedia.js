@@ -1,199 +1,119 @@
 import express from 'express';
 import { supabase, logger } from '../middleware/index.js';
-import { getFromCache, setCache } from '../utils/cache.js';
+import { parseLimit, encodeCursor, decodeCursor, keysetFilter } from '../utils/pagination.js';
+import { parseBBox } from '../utils/geo.js';
 
 const router = express.Router();
 
-// Mock social media data
-const mockSocialMediaPosts = [
-  {
-    id: '1',
-    user: 'citizen1',
-    post: '#floodrelief Need food and water in Lower East Side NYC',
-    timestamp: new Date(Date.now() - 30 * 60 * 1000).toISOString(),
-    platform: 'twitter',
-    priority: 'high',
-    keywords: ['floodrelief', 'food', 'water']
-  },
-  {
-    id: '2',
-    user: 'helper123',
-    post: 'Offering shelter in Brooklyn for flood victims. DM me #disasterhelp',
-    timestamp: new Date(Date.now() - 45 * 60 * 1000).toISOString(),
-    platform: 'twitter',
-    priority: 'medium',
-    keywords: ['shelter', 'disasterhelp']
-  },
-  {
-    id: '3',
-    user: 'emergencyalert',
-    post: 'URGENT: Water rising rapidly in Manhattan financial district. Evacuate immediately!',
-    timestamp: new Date(Date.now() - 15 * 60 * 1000).toISOString(),
-    platform: 'twitter',
-    priority: 'urgent',
-    keywords: ['urgent', 'evacuate', 'water', 'manhattan']
-  },
-  {
-    id: '4',
-    user: 'redcross_ny',
-    post: 'Emergency shelter opened at 123 Main St, Brooklyn. Capacity for 200 people.',
-    timestamp: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
-    platform: 'twitter',
-    priority: 'high',
-    keywords: ['shelter', 'emergency', 'brooklyn']
-  }
-];
+const SORT_FIELDS = ['posted_at', 'relevance_score'];
+const FORMATS = ['json', 'geojson'];
 
-// Get social media reports for a disaster
+// Stored posts the social poller matched to a disaster, newest first or most
+// relevant first (?sort=relevance_score), paged with `cursor`. `bbox`
+// (minLng,minLat,maxLng,maxLat) keeps geolocated posts inside it, and
+// ?format=geojson returns the geolocated posts as a FeatureCollection.
 router.get('/:id/social-media', async (req, res) => {
   try {
     const disasterId = req.params.id;
-    const cacheKey = `social_media_${disasterId}`;
-    
-    // Check cache first
-    const cachedData = await getFromCache(cacheKey);
-    if (cachedData) {
-      logger.info(`Social media data retrieved from cache for disaster ${disasterId}`);
-      return res.json(cachedData);
+    const { sort = 'posted_at', cursor, platform, priority, format = 'json' } = req.query;
+    const limit = parseLimit(req.query.limit);
+
+    if (!SORT_FIELDS.includes(sort)) {
+      return res.status(400).json({ error: `sort must be one of: ${SORT_FIELDS.join(', ')}` });
+    }
+
+    if (!FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${FORMATS.join(', ')}` });
+    }
+
+    const bbox = parseBBox(req.query.bbox);
+    if (req.query.bbox && !bbox) {
+      return res.status(400).json({ error: 'bbox must be minLng,minLat,maxLng,maxLat' });
+    }
+
+    const after = cursor ? decodeCursor(cursor, sort, 'desc') : null;
+    if (cursor && !after) {
+      return res.status(400).json({ error: 'Invalid cursor for this sort order' });
     }
-    
-    // Get disaster details to filter relevant posts
+
     const { data: disaster, error: disasterError } = await supabase
       .from('disasters')
-      .select('*')
+      .select('id')
       .eq('id', disasterId)
-      .single();
-    
+      .maybeSingle();
+
     if (disasterError) throw disasterError;
     if (!disaster) return res.status(404).json({ error: 'Disaster not found' });
-    
-    // Filter mock posts based on disaster tags and location
-    const relevantPosts = mockSocialMediaPosts.filter(post => {
-      const postLower = post.post.toLowerCase();
-      const locationMatch = disaster.location_name && 
-        postLower.includes(disaster.location_name.toLowerCase().split(',')[0]);
-      const tagMatch = disaster.tags.some(tag => 
-        postLower.includes(tag.toLowerCase()) || 
-        post.keywords.some(keyword => keyword.includes(tag.toLowerCase()))
-      );
-      
-      return locationMatch || tagMatch;
-    });
-    
-    // Add some priority scoring
-    const processedPosts = relevantPosts.map(post => ({
-      ...post,
-      relevance_score: calculateRelevanceScore(post, disaster),
-      disaster_id: disasterId
-    })).sort((a, b) => b.relevance_score - a.relevance_score);
-    
-    // Cache the results
-    await setCache(cacheKey, processedPosts, 3600); // 1 hour TTL
-    
-    // Emit real-time update
-    req.io.emit('social_media_updated', { 
-      disaster_id: disasterId, 
-      posts: processedPosts.slice(0, 5) // Send only top 5 for real-time
-    });
-    
-    logger.info(`Social media data processed for disaster ${disasterId}: ${processedPosts.length} relevant posts`);
-    res.json(processedPosts);
-  } catch (error) {
-    logger.error(`Failed to retrieve social media data for disaster ${req.params.id}: ${error.message}`);
-    res.status(500).json({ error: error.message });
-  }
-});
 
-// Mock endpoint for social media simulation
-router.get('/mock-social-media', async (req, res) => {
-  try {
-    const { keyword, location, priority } = req.query;
-    
-    let filteredPosts = [...mockSocialMediaPosts];
-    
-    if (keyword) {
-      filteredPosts = filteredPosts.filter(post => 
-        post.post.toLowerCase().includes(keyword.toLowerCase()) ||
-        post.keywords.some(k => k.toLowerCase().includes(keyword.toLowerCase()))
-      );
-    }
-    
-    if (location) {
-      filteredPosts = filteredPosts.filter(post => 
-        post.post.toLowerCase().includes(location.toLowerCase())
-      );
+    // Fetch one extra row to know whether there is a next page. The total is
+    // only counted for the first page; later pages return null.
+    let query = supabase
+      .from('social_post_matches')
+      .select('id, disaster_id, relevance_score, distance_meters, posted_at, post:social_posts!inner(*)', after ? {} : { count: 'exact' })
+      .eq('disaster_id', disasterId)
+      .order(sort, { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (platform) {
+      query = query.eq('post.platform', platform);
     }
-    
+
     if (priority) {
-      filteredPosts = filteredPosts.filter(post => post.priority === priority);
+      query = query.in('post.priority', priority.split(',').map(p => p.trim()).filter(Boolean));
+    }
+
+    if (bbox) {
+      query = query
+        .gte('post.lng', bbox.minLng)
+        .lte('post.lng', bbox.maxLng)
+        .gte('post.lat', bbox.minLat)
+        .lte('post.lat', bbox.maxLat);
+    } else if (format === 'geojson') {
+      query = query.not('post.lat', 'is', null);
+    }
+
+    if (after) {
+      query = query.or(keysetFilter(sort, 'desc', after));
     }
-    
-    // Simulate new posts every few minutes
-    const newPost = generateNewMockPost();
-    if (Math.random() > 0.7) { // 30% chance of new post
-      filteredPosts.unshift(newPost);
+
+    const { data, error, count: total = null } = await query;
+    if (error) throw error;
+
+    const page = data.slice(0, limit);
+    const posts = page.map(match => ({
+      ...match.post,
+      disaster_id: match.disaster_id,
+      relevance_score: match.relevance_score,
+      distance_meters: match.distance_meters
+    }));
+    const nextCursor = data.length > limit ? encodeCursor(sort, 'desc', page[page.length - 1]) : null;
+
+    if (format === 'geojson') {
+      return res.json({
+        type: 'FeatureCollection',
+        features: posts.map(toFeature),
+        total,
+        next_cursor: nextCursor,
+        limit
+      });
     }
-    
-    res.json(filteredPosts);
+
+    res.json({ posts, total, next_cursor: nextCursor, limit });
   } catch (error) {
-    logger.error(`Failed to retrieve mock social media data: ${error.message}`);
+    logger.error(`Failed to retrieve social media data for disaster ${req.params.id}: ${error.message}`);
     res.status(500).json({ error: error.message });
   }
 });
 
-function calculateRelevanceScore(post, disaster) {
-  let score = 0;
-  
-  // Priority scoring
-  const priorityScores = { urgent: 10, high: 7, medium: 5, low: 2 };
-  score += priorityScores[post.priority] || 0;
-  
-  // Keyword matching
-  disaster.tags.forEach(tag => {
-    if (post.post.toLowerCase().includes(tag.toLowerCase())) {
-      score += 5;
-    }
-  });
-  
-  // Location matching
-  if (disaster.location_name) {
-    const locationKeywords = disaster.location_name.toLowerCase().split(/[,\s]+/);
-    locationKeywords.forEach(keyword => {
-      if (post.post.toLowerCase().includes(keyword)) {
-        score += 3;
-      }
-    });
-  }
-  
-  // Recency bonus (newer posts get higher scores)
-  const hoursOld = (Date.now() - new Date(post.timestamp).getTime()) / (1000 * 60 * 60);
-  score += Math.max(0, 5 - hoursOld);
-  
-  return score;
-}
-
-function generateNewMockPost() {
-  const templates = [
-    "Need medical supplies in {location} #emergency",
-    "Offering transportation help for evacuation #disasterhelp",
-    "Water shortage reported in {location} area",
-    "Rescue teams needed at {location} #urgent",
-    "Food distribution point set up at {location}"
-  ];
-  
-  const locations = ['Manhattan', 'Brooklyn', 'Queens', 'Bronx', 'Staten Island'];
-  const template = templates[Math.floor(Math.random() * templates.length)];
-  const location = locations[Math.floor(Math.random() * locations.length)];
-  
+// GeoJSON Point feature (longitude first) with the post as its properties
+function toFeature({ location, lat, lng, ...properties }) {
   return {
-    id: Date.now().toString(),
-    user: `user_${Math.floor(Math.random() * 1000)}`,
-    post: template.replace('{location}', location),
-    timestamp: new Date().toISOString(),
-    platform: 'twitter',
-    priority: ['urgent', 'high', 'medium'][Math.floor(Math.random() * 3)],
-    keywords: ['emergency', 'help', 'disaster']
+    type: 'Feature',
+    id: properties.id,
+    geometry: { type: 'Point', coordinates: [lng, lat] },
+    properties
   };
 }
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,380 @@
+import express from 'express';
+import { supabase, authenticate, logger } from '../middleware/index.js';
+import { createAuditEntry, appendAuditEntry } from '../utils/audit.js';
+import { parseCoordinates, toPoint, haversineDistance } from '../utils/geo.js';
+import {
+  TASK_STATUSES,
+  TASK_PRIORITIES,
+  ACTIVE_TASK_STATUSES,
+  canTransitionTask,
+  parseSkills,
+  missingSkills,
+  emitResponderUpdate
+} from '../utils/responders.js';
+import { canManageDisaster } from '../utils/permissions.js';
+import { emitToDisasterRoom } from '../socket/handlers.js';
+
+const router = express.Router();
+
+// Task lists are public, so the responder comes without contact details or location
+const TASK_SELECT = '*, responder:responders(id, name, skills, availability)';
+
+// Tasks for a disaster, optionally filtered by status or responder
+router.get('/:id/tasks', async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+    const { status, responder_id } = req.query;
+
+    let query = supabase
+      .from('tasks')
+      .select(TASK_SELECT)
+      .eq('disaster_id', disasterId)
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      const statuses = status.split(',').map(s => s.trim()).filter(Boolean);
+      const invalid = statuses.filter(s => !TASK_STATUSES.includes(s));
+
+      if (invalid.length > 0) {
+        return res.status(400).json({ error: `Invalid status: ${invalid.join(', ')}` });
+      }
+
+      query = query.in('status', statuses);
+    }
+
+    if (responder_id) {
+      query = query.eq('responder_id', responder_id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    res.json({ tasks: data });
+  } catch (error) {
+    logger.error(`Failed to retrieve tasks for disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create a task (disaster owner, coordinator or admin)
+router.post('/:id/tasks', authenticate, async (req, res) => {
+  try {
+    const disasterId = req.params.id;
+    const { title, description, location_name, lat, lng, priority } = req.body;
+
+    if (!title || !title.trim()) {
+      return res.status(400).json({ error: 'Title is required' });
+    }
+
+    const { skills, invalid } = parseSkills(req.body.required_skills);
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid skill: ${invalid.join(', ')}` });
+    }
+
+    if (priority && !TASK_PRIORITIES.includes(priority)) {
+      return res.status(400).json({ error: `Priority must be one of: ${TASK_PRIORITIES.join(', ')}` });
+    }
+
+    if ((lat !== undefined || lng !== undefined) && !parseCoordinates(lat, lng)) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+
+    const { data: disaster, error: disasterError } = await supabase
+      .from('disasters')
+      .select('id, archived_at')
+      .eq('id', disasterId)
+      .maybeSingle();
+
+    if (disasterError) throw disasterError;
+    if (!disaster) return res.status(404).json({ error: 'Disaster not found' });
+    if (disaster.archived_at) return res.status(409).json({ error: 'Disaster is archived' });
+
+    if (!(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to create tasks for this disaster' });
+    }
+
+    const coordinates = parseCoordinates(lat, lng);
+    const { data, error } = await supabase
+      .from('tasks')
+      .insert({
+        disaster_id: disasterId,
+        title: title.trim(),
+        description: description || null,
+        location_name: location_name || null,
+        ...(coordinates && { location: toPoint(coordinates) }),
+        required_skills: skills,
+        priority: priority || 'medium',
+        created_by: req.user.id
+      })
+      .select(TASK_SELECT)
+      .single();
+
+    if (error) throw error;
+
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'create',
+      req.user,
+      { title: { from: null, to: data.title } },
+      { entity: 'task', entity_id: data.id }
+    ));
+
+    emitToDisasterRoom(req.io, disasterId, 'tasks_updated', {
+      disaster_id: disasterId,
+      action: 'create',
+      task: data
+    });
+
+    logger.info(`Task created for disaster ${disasterId}: ${data.title}`);
+    res.status(201).json(data);
+  } catch (error) {
+    logger.error(`Failed to create task for disaster ${req.params.id}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Available responders for a task: those with every required skill first,
+// then by distance to the task when both have a location. For the people who
+// assign the disaster's tasks.
+router.get('/:id/tasks/:taskId/candidates', authenticate, async (req, res) => {
+  try {
+    const { id: disasterId, taskId } = req.params;
+
+    const task = await findTask(disasterId, taskId);
+    if (!task) return res.status(404).json({ error: 'Task not found' });
+
+    if (!(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to assign tasks for this disaster' });
+    }
+
+    const { data, error } = await supabase
+      .from('responders')
+      .select('*')
+      .eq('availability', 'available');
+
+    if (error) throw error;
+
+    const candidates = data
+      .map(responder => ({
+        ...responder,
+        missing_skills: missingSkills(responder, task),
+        distance_meters: task.lat != null && responder.lat != null
+          ? haversineDistance({ lat: task.lat, lng: task.lng }, { lat: responder.lat, lng: responder.lng })
+          : null
+      }))
+      .sort((a, b) =>
+        a.missing_skills.length - b.missing_skills.length ||
+        (a.distance_meters ?? Infinity) - (b.distance_meters ?? Infinity)
+      )
+      .slice(0, 20);
+
+    res.json({ task, candidates });
+  } catch (error) {
+    logger.error(`Failed to find candidates for task ${req.params.taskId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Assign (or reassign) a task to a responder. Responders who are off duty or
+// lack a required skill are refused unless `force` is set.
+router.post('/:id/tasks/:taskId/assign', authenticate, async (req, res) => {
+  try {
+    const { id: disasterId, taskId } = req.params;
+    const { responder_id, force } = req.body;
+
+    if (!responder_id) {
+      return res.status(400).json({ error: 'responder_id is required' });
+    }
+
+    const existing = await findTask(disasterId, taskId);
+    if (!existing) return res.status(404).json({ error: 'Task not found' });
+
+    if (!(await canManageDisaster(req.user, disasterId))) {
+      return res.status(403).json({ error: 'Not authorized to assign tasks for this disaster' });
+    }
+
+    if (!['open', 'assigned'].includes(existing.status)) {
+      return res.status(409).json({ error: `Cannot assign a task that is ${existing.status.replace('_', ' ')}` });
+    }
+
+    const { data: responder, error: responderError } = await supabase
+      .from('responders')
+      .select('*')
+      .eq('id', responder_id)
+      .maybeSingle();
+
+    if (responderError) throw responderError;
+    if (!responder) return res.status(404).json({ error: 'Responder not found' });
+
+    if (!force) {
+      if (responder.availability === 'off_duty') {
+        return res.status(409).json({ error: `${responder.name} is off duty` });
+      }
+
+      const missing = missingSkills(responder, existing);
+      if (missing.length > 0) {
+        return res.status(409).json({ error: `${responder.name} is missing required skills: ${missing.join(', ')}`, missing_skills: missing });
+      }
+    }
+
+    // Only write if nobody changed the task since it was read
+    const { data, error } = await supabase
+      .from('tasks')
+      .update({
+        responder_id,
+        status: 'assigned',
+        assigned_by: req.user.id,
+        assigned_at: new Date().toISOString()
+      })
+      .eq('id', taskId)
+      .eq('status', existing.status)
+      .select(TASK_SELECT)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(409).json({ error: 'Task was changed by someone else' });
+
+    await deployResponder(req.io, responder, disasterId);
+    if (existing.responder_id && existing.responder_id !== responder_id) {
+      await releaseResponder(req.io, existing.responder_id);
+    }
+
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'assign',
+      req.user,
+      { responder_id: { from: existing.responder_id, to: responder_id } },
+      { entity: 'task', entity_id: taskId }
+    ));
+
+    emitToDisasterRoom(req.io, disasterId, 'tasks_updated', {
+      disaster_id: disasterId,
+      action: 'assign',
+      task: data
+    });
+
+    logger.info(`Task ${taskId} assigned to ${responder.name} by ${req.user.id}`);
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to assign task ${req.params.taskId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Move a task through its lifecycle. The assigned responder can start and
+// complete it; coordinators can also cancel, reopen or unassign it.
+router.patch('/:id/tasks/:taskId/status', authenticate, async (req, res) => {
+  try {
+    const { id: disasterId, taskId } = req.params;
+    const { status, note } = req.body;
+
+    if (!TASK_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Status must be one of: ${TASK_STATUSES.join(', ')}` });
+    }
+
+    const existing = await findTask(disasterId, taskId);
+    if (!existing) return res.status(404).json({ error: 'Task not found' });
+
+    const isAssignee = existing.responder?.user_id === req.user.id;
+    const isCoordinator = await canManageDisaster(req.user, disasterId);
+    const assigneeMayChange = ['in_progress', 'completed'].includes(status);
+
+    if (!isCoordinator && !(isAssignee && assigneeMayChange)) {
+      return res.status(403).json({ error: 'Not authorized to change this task' });
+    }
+
+    if (!canTransitionTask(existing.status, status)) {
+      return res.status(409).json({ error: `Cannot move a task from ${existing.status} to ${status}` });
+    }
+
+    const updates = {
+      status,
+      ...(status === 'completed' && { completed_at: new Date().toISOString() }),
+      ...(status === 'open' && { responder_id: null, assigned_by: null, assigned_at: null })
+    };
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(updates)
+      .eq('id', taskId)
+      .eq('status', existing.status)
+      .select(TASK_SELECT)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(409).json({ error: 'Task was changed by someone else' });
+
+    if (existing.responder_id && !ACTIVE_TASK_STATUSES.includes(status)) {
+      await releaseResponder(req.io, existing.responder_id);
+    }
+
+    await appendAuditEntry(disasterId, createAuditEntry(
+      'status_change',
+      req.user,
+      { status: { from: existing.status, to: status } },
+      { entity: 'task', entity_id: taskId, ...(note && { note }) }
+    ));
+
+    emitToDisasterRoom(req.io, disasterId, 'tasks_updated', {
+      disaster_id: disasterId,
+      action: 'status_change',
+      task: data
+    });
+
+    logger.info(`Task ${taskId} ${existing.status} -> ${status} by ${req.user.id}`);
+    res.json(data);
+  } catch (error) {
+    logger.error(`Failed to update task ${req.params.taskId}: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+async function findTask(disasterId, taskId) {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*, responder:responders(id, user_id, name)')
+    .eq('id', taskId)
+    .eq('disaster_id', disasterId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Assigned responders are busy and deployed to the task's disaster
+async function deployResponder(io, responder, disasterId) {
+  if (responder.availability === 'busy' && responder.disaster_id === disasterId) return;
+
+  const { data, error } = await supabase
+    .from('responders')
+    .update({ availability: 'busy', disaster_id: disasterId })
+    .eq('id', responder.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  emitResponderUpdate(io, 'update', data, responder.disaster_id);
+}
+
+// Responders with no other active task become available again
+async function releaseResponder(io, responderId) {
+  const { count, error: countError } = await supabase
+    .from('tasks')
+    .select('id', { count: 'exact', head: true })
+    .eq('responder_id', responderId)
+    .in('status', ACTIVE_TASK_STATUSES);
+
+  if (countError) throw countError;
+  if (count > 0) return;
+
+  const { data, error } = await supabase
+    .from('responders')
+    .update({ availability: 'available' })
+    .eq('id', responderId)
+    .eq('availability', 'busy')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) emitResponderUpdate(io, 'update', data);
+}
+
+export default router;
@@ -1,179 +1,259 @@
 import express from 'express';
 import { supabase, authenticate, logger } from '../middleware/index.js';
 import { getFromCache, setCache } from '../utils/cache.js';
+import { createAuditEntry, appendAuditEntry } from '../utils/audit.js';
+import {
+  fetchImage,
+  readExif,
+  perceptualHash,
+  compareWithDisaster,
+  findImageReuse,
+  signalFlags
+} from '../utils/imageAnalysis.js';
+import { QUEUE_STATUSES } from '../utils/moderation.js';
+import { emitToModerators } from '../socket/handlers.js';
 import axios from 'axios';
 
 const router = express.Router();
 
-// Verify image authenticity using Gemini API
+const GEMINI_VISION_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent';
+// Each flag raised by the signals takes this much off the model's score
+const FLAG_PENALTY = 20;
+
+// Verify a report image: download it, read its EXIF capture time, GPS and
+// device, compare those with the disaster, look for the same picture in other
+// reports by perceptual hash and, when Gemini is configured, ask the model
+// about the pixels. The signals and the model verdict are stored together in
+// the report's `verification_details`.
 router.post('/:id/verify-image', authenticate, async (req, res) => {
   try {
     const disasterId = req.params.id;
-    const { image_url, report_id } = req.body;
-    
-    if (!image_url) {
-      return res.status(400).json({ error: 'Image URL is required' });
-    }
-    
-    // Check cache first
-    const cacheKey = `image_verification_${Buffer.from(image_url).toString('base64')}`;
-    const cachedResult = await getFromCache(cacheKey);
-    
-    if (cachedResult) {
-      logger.info(`Image verification retrieved from cache`);
-      return res.json(cachedResult);
-    }
-    
-    // Get disaster details
+    const { report_id } = req.body;
+    let { image_url } = req.body;
+
     const { data: disaster, error: disasterError } = await supabase
       .from('disasters')
       .select('*')
       .eq('id', disasterId)
-      .single();
-    
+      .maybeSingle();
+
     if (disasterError) throw disasterError;
     if (!disaster) return res.status(404).json({ error: 'Disaster not found' });
-    
-    let verificationResult;
-    
-    try {
-      // Use Gemini API for image verification
-      verificationResult = await verifyImageWithGemini(image_url, disaster);
-    } catch (error) {
-      logger.warn(`Gemini API verification failed: ${error.message}`);
-      // Fallback to mock verification
-      verificationResult = mockImageVerification(image_url, disaster);
-    }
-    
-    // Update report if report_id provided
+
+    let report = null;
     if (report_id) {
-      const { error: updateError } = await supabase
+      const { data, error } = await supabase
         .from('reports')
-        .update({ 
-          verification_status: verificationResult.status,
-          verification_details: verificationResult
-        })
-        .eq('id', report_id);
-      
-      if (updateError) {
-        logger.warn(`Failed to update report verification status: ${updateError.message}`);
+        .select('id, disaster_id, image_url, verification_status, verification_details')
+        .eq('id', report_id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data || data.disaster_id !== disasterId) {
+        return res.status(404).json({ error: 'Report not found for this disaster' });
+      }
+      if (!data.image_url) {
+        return res.status(400).json({ error: 'Report has no image' });
       }
+      // A report is only ever verified against its own image
+      if (image_url && image_url !== data.image_url) {
+        return res.status(400).json({ error: 'image_url does not match the report image' });
+      }
+      report = data;
+      image_url = report.image_url;
     }
-    
-    // Cache the result
-    await setCache(cacheKey, verificationResult, 3600); // 1 hour TTL
-    
-    logger.info(`Image verification completed for disaster ${disasterId}: ${verificationResult.status}`);
-    res.json(verificationResult);
-  } catch (error) {
-    logger.error(`Failed to verify image for disaster ${req.params.id}: ${error.message}`);
-    res.status(500).json({ error: error.message });
-  }
-});
 
-// Verify image using Google Gemini API
-async function verifyImageWithGemini(imageUrl, disaster) {
-  try {
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('Gemini API key not configured');
+    if (!image_url) {
+      return res.status(400).json({ error: 'Image URL is required' });
     }
-    
-    const prompt = `Analyze this image at ${imageUrl} for authenticity and disaster context. 
-    The image is claimed to be related to a ${disaster.tags.join(', ')} disaster in ${disaster.location_name || 'an unspecified location'}.
-    
-    Please assess:
-    1. Signs of digital manipulation or editing
-    2. Whether the image content matches the claimed disaster type
-    3. Consistency of lighting, shadows, and image quality
-    4. Any obvious signs of the image being staged or fake
-    
-    Respond with a JSON object containing:
-    - authenticity_score (0-100, where 100 is completely authentic)
-    - manipulation_detected (boolean)
-    - context_match (boolean - does the image match the disaster type)
-    - analysis_summary (brief explanation)
-    - confidence_level (low/medium/high)`;
-    
-    const response = await axios.post(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${process.env.GEMINI_API_KEY}`,
-      {
-        contents: [{
-          parts: [{ text: prompt }]
-        }]
+
+    // The download, EXIF and model verdict for an image don't change; reuse is
+    // looked up again every time as other reports come in
+    const cacheKey = `image_verification_${disasterId}_${Buffer.from(image_url).toString('base64')}`;
+    let analysis = await getFromCache(cacheKey);
+
+    if (analysis) {
+      logger.info('Image analysis retrieved from cache');
+    } else {
+      analysis = await analyzeImage(image_url, disaster);
+      await setCache(cacheKey, analysis, 3600); // 1 hour TTL
+    }
+
+    const reuse = await findImageReuse(analysis.image.hash, { reportId: report?.id });
+    const flags = signalFlags({ comparison: analysis.comparison, reuse, exif: analysis.exif });
+    const verificationResult = {
+      ...assessment(analysis.model, flags),
+      signals: {
+        image: analysis.image,
+        exif: analysis.exif,
+        capture_time: analysis.comparison.capture,
+        location: analysis.comparison.location,
+        reuse
       },
-      {
-        headers: {
-          'Content-Type': 'application/json'
+      flags,
+      model: analysis.model,
+      verification_method: analysis.model ? 'gemini_api+signals' : 'signals',
+      timestamp: new Date().toISOString()
+    };
+
+    let reportStatus = null;
+    if (report) {
+      const signalColumns = {
+        verification_details: {
+          ...verificationResult,
+          // Earlier decisions stay with the report when it is verified again
+          ...pick(report.verification_details, ['status_history', 'moderation_history'])
         },
-        timeout: 10000
+        image_hash: analysis.image.hash
+      };
+
+      // The status only changes while the report waits in the queue; a
+      // moderator's decision (or an earlier verified result) is kept and just
+      // gets the new signals
+      let updated = null;
+      let updateError = null;
+      if (QUEUE_STATUSES.includes(report.verification_status)) {
+        ({ data: updated, error: updateError } = await supabase
+          .from('reports')
+          .update({ ...signalColumns, verification_status: verificationResult.status })
+          .eq('id', report.id)
+          .in('verification_status', QUEUE_STATUSES)
+          .select()
+          .maybeSingle());
       }
-    );
-    
-    const generatedText = response.data.candidates?.[0]?.content?.parts?.[0]?.text;
-    
-    if (!generatedText) {
-      throw new Error('No response from Gemini API');
-    }
-    
-    // Try to parse JSON response
-    let analysis;
-    try {
-      // Extract JSON from the response (Gemini sometimes wraps it in markdown)
-      const jsonMatch = generatedText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        analysis = JSON.parse(jsonMatch[0]);
+      if (!updated && !updateError) {
+        ({ data: updated, error: updateError } = await supabase
+          .from('reports')
+          .update(signalColumns)
+          .eq('id', report.id)
+          .select()
+          .maybeSingle());
+      }
+
+      if (updateError || !updated) {
+        logger.warn(`Failed to update report verification status: ${updateError?.message || 'report not found'}`);
       } else {
-        throw new Error('No JSON found in response');
+        reportStatus = updated.verification_status;
+        if (report.verification_status !== reportStatus) {
+          await appendAuditEntry(disasterId, createAuditEntry(
+            'verification',
+            req.user,
+            { verification_status: { from: report.verification_status, to: reportStatus } },
+            { entity: 'report', entity_id: report.id }
+          ));
+        }
+        // The signals are what moderators review, so the queue sees them straight away
+        emitToModerators(req.io, 'moderation_updated', { action: 'verification', user_id: req.user.id, report: updated });
       }
-    } catch (parseError) {
-      // If JSON parsing fails, create a structured response from the text
-      analysis = {
-        authenticity_score: generatedText.toLowerCase().includes('fake') ? 30 : 80,
-        manipulation_detected: generatedText.toLowerCase().includes('manipulated') || generatedText.toLowerCase().includes('edited'),
-        context_match: !generatedText.toLowerCase().includes('unrelated'),
-        analysis_summary: generatedText.substring(0, 200),
-        confidence_level: 'medium'
-      };
     }
-    
-    return {
-      status: analysis.authenticity_score > 70 ? 'verified' : analysis.authenticity_score > 40 ? 'suspicious' : 'fake',
-      authenticity_score: analysis.authenticity_score,
-      manipulation_detected: analysis.manipulation_detected,
-      context_match: analysis.context_match,
-      analysis_summary: analysis.analysis_summary,
-      confidence_level: analysis.confidence_level,
-      verification_method: 'gemini_api',
-      timestamp: new Date().toISOString()
-    };
+
+    logger.info(`Image verification completed for disaster ${disasterId}: ${verificationResult.status}${flags.length > 0 ? ` (${flags.join(', ')})` : ''}`);
+    // `report_status` is the report's status afterwards, which differs from
+    // `status` when a moderator already decided
+    res.json(report ? { ...verificationResult, report_status: reportStatus } : verificationResult);
+  } catch (error) {
+    logger.error(`Failed to verify image for disaster ${req.params.id}: ${error.message}`);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+async function analyzeImage(imageUrl, disaster) {
+  const { buffer, contentType, bytes } = await fetchImage(imageUrl);
+
+  let pixels;
+  try {
+    pixels = perceptualHash(buffer, contentType);
   } catch (error) {
-    logger.error(`Gemini API verification failed: ${error.message}`);
+    error.status = 422;
+    error.message = `Image could not be decoded: ${error.message}`;
     throw error;
   }
+
+  const exif = await readExif(buffer);
+
+  let model = null;
+  if (process.env.GEMINI_API_KEY) {
+    try {
+      model = await verifyImageWithGemini(buffer, contentType, disaster);
+    } catch (error) {
+      logger.warn(`Gemini API verification failed: ${error.message}`);
+    }
+  }
+
+  return {
+    image: { content_type: contentType, bytes, width: pixels.width, height: pixels.height, hash: pixels.hash },
+    exif,
+    comparison: compareWithDisaster(exif, disaster),
+    model
+  };
+}
+
+// Status and score from the model verdict and the flags. Any flag keeps a
+// report from counting as verified. Without a model, flags make it suspicious
+// and a clean image stays pending for a human.
+function assessment(model, flags) {
+  if (!model) {
+    return { status: flags.length > 0 ? 'suspicious' : 'pending', authenticity_score: null };
+  }
+
+  const score = Math.max(0, model.authenticity_score - FLAG_PENALTY * flags.length);
+  return {
+    status: flags.length > 0 && model.status === 'verified' ? 'suspicious' : model.status,
+    authenticity_score: score
+  };
 }
 
-// Mock image verification for fallback
-function mockImageVerification(imageUrl, disaster) {
-  // Simple mock based on URL patterns and disaster context
-  const score = Math.floor(Math.random() * 40) + 60; // Random score between 60-100
-  
-  const suspiciousPatterns = ['fake', 'staged', 'stock', 'shutterstock'];
-  const isSuspicious = suspiciousPatterns.some(pattern => 
-    imageUrl.toLowerCase().includes(pattern)
+// Ask Gemini about the image itself, sent inline with the request
+async function verifyImageWithGemini(buffer, contentType, disaster) {
+  const prompt = `This image was submitted as a field report for a ${disaster.tags.join(', ')} disaster in ${disaster.location_name || 'an unspecified location'}.
+
+Assess:
+1. Signs of digital manipulation or editing
+2. Whether the image content matches the claimed disaster type
+3. Consistency of lighting, shadows, and image quality
+4. Any obvious signs of the image being staged, a stock photo or AI-generated
+
+Reply with JSON only, in the form
+{"authenticity_score": 0-100, "manipulation_detected": true|false, "context_match": true|false, "analysis_summary": "brief explanation", "confidence_level": "low|medium|high"}
+where 100 is completely authentic.`;
+
+  const response = await axios.post(
+    `${GEMINI_VISION_URL}?key=${process.env.GEMINI_API_KEY}`,
+    {
+      contents: [{
+        parts: [
+          { inline_data: { mime_type: contentType, data: buffer.toString('base64') } },
+          { text: prompt }
+        ]
+      }]
+    },
+    { headers: { 'Content-Type': 'application/json' }, timeout: 20000 }
   );
-  
+
+  const generatedText = response.data.candidates?.[0]?.content?.parts?.[0]?.text;
+  const json = generatedText?.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    throw new Error('No verdict in Gemini response');
+  }
+
+  const analysis = JSON.parse(json);
+  const score = Number(analysis.authenticity_score);
+  if (!Number.isFinite(score)) {
+    throw new Error('Gemini verdict has no authenticity_score');
+  }
+
   return {
-    status: isSuspicious ? 'suspicious' : score > 80 ? 'verified' : 'pending',
-    authenticity_score: isSuspicious ? 25 : score,
-    manipulation_detected: isSuspicious,
-    context_match: true,
-    analysis_summary: isSuspicious 
-      ? 'Image shows signs of being staged or stock photography'
-      : 'Image appears authentic with no obvious signs of manipulation',
-    confidence_level: 'medium',
-    verification_method: 'mock_analysis',
-    timestamp: new Date().toISOString()
+    status: score > 70 ? 'verified' : score > 40 ? 'suspicious' : 'fake',
+    authenticity_score: Math.min(100, Math.max(0, Math.round(score))),
+    manipulation_detected: Boolean(analysis.manipulation_detected),
+    context_match: analysis.context_match !== false,
+    analysis_summary: analysis.analysis_summary || null,
+    confidence_level: analysis.confidence_level || null
   };
 }
 
-export default router;
\ No newline at end of file
+function pick(object, keys) {
+  return Object.fromEntries(keys.filter(key => object?.[key]).map(key => [key, object[key]]));
+}
+
+export default router;
@@ -12,8 +12,23 @@ import socialMediaRoutes from './routes/socialMedia.js';
 import resourceRoutes from './routes/resources.js';
 import updatesRoutes from './routes/updates.js';
 import verificationRoutes from './routes/verification.js';
+import reportRoutes from './routes/reports.js';
+import needRoutes from './routes/needs.js';
+import taskRoutes from './routes/tasks.js';
+import logisticsRoutes from './routes/logistics.js';
 import geocodingRoutes from './routes/geocoding.js';
+import searchRoutes from './routes/search.js';
+import resourceTypeRoutes from './routes/resourceTypes.js';
+import nearbyResourceRoutes from './routes/nearbyResources.js';
+import responderRoutes from './routes/responders.js';
+import alertRoutes from './routes/alerts.js';
+import capRoutes from './routes/cap.js';
+import moderationRoutes from './routes/moderation.js';
 import { initializeSocketHandlers } from './socket/handlers.js';
+import { startArchivePurgeJob } from './utils/archive.js';
+import { startSocialPoller } from './social/poller.js';
+import { startOfficialPoller } from './official/poller.js';
+import { startCapBackfill } from './utils/cap.js';
 
 dotenv.config();
 
@@ -37,7 +52,8 @@ const limiter = rateLimit({
 app.use(helmet());
 app.use(cors({
   origin: process.env.NODE_ENV === 'production' ? false : ['http://localhost:5173'],
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['ETag']
 }));
 app.use(limiter);
 app.use(express.json({ limit: '10mb' }));
@@ -61,7 +77,18 @@ app.use('/api/disasters', socialMediaRoutes);
 app.use('/api/disasters', resourceRoutes);
 app.use('/api/disasters', updatesRoutes);
 app.use('/api/disasters', verificationRoutes);
+app.use('/api/disasters', reportRoutes);
+app.use('/api/disasters', needRoutes);
+app.use('/api/disasters', taskRoutes);
+app.use('/api/disasters', logisticsRoutes);
 app.use('/api/geocode', geocodingRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/resource-types', resourceTypeRoutes);
+app.use('/api/resources', nearbyResourceRoutes);
+app.use('/api/responders', responderRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/moderation', moderationRoutes);
+app.use('/api', capRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -71,6 +98,12 @@ app.get('/api/health', (req, res) => {
 // Socket.IO
 initializeSocketHandlers(io);
 
+// Background jobs
+startArchivePurgeJob();
+startSocialPoller(io);
+startOfficialPoller(io);
+startCapBackfill();
+
 // Error handling
 app.use(errorHandler);
 
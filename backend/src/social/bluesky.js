@@ -0,0 +1,41 @@
+import axios from 'axios';
+import { toSocialPost } from './posts.js';
+
+const SEARCH_URL = 'https://bsky.social/xrpc/app.bsky.feed.searchPosts';
+
+// Bluesky post search, one request per term. Needs BLUESKY_ACCESS_TOKEN.
+export default {
+  platform: 'bluesky',
+
+  isConfigured() {
+    return Boolean(process.env.BLUESKY_ACCESS_TOKEN);
+  },
+
+  // `since` is the creation time of the newest post from the previous poll
+  async fetchPosts(terms, since) {
+    const posts = [];
+
+    for (const term of terms) {
+      const response = await axios.get(SEARCH_URL, {
+        params: { q: term, sort: 'latest', limit: 25, ...(since && { since }) },
+        headers: { Authorization: `Bearer ${process.env.BLUESKY_ACCESS_TOKEN}` },
+        timeout: 10000
+      });
+
+      for (const post of response.data.posts || []) {
+        const rkey = post.uri.split('/').pop();
+        posts.push(toSocialPost({
+          platform: 'bluesky',
+          external_id: post.uri,
+          author: post.author?.handle,
+          content: post.record?.text,
+          url: post.author?.handle ? `https://bsky.app/profile/${post.author.handle}/post/${rkey}` : null,
+          posted_at: post.record?.createdAt || post.indexedAt
+        }));
+      }
+    }
+
+    const newest = posts.reduce((latest, post) => (!latest || post.posted_at > latest ? post.posted_at : latest), since);
+    return { posts, since: newest };
+  }
+};
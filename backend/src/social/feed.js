@@ -0,0 +1,41 @@
+import fs from 'fs/promises';
+import path from 'path';
+import axios from 'axios';
+import { toSocialPost, mentionsAny } from './posts.js';
+
+// Stand-in source for offline runs and demos: a JSON array of posts read from
+// SOCIAL_FEED_URL, either a local file path or an http(s) URL. Posts use the
+// `social_posts` columns; `id`, `user`, `post` and `timestamp` are accepted too.
+export default {
+  platform: 'feed',
+
+  isConfigured() {
+    return Boolean(process.env.SOCIAL_FEED_URL);
+  },
+
+  // The whole feed is read every time; already stored posts are skipped on insert
+  async fetchPosts(terms) {
+    const location = process.env.SOCIAL_FEED_URL;
+    const entries = /^https?:\/\//.test(location)
+      ? (await axios.get(location, { timeout: 10000 })).data
+      : JSON.parse(await fs.readFile(path.resolve(location), 'utf8'));
+
+    if (!Array.isArray(entries)) {
+      throw new Error('Social feed must be a JSON array of posts');
+    }
+
+    const posts = entries
+      .map(entry => toSocialPost({
+        platform: entry.platform || 'feed',
+        external_id: entry.external_id ?? entry.id,
+        author: entry.author ?? entry.user,
+        content: entry.content ?? entry.post,
+        url: entry.url,
+        keywords: entry.keywords,
+        posted_at: entry.posted_at ?? entry.timestamp
+      }))
+      .filter(post => post.external_id && post.content && mentionsAny(`${post.content} ${post.keywords.join(' ')}`, terms));
+
+    return { posts };
+  }
+};
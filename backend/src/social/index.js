@@ -0,0 +1,25 @@
+import twitter from './twitter.js';
+import bluesky from './bluesky.js';
+import mastodon from './mastodon.js';
+import feed from './feed.js';
+
+// Source adapters the poller can collect posts from. Each adapter has
+//
+//   platform            name stored in `social_posts.ingested_by`
+//   isConfigured()      whether the credentials/settings it needs are present
+//   fetchPosts(terms, since)
+//                       resolves to { posts, since }: posts mentioning any of the
+//                       search terms, and the cursor to pass on the next poll
+//                       (the first poll gets undefined)
+export const SOCIAL_SOURCES = { twitter, bluesky, mastodon, feed };
+
+// Configured adapters, limited to the comma-separated SOCIAL_SOURCES list when set
+export function getEnabledSources() {
+  const selected = process.env.SOCIAL_SOURCES
+    ? process.env.SOCIAL_SOURCES.split(',').map(name => name.trim()).filter(Boolean)
+    : Object.keys(SOCIAL_SOURCES);
+
+  return selected
+    .map(name => SOCIAL_SOURCES[name])
+    .filter(source => source && source.isConfigured());
+}
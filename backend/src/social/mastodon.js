@@ -0,0 +1,57 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { toSocialPost } from './posts.js';
+
+// Public hashtag timelines of one Mastodon instance (MASTODON_INSTANCE_URL).
+// Terms are turned into hashtags; MASTODON_ACCESS_TOKEN is optional.
+export default {
+  platform: 'mastodon',
+
+  isConfigured() {
+    return Boolean(process.env.MASTODON_INSTANCE_URL);
+  },
+
+  // `since` maps each hashtag to the newest status id seen for it
+  async fetchPosts(terms, since = {}) {
+    const instance = process.env.MASTODON_INSTANCE_URL.replace(/\/+$/, '');
+    const tags = [...new Set(terms.map(term => term.replace(/[^\w]/g, '').toLowerCase()).filter(Boolean))];
+    const cursors = { ...since };
+    const posts = [];
+
+    for (const tag of tags) {
+      const response = await axios.get(`${instance}/api/v1/timelines/tag/${encodeURIComponent(tag)}`, {
+        params: { limit: 40, ...(cursors[tag] && { since_id: cursors[tag] }) },
+        headers: process.env.MASTODON_ACCESS_TOKEN
+          ? { Authorization: `Bearer ${process.env.MASTODON_ACCESS_TOKEN}` }
+          : {},
+        timeout: 10000
+      });
+
+      for (const status of response.data) {
+        if (status.reblog) continue;
+
+        posts.push(toSocialPost({
+          platform: 'mastodon',
+          external_id: status.uri,
+          author: status.account?.acct,
+          content: htmlToText(status.content),
+          url: status.url,
+          keywords: (status.tags || []).map(t => t.name.toLowerCase()),
+          posted_at: status.created_at
+        }));
+      }
+
+      if (response.data.length > 0) {
+        cursors[tag] = response.data[0].id;
+      }
+    }
+
+    return { posts, since: cursors };
+  }
+};
+
+// Status content is HTML; keep line breaks as spaces
+function htmlToText(html) {
+  const $ = cheerio.load(String(html || '').replace(/<br\s*\/?>|<\/p>/gi, ' '));
+  return $.text();
+}
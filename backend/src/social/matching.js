@@ -0,0 +1,94 @@
+import { haversineDistance } from '../utils/geo.js';
+
+// Decide which disasters a post is relevant to, using each disaster's context
+// from getDisasterContext (its own and its parents' tags, locations and point)
+
+const DEFAULT_MATCH_RADIUS_METERS = 25000;
+
+export function getMatchRadiusMeters() {
+  const meters = parseFloat(process.env.SOCIAL_MATCH_RADIUS_METERS);
+  return Number.isFinite(meters) && meters > 0 ? meters : DEFAULT_MATCH_RADIUS_METERS;
+}
+
+// Meters between the place a post is about and the disaster, null unless both
+// have coordinates
+export function postDistance(post, context) {
+  if (post.lat === null || post.lat === undefined || !context.coordinates) return null;
+  return haversineDistance({ lat: post.lat, lng: post.lng }, context.coordinates);
+}
+
+// Geolocated posts are relevant within the match radius of the disaster. The
+// rest fall back to naming the disaster's place or mentioning one of its tags.
+export function isRelevant(post, context) {
+  const distance = postDistance(post, context);
+  if (distance !== null) {
+    return distance <= getMatchRadiusMeters();
+  }
+
+  const content = post.content.toLowerCase();
+  const keywords = post.keywords || [];
+
+  const locationMatch = context.location_names.some(name =>
+    content.includes(name.toLowerCase().split(',')[0])
+  );
+  const tagMatch = context.tags.some(tag =>
+    content.includes(tag.toLowerCase()) ||
+    keywords.some(keyword => keyword.includes(tag.toLowerCase()))
+  );
+
+  return locationMatch || tagMatch;
+}
+
+export function calculateRelevanceScore(post, disaster, context) {
+  let score = 0;
+  const content = post.content.toLowerCase();
+
+  // Priority scoring
+  const priorityScores = { urgent: 10, high: 7, medium: 5, low: 2 };
+  score += priorityScores[post.priority] || 0;
+
+  // Requests for help outrank offers and general news, more so the more
+  // kinds of need they name
+  if (post.intent === 'request') {
+    score += 3 + (post.need_categories || []).length;
+  }
+
+  // Keyword matching, inherited tags count for less than the incident's own
+  context.tags.forEach(tag => {
+    if (content.includes(tag.toLowerCase())) {
+      score += (disaster.tags || []).includes(tag) ? 5 : 3;
+    }
+  });
+
+  // Proximity, up to 10 at the disaster point down to 0 at the match radius.
+  // Without coordinates, name matching with the parents' locations weighted less.
+  const distance = postDistance(post, context);
+  if (distance !== null) {
+    score += 10 * Math.max(0, 1 - distance / getMatchRadiusMeters());
+  } else {
+    context.location_names.forEach(locationName => {
+      const weight = locationName === disaster.location_name ? 3 : 1;
+      const locationKeywords = locationName.toLowerCase().split(/[,\s]+/).filter(Boolean);
+      locationKeywords.forEach(keyword => {
+        if (content.includes(keyword)) {
+          score += weight;
+        }
+      });
+    });
+  }
+
+  // Recency bonus (newer posts get higher scores)
+  const hoursOld = (Date.now() - new Date(post.posted_at).getTime()) / (1000 * 60 * 60);
+  score += Math.max(0, 5 - hoursOld);
+
+  return score;
+}
+
+// Search terms for the sources: the disasters' tags, then the first part of
+// their location names ("Lower East Side, NYC" -> "Lower East Side")
+export function searchTerms(contexts, max = 10) {
+  const tags = contexts.flatMap(({ context }) => context.tags);
+  const places = contexts.flatMap(({ context }) => context.location_names.map(name => name.split(',')[0].trim()));
+
+  return [...new Set([...tags, ...places].filter(Boolean))].slice(0, max);
+}
@@ -0,0 +1,240 @@
+import { supabase, logger } from '../middleware/index.js';
+import { getDisasterContext } from '../utils/hierarchy.js';
+import { classifyText, toClassificationColumns } from '../utils/classifier.js';
+import { isPriorityAlert, emitPriorityAlert } from '../utils/alerts.js';
+import { geolocateText } from '../utils/geocoding.js';
+import { toPoint } from '../utils/geo.js';
+import { emitToDisasterRoom } from '../socket/handlers.js';
+import { getEnabledSources } from './index.js';
+import { isRelevant, calculateRelevanceScore, postDistance, searchTerms } from './matching.js';
+
+const DEFAULT_POLL_INTERVAL_MS = 2 * 60 * 1000; // Every two minutes
+const BACKFILL_LIMIT = 500;
+
+// Per-source cursors from the last successful poll
+const cursors = new Map();
+// Disasters already matched against the stored posts
+const backfilled = new Set();
+let polling = false;
+
+export function getPollIntervalMs() {
+  const ms = parseInt(process.env.SOCIAL_POLL_INTERVAL_MS);
+  return Number.isFinite(ms) && ms >= 10000 ? ms : DEFAULT_POLL_INTERVAL_MS;
+}
+
+// Collect new posts from every enabled source, store, classify and geolocate them, and
+// match them to the open disasters. Disasters the poller has not seen yet (new, or all of
+// them after a restart) are also matched against the latest stored posts, so
+// seeded and earlier posts show up too. Returns the new matches.
+export async function pollSocialSources(io) {
+  if (polling) return [];
+  polling = true;
+
+  try {
+    const disasters = await getOpenDisasters();
+    if (disasters.length === 0) return [];
+
+    const contexts = await Promise.all(disasters.map(async disaster => ({
+      disaster,
+      context: await getDisasterContext(disaster)
+    })));
+    const terms = searchTerms(contexts);
+
+    const collected = [];
+    const sources = terms.length > 0 ? getEnabledSources() : [];
+    for (const source of sources) {
+      try {
+        const { posts, since } = await source.fetchPosts(terms, cursors.get(source.platform));
+        cursors.set(source.platform, since);
+        collected.push(...posts.map(post => ({ ...post, ingested_by: source.platform })));
+      } catch (error) {
+        logger.warn(`Social source ${source.platform} failed: ${error.message}`);
+      }
+    }
+
+    const stored = await geolocatePosts(await classifyPosts(await storePosts(collected)));
+    const matches = await storeMatches(stored, contexts);
+
+    const unseen = contexts.filter(({ disaster }) => !backfilled.has(disaster.id));
+    const recent = unseen.length > 0 ? await geolocatePosts(await classifyPosts(await getRecentPosts())) : [];
+    matches.push(...await storeMatches(recent, unseen));
+    unseen.forEach(({ disaster }) => backfilled.add(disaster.id));
+
+    emitMatches(io, matches, [...stored, ...recent]);
+    emitAlerts(io, matches, stored, contexts);
+
+    if (stored.length > 0 || matches.length > 0) {
+      logger.info(`Social poll stored ${stored.length} new posts and ${matches.length} disaster matches`);
+    }
+
+    return matches;
+  } catch (error) {
+    logger.warn(`Social poll failed: ${error.message}`);
+    return [];
+  } finally {
+    polling = false;
+  }
+}
+
+export function startSocialPoller(io) {
+  const sources = getEnabledSources().map(source => source.platform);
+  const interval = getPollIntervalMs();
+
+  pollSocialSources(io);
+  setInterval(() => pollSocialSources(io), interval);
+  logger.info(`Social poller scheduled every ${interval / 1000}s (sources: ${sources.join(', ') || 'none'})`);
+}
+
+async function getOpenDisasters() {
+  const { data, error } = await supabase
+    .from('disasters')
+    .select('id, title, tags, location_name, lat, lng, parent_id')
+    .is('archived_at', null)
+    .neq('status', 'resolved');
+
+  if (error) throw error;
+  return data;
+}
+
+// Insert posts not seen before; already stored ones (same platform and id,
+// also repeated within the batch) are skipped. Returns only the new rows.
+async function storePosts(posts) {
+  // Posts without an id can't be deduplicated, so they are not stored
+  const unique = [...new Map(posts
+    .filter(post => post.external_id)
+    .map(post => [`${post.platform}:${post.external_id}`, post])).values()];
+  if (unique.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('social_posts')
+    .upsert(unique, { onConflict: 'platform,external_id', ignoreDuplicates: true })
+    .select();
+
+  if (error) throw error;
+  return data;
+}
+
+// Classify posts that have not been yet (classification also sets `priority`)
+async function classifyPosts(posts) {
+  return Promise.all(posts.map(async post => {
+    if (post.classified_at) return post;
+
+    const { data, error } = await supabase
+      .from('social_posts')
+      .update(toClassificationColumns(await classifyText(post.content)))
+      .eq('id', post.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }));
+}
+
+// Extract and geocode the place each post is about. One post at a time, the
+// geocoding services are rate limited. Posts naming no place that can be found
+// are still marked with `geocoded_at` so they are not tried again.
+async function geolocatePosts(posts) {
+  const located = [];
+
+  for (const post of posts) {
+    if (post.geocoded_at) {
+      located.push(post);
+      continue;
+    }
+
+    let place = null;
+    try {
+      place = await geolocateText(post.content);
+    } catch (error) {
+      logger.warn(`Geolocating social post ${post.id} failed: ${error.message}`);
+      located.push(post);
+      continue;
+    }
+
+    const { data, error } = await supabase
+      .from('social_posts')
+      .update({
+        location_name: place?.location_name || null,
+        location: place ? toPoint(place) : null,
+        geocoded_at: new Date().toISOString()
+      })
+      .eq('id', post.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    located.push(data);
+  }
+
+  return located;
+}
+
+async function getRecentPosts() {
+  const { data, error } = await supabase
+    .from('social_posts')
+    .select('*')
+    .order('posted_at', { ascending: false })
+    .limit(BACKFILL_LIMIT);
+
+  if (error) throw error;
+  return data;
+}
+
+// Returns only matches that did not exist yet
+async function storeMatches(posts, contexts) {
+  const rows = posts.flatMap(post => contexts
+    .filter(({ context }) => isRelevant(post, context))
+    .map(({ disaster, context }) => ({
+      post_id: post.id,
+      disaster_id: disaster.id,
+      relevance_score: calculateRelevanceScore(post, disaster, context),
+      distance_meters: postDistance(post, context),
+      posted_at: post.posted_at
+    }))
+  );
+
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('social_post_matches')
+    .upsert(rows, { onConflict: 'post_id,disaster_id', ignoreDuplicates: true })
+    .select();
+
+  if (error) throw error;
+  return data;
+}
+
+// Each disaster's room gets its top new posts
+function emitMatches(io, matches, posts) {
+  const postsById = new Map(posts.map(post => [post.id, post]));
+  const byDisaster = new Map();
+
+  for (const match of matches) {
+    const list = byDisaster.get(match.disaster_id) || [];
+    list.push({ ...postsById.get(match.post_id), relevance_score: match.relevance_score, disaster_id: match.disaster_id });
+    byDisaster.set(match.disaster_id, list);
+  }
+
+  for (const [disasterId, list] of byDisaster) {
+    emitToDisasterRoom(io, disasterId, 'social_media_updated', {
+      disaster_id: disasterId,
+      posts: list.sort((a, b) => b.relevance_score - a.relevance_score).slice(0, 5)
+    });
+  }
+}
+
+// Urgent requests among the newly collected posts go to everyone, once per post
+function emitAlerts(io, matches, posts, contexts) {
+  const titles = new Map(contexts.map(({ disaster }) => [disaster.id, disaster.title]));
+
+  for (const post of posts.filter(isPriorityAlert)) {
+    const disasters = matches
+      .filter(match => match.post_id === post.id)
+      .map(match => ({ id: match.disaster_id, title: titles.get(match.disaster_id) }));
+
+    if (disasters.length > 0) {
+      emitPriorityAlert(io, 'social_post', post, disasters);
+    }
+  }
+}
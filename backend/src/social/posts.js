@@ -0,0 +1,33 @@
+// Shared helpers for source adapters. Every adapter returns posts in the shape
+// of a `social_posts` row:
+//
+//   { platform, external_id, author, content, url, keywords, posted_at }
+
+const HASHTAG_PATTERN = /#(\w+)/g;
+
+export function extractHashtags(text) {
+  return [...new Set([...text.matchAll(HASHTAG_PATTERN)].map(match => match[1].toLowerCase()))];
+}
+
+// `external_id` is null when the source gave none, so callers can drop the
+// post; an unparseable `posted_at` falls back to now rather than failing the poll
+export function toSocialPost({ platform, external_id, author, content, url, keywords, posted_at }) {
+  const text = String(content || '').replace(/\s+/g, ' ').trim();
+  const postedAt = posted_at ? new Date(posted_at) : null;
+
+  return {
+    platform,
+    external_id: external_id === undefined || external_id === null || external_id === '' ? null : String(external_id),
+    author: author || null,
+    content: text,
+    url: url || null,
+    keywords: keywords && keywords.length > 0 ? keywords : extractHashtags(text),
+    posted_at: postedAt && !Number.isNaN(postedAt.getTime()) ? postedAt.toISOString() : new Date().toISOString()
+  };
+}
+
+// Does the text mention any of the search terms (case-insensitive)?
+export function mentionsAny(text, terms) {
+  const lower = text.toLowerCase();
+  return terms.some(term => lower.includes(term.toLowerCase()));
+}
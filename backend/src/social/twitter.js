@@ -0,0 +1,48 @@
+import axios from 'axios';
+import { toSocialPost } from './posts.js';
+
+const SEARCH_URL = 'https://api.twitter.com/2/tweets/search/recent';
+
+// Twitter/X recent search (API v2). Needs TWITTER_BEARER_TOKEN.
+export default {
+  platform: 'twitter',
+
+  isConfigured() {
+    return Boolean(process.env.TWITTER_BEARER_TOKEN);
+  },
+
+  // `since` is the newest tweet id from the previous poll
+  async fetchPosts(terms, since) {
+    const query = `(${terms.map(term => (term.includes(' ') ? `"${term}"` : term)).join(' OR ')}) -is:retweet`;
+
+    const response = await axios.get(SEARCH_URL, {
+      params: {
+        query,
+        max_results: 50,
+        'tweet.fields': 'created_at,entities,author_id',
+        expansions: 'author_id',
+        'user.fields': 'username',
+        ...(since && { since_id: since })
+      },
+      headers: { Authorization: `Bearer ${process.env.TWITTER_BEARER_TOKEN}` },
+      timeout: 10000
+    });
+
+    const users = new Map((response.data.includes?.users || []).map(user => [user.id, user.username]));
+
+    const posts = (response.data.data || []).map(tweet => {
+      const author = users.get(tweet.author_id);
+      return toSocialPost({
+        platform: 'twitter',
+        external_id: tweet.id,
+        author,
+        content: tweet.text,
+        url: author ? `https://twitter.com/${author}/status/${tweet.id}` : null,
+        keywords: (tweet.entities?.hashtags || []).map(tag => tag.tag.toLowerCase()),
+        posted_at: tweet.created_at
+      });
+    });
+
+    return { posts, since: response.data.meta?.newest_id || since };
+  }
+};
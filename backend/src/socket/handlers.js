@@ -1,4 +1,7 @@
-import { logger } from '../middleware/index.js';
+import { logger, resolveUser } from '../middleware/index.js';
+import { MODERATOR_ROLES } from '../utils/permissions.js';
+
+const MODERATORS_ROOM = 'moderators';
 
 export function initializeSocketHandlers(io) {
   io.on('connection', (socket) => {
@@ -16,6 +19,24 @@ export function initializeSocketHandlers(io) {
       logger.info(`Client ${socket.id} left disaster room: ${disasterId}`);
     });
     
+    // Moderators follow the review queue across all disasters. The stream
+    // carries full reports and reject reasons, so the handshake token must
+    // belong to a moderator.
+    socket.on('join_moderators', () => {
+      const user = resolveUser(socket.handshake.auth?.token || socket.handshake.headers.authorization);
+      if (!MODERATOR_ROLES.includes(user.role)) {
+        logger.warn(`Client ${socket.id} (${user.id}) refused the moderators room`);
+        socket.emit('moderators_denied', { error: 'Insufficient permissions' });
+        return;
+      }
+      socket.join(MODERATORS_ROOM);
+      logger.info(`Client ${socket.id} (${user.id}) joined the moderators room`);
+    });
+    
+    socket.on('leave_moderators', () => {
+      socket.leave(MODERATORS_ROOM);
+    });
+    
     // Handle disconnection
     socket.on('disconnect', (reason) => {
       logger.info(`Client disconnected: ${socket.id}, reason: ${reason}`);
@@ -42,4 +63,9 @@ export function initializeSocketHandlers(io) {
 // Helper function to emit to specific disaster room
 export function emitToDisasterRoom(io, disasterId, event, data) {
   io.to(`disaster_${disasterId}`).emit(event, data);
+}
+
+// Changes to the report moderation queue, for the moderators room
+export function emitToModerators(io, event, data) {
+  io.to(MODERATORS_ROOM).emit(event, data);
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { supabase } from '../middleware/index.js';
+import { URGENCY_LEVELS } from './classifier.js';
+
+// Urgencies that show up as priority alerts unless asked otherwise
+export const ALERT_PRIORITIES = ['urgent', 'high'];
+
+// Fetch a few times the page size so offers and closed disasters can be dropped
+const OVERFETCH = 3;
+
+// Classified posts and field reports on open disasters, most urgent first and
+// newest first within an urgency. Offers of help are left out; they are not
+// something to act on.
+export async function getPriorityAlerts({ limit = 10, priorities = ALERT_PRIORITIES, disasterId } = {}) {
+  let postsQuery = supabase
+    .from('social_post_matches')
+    .select('post:social_posts!inner(*), disaster:disasters!inner(id, title, status, archived_at)')
+    .in('post.priority', priorities)
+    .order('posted_at', { ascending: false })
+    .limit(limit * OVERFETCH);
+
+  let reportsQuery = supabase
+    .from('reports')
+    .select('*, disaster:disasters!inner(id, title, status, archived_at)')
+    .in('priority', priorities)
+    .neq('verification_status', 'fake')
+    .order('created_at', { ascending: false })
+    .limit(limit * OVERFETCH);
+
+  if (disasterId) {
+    postsQuery = postsQuery.eq('disaster_id', disasterId);
+    reportsQuery = reportsQuery.eq('disaster_id', disasterId);
+  }
+
+  const [posts, reports] = await Promise.all([postsQuery, reportsQuery]);
+  if (posts.error) throw posts.error;
+  if (reports.error) throw reports.error;
+
+  // A post matched to several disasters becomes one alert listing all of them
+  const postAlerts = new Map();
+  for (const { post, disaster } of posts.data.filter(row => isOpen(row.disaster))) {
+    const alert = postAlerts.get(post.id) || toAlert('social_post', post, post.posted_at, post.author);
+    alert.disasters.push({ id: disaster.id, title: disaster.title });
+    postAlerts.set(post.id, alert);
+  }
+
+  const reportAlerts = reports.data
+    .filter(report => isOpen(report.disaster))
+    .map(report => ({
+      ...toAlert('report', report, report.created_at, report.user_id),
+      disasters: [{ id: report.disaster.id, title: report.disaster.title }]
+    }));
+
+  return [...postAlerts.values(), ...reportAlerts]
+    .filter(alert => alert.intent !== 'offer')
+    .sort((a, b) =>
+      URGENCY_LEVELS.indexOf(a.priority) - URGENCY_LEVELS.indexOf(b.priority) ||
+      b.created_at.localeCompare(a.created_at)
+    )
+    .slice(0, limit);
+}
+
+export function isPriorityAlert(item) {
+  return ALERT_PRIORITIES.includes(item.priority) && item.intent !== 'offer';
+}
+
+// Broadcast `priority_alert` for a newly classified post or report
+export function emitPriorityAlert(io, sourceType, item, disasters) {
+  const createdAt = sourceType === 'report' ? item.created_at : item.posted_at;
+  const author = sourceType === 'report' ? item.user_id : item.author;
+
+  io.emit('priority_alert', { ...toAlert(sourceType, item, createdAt, author), disasters });
+}
+
+function toAlert(sourceType, item, createdAt, author) {
+  return {
+    source_type: sourceType,
+    id: item.id,
+    content: item.content,
+    priority: item.priority,
+    need_categories: item.need_categories || [],
+    intent: item.intent,
+    author: author || null,
+    url: item.url || null,
+    created_at: new Date(createdAt).toISOString(),
+    disasters: []
+  };
+}
+
+function isOpen(disaster) {
+  return !disaster.archived_at && disaster.status !== 'resolved';
+}
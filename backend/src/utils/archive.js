@@ -0,0 +1,41 @@
+import { supabase, logger } from '../middleware/index.js';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // Every hour
+
+export function getRetentionDays() {
+  const days = parseInt(process.env.ARCHIVE_RETENTION_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+// Hard-delete disasters that have been archived for longer than the retention window
+export async function purgeArchivedDisasters() {
+  try {
+    const cutoff = new Date(Date.now() - getRetentionDays() * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('disasters')
+      .delete()
+      .lt('archived_at', cutoff)
+      .select('id');
+
+    if (error) {
+      logger.warn(`Failed to purge archived disasters: ${error.message}`);
+      return [];
+    }
+
+    if (data.length > 0) {
+      logger.info(`Purged ${data.length} disasters archived before ${cutoff}`);
+    }
+
+    return data;
+  } catch (error) {
+    logger.warn(`Failed to purge archived disasters: ${error.message}`);
+    return [];
+  }
+}
+
+export function startArchivePurgeJob() {
+  setInterval(purgeArchivedDisasters, PURGE_INTERVAL_MS);
+  logger.info(`Archive purge job scheduled (retention: ${getRetentionDays()} days)`);
+}
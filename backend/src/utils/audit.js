@@ -0,0 +1,46 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, logger } from '../middleware/index.js';
+
+// Field-level before/after diff. Only fields present in `after` are compared,
+// so a partial update never records untouched fields.
+export function diffFields(before, after, fields) {
+  const changes = {};
+
+  for (const field of fields) {
+    if (!(field in after)) continue;
+
+    const from = before?.[field] ?? null;
+    const to = after[field] ?? null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+// Build an audit trail entry. `extra` carries entity references, notes, etc.
+export function createAuditEntry(action, user, changes = {}, extra = {}) {
+  return {
+    id: uuidv4(),
+    action,
+    user_id: user.id,
+    timestamp: new Date().toISOString(),
+    changes,
+    ...extra
+  };
+}
+
+// Append an entry to a disaster's audit trail in a single statement, for changes
+// made to its reports and resources
+export async function appendAuditEntry(disasterId, entry) {
+  const { error } = await supabase.rpc('append_disaster_audit', {
+    p_disaster_id: disasterId,
+    p_entry: entry
+  });
+
+  if (error) {
+    logger.warn(`Failed to record audit entry for disaster ${disasterId}: ${error.message}`);
+  }
+}
@@ -48,6 +48,22 @@ export async function setCache(key, value, ttlSeconds = 3600) {
   }
 }
 
+// Drop cached entries whose key matches a LIKE pattern, e.g. after the data changed
+export async function invalidateCache(pattern) {
+  try {
+    const { error } = await supabase
+      .from('cache')
+      .delete()
+      .like('key', pattern);
+    
+    if (error) {
+      logger.warn(`Cache invalidation failed for ${pattern}: ${error.message}`);
+    }
+  } catch (error) {
+    logger.warn(`Cache invalidation failed for ${pattern}: ${error.message}`);
+  }
+}
+
 // Clear expired cache entries
 export async function clearExpiredCache() {
   try {
@@ -0,0 +1,245 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, logger } from '../middleware/index.js';
+
+// Common Alerting Protocol 1.2 messages for disasters. Each change to a
+// disaster is issued as a new message: the first is an `Alert`, later ones are
+// `Update`s and archiving issues a `Cancel`, each referencing the message
+// before it. Messages are stored as issued so identifiers and references stay
+// stable.
+
+export const CAP_NAMESPACE = 'urn:oasis:names:tc:emergency:cap:1.2';
+export const CAP_CONTENT_TYPE = 'application/cap+xml';
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+// Disasters are points; the alert area is a circle of this radius around them
+const AREA_RADIUS_KM = 5;
+
+// Postgres unique_violation: another message was issued after the same one
+const UNIQUE_VIOLATION = '23505';
+const MAX_ISSUE_ATTEMPTS = 5;
+
+const SEVERITIES = {
+  critical: 'Extreme',
+  high: 'Severe',
+  medium: 'Moderate',
+  low: 'Minor'
+};
+
+const CERTAINTIES = {
+  reported: 'Possible',
+  verified: 'Likely',
+  active: 'Observed',
+  contained: 'Observed',
+  resolved: 'Observed'
+};
+
+// CAP categories and the tags that put a disaster in them
+const CATEGORY_TAGS = {
+  Met: ['flood', 'hurricane', 'storm', 'tornado', 'cyclone', 'typhoon', 'heat', 'heatwave', 'snow', 'blizzard', 'rain', 'weather'],
+  Geo: ['earthquake', 'landslide', 'tsunami', 'volcano', 'mudslide', 'avalanche'],
+  Fire: ['fire', 'wildfire'],
+  Infra: ['power', 'infrastructure', 'outage', 'water main', 'gas leak', 'bridge'],
+  Health: ['medical', 'disease', 'outbreak', 'epidemic', 'pandemic'],
+  CBRNE: ['chemical', 'hazmat', 'radiation', 'nuclear', 'explosion'],
+  Rescue: ['rescue', 'search and rescue', 'missing'],
+  Transport: ['transport', 'traffic', 'rail', 'airport'],
+  Env: ['pollution', 'oil spill', 'drought']
+};
+
+// Tags that mark a disaster as needing action now
+const URGENT_TAGS = ['urgent', 'emergency'];
+
+export function getCapSender() {
+  return process.env.CAP_SENDER || 'alerts@disaster-response.local';
+}
+
+export function toCapCategories(tags = []) {
+  const lower = tags.map(tag => tag.toLowerCase());
+  const categories = Object.keys(CATEGORY_TAGS).filter(category =>
+    CATEGORY_TAGS[category].some(term => lower.includes(term))
+  );
+  return categories.length > 0 ? categories : ['Other'];
+}
+
+// The disaster's severity, raised to at least Severe by an urgent tag
+export function toCapSeverity(disaster) {
+  const severity = SEVERITIES[disaster.severity] || 'Unknown';
+  const urgentTag = (disaster.tags || []).some(tag => URGENT_TAGS.includes(tag.toLowerCase()));
+  return urgentTag && ['Moderate', 'Minor', 'Unknown'].includes(severity) ? 'Severe' : severity;
+}
+
+export function toCapUrgency(disaster) {
+  if (disaster.status === 'resolved') return 'Past';
+  const urgentTag = (disaster.tags || []).some(tag => URGENT_TAGS.includes(tag.toLowerCase()));
+  return urgentTag || disaster.severity === 'critical' ? 'Immediate' : 'Expected';
+}
+
+// CAP times carry an explicit offset and no fractions: 2025-07-11T13:10:00+00:00
+export function formatCapTime(value) {
+  return new Date(value).toISOString().replace(/\.\d{3}Z$/, '+00:00');
+}
+
+// The most recent message issued for a disaster, or null
+export async function getLatestCapMessage(disasterId) {
+  const { data, error } = await supabase
+    .from('cap_messages')
+    .select('*')
+    .eq('disaster_id', disasterId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// The most recent message of each of the disasters, by disaster id, in one query
+export async function getLatestCapMessages(disasterIds) {
+  if (disasterIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('cap_messages')
+    .select('*')
+    .in('disaster_id', disasterIds)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const latest = new Map();
+  for (const message of data) {
+    if (!latest.has(message.disaster_id)) latest.set(message.disaster_id, message);
+  }
+  return latest;
+}
+
+// Issue the first Alert for open disasters created before CAP export, once
+// at startup, so reading alerts never has to write
+export function startCapBackfill() {
+  backfillCapAlerts()
+    .then(count => {
+      if (count > 0) logger.info(`Issued CAP alerts for ${count} disasters created before CAP export`);
+    })
+    .catch(error => logger.error(`CAP alert backfill failed: ${error.message}`));
+}
+
+async function backfillCapAlerts() {
+  const { data, error } = await supabase
+    .from('disasters')
+    .select('*, cap_messages(count)')
+    .is('archived_at', null);
+
+  if (error) throw error;
+
+  const missing = data.filter(disaster => !disaster.cap_messages?.[0]?.count);
+  for (const { cap_messages, ...disaster } of missing) {
+    await issueCapMessage(disaster, 'Alert');
+  }
+  return missing.length;
+}
+
+// Issue and store a message for the disaster's current state. An `Update` to
+// a disaster with no live alert (never issued, or cancelled and then
+// restored) becomes a new `Alert`; a `Cancel` with nothing to cancel issues
+// nothing and returns null; an `Alert` while one is live returns that one.
+// Each message records the one it follows, which is unique per disaster, so
+// when another message is issued concurrently the insert fails and is
+// retried on top of it.
+export async function issueCapMessage(disaster, msgType, note) {
+  for (let attempt = 1; ; attempt++) {
+    const previous = await getLatestCapMessage(disaster.id);
+    const live = previous && previous.msg_type !== 'Cancel' ? previous : null;
+
+    if (msgType === 'Cancel' && !live) return null;
+    if (msgType === 'Alert' && live) return live;
+    const type = msgType === 'Update' && !live ? 'Alert' : msgType;
+
+    const message = {
+      identifier: `urn:uuid:${uuidv4()}`,
+      sender: getCapSender(),
+      sent: formatCapTime(new Date()),
+      msg_type: type,
+      references: type === 'Alert' ? null : `${live.sender},${live.identifier},${formatCapTime(live.sent)}`,
+      note: note || null
+    };
+
+    const { references, ...columns } = message;
+    const { data, error } = await supabase
+      .from('cap_messages')
+      .insert({
+        ...columns,
+        cap_references: references,
+        previous_id: previous?.id ?? null,
+        disaster_id: disaster.id,
+        disaster_version: disaster.version ?? null,
+        xml: buildCapAlert(message, disaster)
+      })
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION && attempt < MAX_ISSUE_ATTEMPTS) continue;
+    if (error) throw error;
+    return data;
+  }
+}
+
+// The <alert> element for a message about a disaster (without the XML
+// declaration, so it can also be embedded in the Atom feed)
+export function buildCapAlert(message, disaster) {
+  const coordinates = disaster.lat !== null && disaster.lat !== undefined
+    ? { lat: disaster.lat, lng: disaster.lng }
+    : null;
+
+  const lines = [
+    `<alert xmlns="${CAP_NAMESPACE}">`,
+    element('identifier', message.identifier, 1),
+    element('sender', message.sender, 1),
+    element('sent', message.sent, 1),
+    element('status', 'Actual', 1),
+    element('msgType', message.msg_type, 1),
+    element('scope', 'Public', 1),
+    message.note && element('note', message.note, 1),
+    message.references && element('references', message.references, 1),
+    '  <info>',
+    element('language', 'en-US', 2),
+    ...toCapCategories(disaster.tags).map(category => element('category', category, 2)),
+    element('event', eventName(disaster), 2),
+    element('urgency', toCapUrgency(disaster), 2),
+    element('severity', toCapSeverity(disaster), 2),
+    element('certainty', CERTAINTIES[disaster.status] || 'Unknown', 2),
+    disaster.created_at && element('effective', formatCapTime(disaster.created_at), 2),
+    element('senderName', 'Disaster Response Coordination Platform', 2),
+    element('headline', disaster.title, 2),
+    disaster.description && element('description', disaster.description, 2),
+    '    <parameter>',
+    element('valueName', 'status', 3),
+    element('value', disaster.status, 3),
+    '    </parameter>',
+    '    <area>',
+    element('areaDesc', disaster.location_name || 'Location not specified', 3),
+    coordinates && element('circle', `${coordinates.lat},${coordinates.lng} ${AREA_RADIUS_KM}`, 3),
+    '    </area>',
+    '  </info>',
+    '</alert>'
+  ].filter(Boolean);
+
+  return `${lines.join('\n')}\n`;
+}
+
+export function escapeXml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function element(name, value, depth) {
+  return `${'  '.repeat(depth)}<${name}>${escapeXml(value)}</${name}>`;
+}
+
+// The first tag that is not just an urgency marker ("flood" -> "Flood"), else the title
+function eventName(disaster) {
+  const tag = (disaster.tags || []).find(t => !URGENT_TAGS.includes(t.toLowerCase()));
+  return tag ? tag.charAt(0).toUpperCase() + tag.slice(1) : disaster.title;
+}
@@ -0,0 +1,116 @@
+import axios from 'axios';
+import { logger } from '../middleware/index.js';
+import { NEED_CATEGORIES, categoriesInText } from './needCategories.js';
+
+export const URGENCY_LEVELS = ['urgent', 'high', 'medium', 'low'];
+export const INTENTS = ['request', 'offer', 'info'];
+
+// Asking for one of these is at least high urgency
+const LIFE_SAFETY_CATEGORIES = ['food', 'water', 'medical', 'rescue', 'shelter'];
+
+// Word prefixes, checked most urgent first. Low only applies when nothing
+// more urgent matched.
+const URGENCY_TERMS = {
+  urgent: ['urgent', 'sos', 'trapped', 'immediately', 'life threatening', 'dying', 'drowning', 'unconscious', 'not breathing', 'rising rapidly', 'rooftop'],
+  high: ['emergency', 'injur', 'stranded', 'missing', 'evacuat', 'running low', 'running out', 'no food', 'no water', 'insulin', 'elderly', 'bleeding'],
+  low: ['update', 'resolved', 'restored', 'reopen', 'all clear', 'safe now', 'thank']
+};
+
+const OFFER_TERMS = ['offering', 'can offer', 'we have', 'available at', 'donat', 'volunteer', 'opened', 'open until', 'set up', 'distribution', 'can provide', 'giving away', 'capacity for'];
+const REQUEST_TERMS = ['need', 'help', 'please', 'sos', 'looking for', 'request', 'running low', 'running out', 'short of', 'trapped', 'send', 'anyone have', 'require'];
+
+const GEMINI_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent';
+
+// Offline classifier: urgency, need categories and whether the text asks for
+// help, offers it or just reports something
+export function classifyWithRules(text) {
+  const lower = (text || '').toLowerCase();
+  const mentions = term => new RegExp(`\\b${term}`).test(lower);
+
+  const categories = categoriesInText(text);
+
+  const offers = OFFER_TERMS.filter(mentions).length;
+  const requests = REQUEST_TERMS.filter(mentions).length;
+  const intent = offers > 0 && offers >= requests ? 'offer'
+    : requests > 0 ? 'request'
+      : 'info';
+
+  let urgency = URGENCY_TERMS.urgent.some(mentions) ? 'urgent'
+    : URGENCY_TERMS.high.some(mentions) ? 'high'
+      : URGENCY_TERMS.low.some(mentions) ? 'low'
+        : 'medium';
+
+  // Asking for food, water, care, rescue or shelter is at least high; offers
+  // of help are never more than medium
+  const lifeSafety = categories.some(category => LIFE_SAFETY_CATEGORIES.includes(category));
+  if (intent === 'request' && lifeSafety && ['medium', 'low'].includes(urgency)) {
+    urgency = 'high';
+  } else if (intent === 'offer' && ['urgent', 'high'].includes(urgency)) {
+    urgency = 'medium';
+  }
+
+  return { urgency, need_categories: categories, intent, classified_by: 'rules' };
+}
+
+// Same result from Gemini; throws when the key is missing or the answer is unusable
+export async function classifyWithGemini(text) {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new Error('Gemini API key not configured');
+  }
+
+  const prompt = `Classify this message from a disaster area. Reply with JSON only, in the form
+{"urgency": "urgent|high|medium|low", "need_categories": [${NEED_CATEGORIES.map(c => `"${c}"`).join(', ')}], "intent": "request|offer|info"}
+need_categories lists only what the message asks for or offers (may be empty). intent is request when someone asks for help, offer when someone provides help, otherwise info.
+
+Message: "${text}"`;
+
+  const response = await axios.post(
+    `${GEMINI_URL}?key=${process.env.GEMINI_API_KEY}`,
+    { contents: [{ parts: [{ text: prompt }] }] },
+    { headers: { 'Content-Type': 'application/json' }, timeout: 10000 }
+  );
+
+  const generatedText = response.data.candidates?.[0]?.content?.parts?.[0]?.text;
+  const json = generatedText?.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    throw new Error('No classification in Gemini response');
+  }
+
+  const result = JSON.parse(json);
+  if (!URGENCY_LEVELS.includes(result.urgency) || !INTENTS.includes(result.intent)) {
+    throw new Error('Unexpected classification from Gemini');
+  }
+
+  return {
+    urgency: result.urgency,
+    need_categories: (result.need_categories || []).filter(category => NEED_CATEGORIES.includes(category)),
+    intent: result.intent,
+    classified_by: 'gemini'
+  };
+}
+
+// Classify with the backend chosen by CLASSIFIER_BACKEND (rules or gemini),
+// falling back to the rules when the LLM fails
+export async function classifyText(text) {
+  if (process.env.CLASSIFIER_BACKEND === 'gemini') {
+    try {
+      return await classifyWithGemini(text);
+    } catch (error) {
+      logger.warn(`Gemini classification failed, using rules: ${error.message}`);
+    }
+  }
+
+  return classifyWithRules(text);
+}
+
+// Columns stored on social_posts and reports. Posts keep their urgency in the
+// existing `priority` column.
+export function toClassificationColumns(classification) {
+  return {
+    priority: classification.urgency,
+    need_categories: classification.need_categories,
+    intent: classification.intent,
+    classified_by: classification.classified_by,
+    classified_at: new Date().toISOString()
+  };
+}
@@ -0,0 +1,16 @@
+// Strong ETag for a record version
+export function formatETag(version) {
+  return `"${version}"`;
+}
+
+// Parse an If-Match header into a version number.
+// Returns null when absent, '*' for a wildcard and NaN when malformed.
+export function parseIfMatch(header) {
+  if (!header) return null;
+
+  const value = header.trim();
+  if (value === '*') return '*';
+
+  const match = value.match(/^(?:W\/)?"?(\d+)"?$/);
+  return match ? parseInt(match[1], 10) : NaN;
+}
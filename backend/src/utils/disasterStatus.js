@@ -0,0 +1,21 @@
+// Disaster lifecycle states, in order
+export const DISASTER_STATUSES = ['reported', 'verified', 'active', 'contained', 'resolved'];
+
+export const SEVERITY_LEVELS = ['low', 'medium', 'high', 'critical'];
+
+// Allowed next states for each status. A contained disaster can flare up again.
+const STATUS_TRANSITIONS = {
+  reported: ['verified'],
+  verified: ['active'],
+  active: ['contained'],
+  contained: ['active', 'resolved'],
+  resolved: []
+};
+
+export function getAllowedTransitions(status) {
+  return STATUS_TRANSITIONS[status] || [];
+}
+
+export function canTransition(from, to) {
+  return getAllowedTransitions(from).includes(to);
+}
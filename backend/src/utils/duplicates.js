@@ -0,0 +1,124 @@
+import { supabase, logger } from '../middleware/index.js';
+import { haversineDistance } from './geo.js';
+
+// Only disasters reported within this window are considered duplicates
+const WINDOW_HOURS = 72;
+// Reports further apart than this are never the same event
+const MAX_DISTANCE_METERS = 50000;
+const SCORE_THRESHOLD = 0.45;
+const MAX_CANDIDATES = 200;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'at', 'by', 'for', 'from', 'in', 'is', 'near', 'of', 'on', 'or',
+  'the', 'to', 'with', 'are', 'was', 'has', 'have', 'there', 'this', 'that'
+]);
+
+function tokenize(text) {
+  return new Set(
+    String(text || '')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+  );
+}
+
+function jaccard(a, b) {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+
+  return shared / (a.size + b.size - shared);
+}
+
+// Score how likely `existing` describes the same event as `candidate`, 0..1.
+// Signals that are missing on either side (tags, coordinates) are left out of
+// the weighting rather than counted as a mismatch.
+export function scoreDuplicate(candidate, existing) {
+  const signals = [];
+  const reasons = [];
+
+  const titleSimilarity = jaccard(tokenize(candidate.title), tokenize(existing.title));
+  signals.push({ weight: 0.45, value: titleSimilarity });
+  if (titleSimilarity >= 0.5) reasons.push('similar title');
+
+  const descriptionSimilarity = jaccard(tokenize(candidate.description), tokenize(existing.description));
+  signals.push({ weight: 0.25, value: descriptionSimilarity });
+  if (descriptionSimilarity >= 0.4) reasons.push('similar description');
+
+  const candidateTags = new Set((candidate.tags || []).map(tag => tag.toLowerCase()));
+  const existingTags = new Set((existing.tags || []).map(tag => tag.toLowerCase()));
+  if (candidateTags.size > 0 && existingTags.size > 0) {
+    const tagOverlap = jaccard(candidateTags, existingTags);
+    signals.push({ weight: 0.15, value: tagOverlap });
+    if (tagOverlap > 0) reasons.push('shared tags');
+  }
+
+  let distanceMeters = null;
+  if (candidate.coordinates && existing.lat !== null && existing.lat !== undefined) {
+    distanceMeters = haversineDistance(candidate.coordinates, { lat: existing.lat, lng: existing.lng });
+    if (distanceMeters > MAX_DISTANCE_METERS) {
+      return { score: 0, reasons: [], distance_meters: Math.round(distanceMeters) };
+    }
+
+    signals.push({ weight: 0.25, value: 1 - distanceMeters / MAX_DISTANCE_METERS });
+    reasons.push(`${(distanceMeters / 1000).toFixed(1)} km away`);
+  }
+
+  const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0);
+  const score = signals.reduce((sum, signal) => sum + signal.weight * signal.value, 0) / totalWeight;
+
+  return {
+    score: Math.round(score * 100) / 100,
+    reasons,
+    distance_meters: distanceMeters === null ? null : Math.round(distanceMeters)
+  };
+}
+
+// Find open disasters from the last few days that look like the same event.
+// `candidate` has title, description, tags and optional coordinates.
+// Failures are logged and treated as "no duplicates" so they never block a report.
+export async function findDuplicateDisasters(candidate, { excludeId } = {}) {
+  try {
+    const since = new Date(Date.now() - WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+
+    let query = supabase
+      .from('disasters')
+      .select('id, title, description, location_name, tags, status, severity, lat, lng, created_at')
+      .is('archived_at', null)
+      .neq('status', 'resolved')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(MAX_CANDIDATES);
+
+    if (excludeId) {
+      query = query.neq('id', excludeId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return data
+      .map(existing => {
+        const { score, reasons, distance_meters } = scoreDuplicate(candidate, existing);
+        return {
+          id: existing.id,
+          title: existing.title,
+          location_name: existing.location_name,
+          status: existing.status,
+          created_at: existing.created_at,
+          score,
+          reasons,
+          distance_meters
+        };
+      })
+      .filter(match => match.score >= SCORE_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 5);
+  } catch (error) {
+    logger.warn(`Duplicate check failed: ${error.message}`);
+    return [];
+  }
+}
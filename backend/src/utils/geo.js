@@ -0,0 +1,71 @@
+// Parse and validate a lat/lng pair, returns null if either is missing or out of range
+export function parseCoordinates(lat, lng) {
+  if (lat === undefined || lat === null || lat === '' || lng === undefined || lng === null || lng === '') {
+    return null;
+  }
+
+  const latitude = parseFloat(lat);
+  const longitude = parseFloat(lng);
+
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) return null;
+
+  return { lat: latitude, lng: longitude };
+}
+
+// Parse a "minLng,minLat,maxLng,maxLat" bounding box string
+export function parseBBox(value) {
+  if (!value) return null;
+
+  const parts = String(value).split(',').map(part => parseFloat(part));
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) return null;
+
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (minLng >= maxLng || minLat >= maxLat) return null;
+  if (minLat < -90 || maxLat > 90 || minLng < -180 || maxLng > 180) return null;
+
+  return { minLng, minLat, maxLng, maxLat };
+}
+
+// WKT point for PostGIS geography columns (longitude first)
+export function toPoint({ lat, lng }) {
+  return `POINT(${lng} ${lat})`;
+}
+
+// Great-circle distance between two points in meters
+export function haversineDistance(a, b) {
+  const EARTH_RADIUS_METERS = 6371000;
+  const toRadians = degrees => degrees * Math.PI / 180;
+
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+// Lat/lng box that contains every point within `radiusMeters` of the origin,
+// for cheap prefiltering before computing exact distances
+export function boundingBox(origin, radiusMeters) {
+  const METERS_PER_DEGREE = 111320;
+  const latDelta = radiusMeters / METERS_PER_DEGREE;
+  const lngDelta = radiusMeters / (METERS_PER_DEGREE * Math.max(Math.cos(origin.lat * Math.PI / 180), 0.01));
+
+  return {
+    minLat: Math.max(origin.lat - latDelta, -90),
+    maxLat: Math.min(origin.lat + latDelta, 90),
+    minLng: Math.max(origin.lng - lngDelta, -180),
+    maxLng: Math.min(origin.lng + lngDelta, 180)
+  };
+}
+
+// Attach `distance_meters` to rows with lat/lng, keep those within the radius
+// and sort nearest first. Used when the PostGIS functions are unavailable.
+export function rankByDistance(rows, origin, radiusMeters) {
+  return rows
+    .filter(row => row.lat !== null && row.lat !== undefined && row.lng !== null && row.lng !== undefined)
+    .map(row => ({ ...row, distance_meters: haversineDistance(origin, { lat: row.lat, lng: row.lng }) }))
+    .filter(row => row.distance_meters <= radiusMeters)
+    .sort((a, b) => a.distance_meters - b.distance_meters);
+}
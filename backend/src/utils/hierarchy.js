@@ -0,0 +1,95 @@
+import { supabase } from '../middleware/index.js';
+
+// Check that `parentId` can become the parent of `disasterId` (null when creating).
+// Returns an error message, or null if the parent is fine.
+export async function validateParent(disasterId, parentId) {
+  if (disasterId && parentId === disasterId) {
+    return 'A disaster cannot be its own parent';
+  }
+
+  const { data: parent, error } = await supabase
+    .from('disasters')
+    .select('id, archived_at')
+    .eq('id', parentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!parent) return 'Parent disaster not found';
+  if (parent.archived_at) return 'Parent disaster is archived';
+
+  if (disasterId) {
+    const ancestors = await getAncestors(parentId);
+    if (ancestors.some(ancestor => ancestor.id === disasterId)) {
+      return 'A disaster cannot be moved under one of its own sub-incidents';
+    }
+  }
+
+  return null;
+}
+
+// Parents of a disaster, nearest first
+export async function getAncestors(disasterId) {
+  const { data, error } = await supabase.rpc('get_disaster_ancestors', {
+    p_disaster_id: disasterId
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Nested sub-incidents of a disaster. Every node carries its own report and
+// resource counts plus totals rolled up over its whole subtree.
+export async function getDisasterTree(disasterId) {
+  const { data, error } = await supabase.rpc('get_disaster_subtree', {
+    p_root_id: disasterId
+  });
+
+  if (error) throw error;
+
+  const nodes = new Map((data || []).map(row => [row.id, {
+    id: row.id,
+    parent_id: row.parent_id,
+    title: row.title,
+    location_name: row.location_name,
+    status: row.status,
+    severity: row.severity,
+    reports_count: Number(row.reports_count),
+    resources_count: Number(row.resources_count),
+    total_reports: Number(row.reports_count),
+    total_resources: Number(row.resources_count),
+    children: []
+  }]));
+
+  // Rows come back ordered by depth, so walking them in reverse adds every
+  // child's totals to its parent after the child's own subtree is complete
+  const rows = [...nodes.values()].reverse();
+  for (const node of rows) {
+    const parent = node.id !== disasterId && nodes.get(node.parent_id);
+    if (!parent) continue;
+
+    parent.children.unshift(node);
+    parent.total_reports += node.total_reports;
+    parent.total_resources += node.total_resources;
+  }
+
+  const root = nodes.get(disasterId);
+  return root
+    ? { children: root.children, rollup: { reports: root.total_reports, resources: root.total_resources } }
+    : { children: [], rollup: { reports: 0, resources: 0 } };
+}
+
+// Tags, location names and coordinates to match against, falling back to the
+// parent incidents for whatever a sub-incident does not specify itself
+export async function getDisasterContext(disaster) {
+  const ancestors = disaster.parent_id ? await getAncestors(disaster.id) : [];
+  const chain = [disaster, ...ancestors];
+
+  const coordinatesSource = chain.find(d => d.lat !== null && d.lat !== undefined);
+
+  return {
+    tags: [...new Set(chain.flatMap(d => d.tags || []))],
+    location_names: chain.map(d => d.location_name).filter(Boolean),
+    coordinates: coordinatesSource ? { lat: coordinatesSource.lat, lng: coordinatesSource.lng } : null,
+    ancestor_ids: ancestors.map(ancestor => ancestor.id)
+  };
+}
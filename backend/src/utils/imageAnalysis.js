@@ -0,0 +1,321 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+import exifr from 'exifr';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { supabase } from '../middleware/index.js';
+import { haversineDistance } from './geo.js';
+
+// Deterministic signals for report images: the file itself, its EXIF capture
+// time, GPS position and device, how those compare with the disaster, and a
+// perceptual hash to find the same picture in other reports.
+
+const DEFAULT_MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_DISTANCE_METERS = 50000;
+// Photos taken this long before a disaster was reported can't show it
+const CAPTURE_GRACE_MS = 24 * 60 * 60 * 1000;
+// Clocks on phones drift; later than this after now is not a real capture time
+const CLOCK_SKEW_MS = 60 * 60 * 1000;
+// dHashes this many bits apart or fewer are treated as the same image
+const HASH_MATCH_DISTANCE = 6;
+const HASH_CANDIDATE_LIMIT = 5000;
+const MAX_REDIRECTS = 3;
+// Largest image decoded for hashing, in millions of pixels
+const MAX_DECODE_MEGAPIXELS = 50;
+const BLOCKED_ADDRESS_CODE = 'EBLOCKEDADDRESS';
+
+// Loopback, private, link-local, shared and reserved ranges an image URL may
+// not reach, whether named literally or resolved through DNS. IPv4-mapped
+// IPv6 addresses are matched against the IPv4 ranges.
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+// Every connection is checked after DNS resolution, so a public name that
+// resolves (or rebinds) to an internal address is refused too
+const httpAgent = new http.Agent({ lookup: publicLookup });
+const httpsAgent = new https.Agent({ lookup: publicLookup });
+
+const IMAGE_TYPES = {
+  'image/jpeg': bytes => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+  'image/png': bytes => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+};
+
+// Editing software in the EXIF Software tag is worth a human look
+const EDITING_SOFTWARE = ['photoshop', 'gimp', 'lightroom', 'snapseed', 'picsart', 'affinity', 'pixelmator', 'facetune'];
+
+export function getMaxImageBytes() {
+  const bytes = parseInt(process.env.IMAGE_MAX_BYTES);
+  return Number.isFinite(bytes) && bytes > 0 ? bytes : DEFAULT_MAX_IMAGE_BYTES;
+}
+
+export function getMaxDistanceMeters() {
+  const meters = parseFloat(process.env.IMAGE_MAX_DISTANCE_METERS);
+  return Number.isFinite(meters) && meters > 0 ? meters : DEFAULT_MAX_DISTANCE_METERS;
+}
+
+// Download a JPEG or PNG over http(s), refusing private hosts (before and
+// after DNS, on every redirect), other types (by header and by content) and
+// anything over the size limit. Errors carry a `status` for the response.
+export async function fetchImage(imageUrl) {
+  let url = parseImageUrl(imageUrl);
+  const maxBytes = getMaxImageBytes();
+  let response;
+
+  // Redirects are followed by hand so each hop goes through the same checks
+  for (let hops = 0; ; hops++) {
+    try {
+      response = await axios.get(url.href, {
+        responseType: 'arraybuffer',
+        timeout: 10000,
+        maxContentLength: maxBytes,
+        maxRedirects: 0,
+        httpAgent,
+        httpsAgent,
+        proxy: false,
+        validateStatus: status => status >= 200 && status < 400,
+        headers: { 'User-Agent': 'DisasterResponse/1.0', Accept: Object.keys(IMAGE_TYPES).join(', ') }
+      });
+    } catch (error) {
+      if (error.code === BLOCKED_ADDRESS_CODE) {
+        throw withStatus(new Error(error.message), 400);
+      }
+      const tooLarge = /maxContentLength/.test(error.message);
+      throw withStatus(new Error(tooLarge
+        ? `Image is larger than ${maxBytes} bytes`
+        : `Could not download image: ${error.message}`), 422);
+    }
+
+    if (response.status < 300) break;
+
+    const location = response.headers.location;
+    if (!location) {
+      throw withStatus(new Error(`Image URL redirected (${response.status}) without a location`), 422);
+    }
+    if (hops >= MAX_REDIRECTS) {
+      throw withStatus(new Error(`Image URL redirected more than ${MAX_REDIRECTS} times`), 422);
+    }
+    url = parseImageUrl(new URL(location, url).href);
+  }
+
+  const buffer = Buffer.from(response.data);
+  const contentType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+
+  if (!IMAGE_TYPES[contentType]) {
+    throw withStatus(new Error(`Unsupported image type: ${contentType || 'unknown'} (JPEG and PNG only)`), 422);
+  }
+  if (!IMAGE_TYPES[contentType](buffer)) {
+    throw withStatus(new Error(`Image content is not ${contentType}`), 422);
+  }
+
+  return { buffer, contentType, bytes: buffer.length };
+}
+
+// Capture time, GPS position and device from EXIF; null fields when absent
+export async function readExif(buffer) {
+  let tags;
+  try {
+    tags = await exifr.parse(buffer, { tiff: true, exif: true, gps: true, xmp: false, icc: false, iptc: false });
+  } catch {
+    tags = null;
+  }
+
+  const capturedAt = tags?.DateTimeOriginal || tags?.CreateDate || null;
+  const hasGps = Number.isFinite(tags?.latitude) && Number.isFinite(tags?.longitude);
+
+  return {
+    present: Boolean(tags),
+    captured_at: capturedAt instanceof Date && !Number.isNaN(capturedAt.getTime()) ? capturedAt.toISOString() : null,
+    gps: hasGps ? { lat: tags.latitude, lng: tags.longitude } : null,
+    device: tags?.Make || tags?.Model
+      ? [tags.Make, tags.Model].filter(Boolean).join(' ').trim()
+      : null,
+    software: tags?.Software || null
+  };
+}
+
+// 64-bit difference hash as 16 hex digits: the image shrunk to 9x8 grey
+// pixels, one bit per horizontal neighbour pair. Survives resizing and
+// recompression, unlike a file hash.
+export function perceptualHash(buffer, contentType) {
+  const { width, height, data } = decodePixels(buffer, contentType);
+  const cols = 9;
+  const rows = 8;
+  const grey = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      // Average the block of source pixels this cell covers
+      const x0 = Math.floor(col * width / cols);
+      const x1 = Math.max(Math.floor((col + 1) * width / cols), x0 + 1);
+      const y0 = Math.floor(row * height / rows);
+      const y1 = Math.max(Math.floor((row + 1) * height / rows), y0 + 1);
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        }
+      }
+      grey.push(sum / ((x1 - x0) * (y1 - y0)));
+    }
+  }
+
+  let hash = 0n;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols - 1; col++) {
+      hash = (hash << 1n) | (grey[row * cols + col] > grey[row * cols + col + 1] ? 1n : 0n);
+    }
+  }
+
+  return { hash: hash.toString(16).padStart(16, '0'), width, height };
+}
+
+export function hammingDistance(a, b) {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+// Compare the EXIF capture time and position with the disaster
+export function compareWithDisaster(exif, disaster) {
+  const capture = { status: 'unknown' };
+  if (exif.captured_at) {
+    const captured = new Date(exif.captured_at).getTime();
+    const reported = new Date(disaster.created_at).getTime();
+    capture.captured_at = exif.captured_at;
+    capture.disaster_reported_at = disaster.created_at;
+    capture.status = captured < reported - CAPTURE_GRACE_MS ? 'before_disaster'
+      : captured > Date.now() + CLOCK_SKEW_MS ? 'in_future'
+        : 'consistent';
+  }
+
+  const location = { status: 'unknown' };
+  const hasDisasterPoint = disaster.lat !== null && disaster.lat !== undefined;
+  if (exif.gps && hasDisasterPoint) {
+    location.distance_meters = Math.round(haversineDistance(exif.gps, { lat: disaster.lat, lng: disaster.lng }));
+    location.max_distance_meters = getMaxDistanceMeters();
+    location.status = location.distance_meters <= location.max_distance_meters ? 'near' : 'far';
+  }
+
+  return { capture, location };
+}
+
+// Reports elsewhere whose image has (nearly) the same hash. The report being
+// verified is skipped; another report on the same disaster with the same
+// picture is listed too, as it is the same photo submitted twice.
+export async function findImageReuse(hash, { reportId } = {}) {
+  let query = supabase
+    .from('reports')
+    .select('id, disaster_id, image_url, image_hash, created_at')
+    .not('image_hash', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(HASH_CANDIDATE_LIMIT);
+
+  if (reportId) {
+    query = query.neq('id', reportId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data
+    .map(report => ({ ...report, hash_distance: hammingDistance(hash, report.image_hash) }))
+    .filter(report => report.hash_distance <= HASH_MATCH_DISTANCE)
+    .sort((a, b) => a.hash_distance - b.hash_distance)
+    .map(({ image_hash, ...report }) => report);
+}
+
+// Flags raised by the signals, most serious first
+export function signalFlags({ comparison, reuse, exif }) {
+  const flags = [];
+  if (reuse.length > 0) flags.push('reused_image');
+  if (comparison.capture.status === 'before_disaster') flags.push('captured_before_disaster');
+  if (comparison.capture.status === 'in_future') flags.push('capture_time_in_future');
+  if (comparison.location.status === 'far') flags.push('far_from_disaster');
+  if (exif.software && EDITING_SOFTWARE.some(name => exif.software.toLowerCase().includes(name))) flags.push('edited');
+  return flags;
+}
+
+// Both decoders are held to the same pixel budget: a small compressed file
+// can declare dimensions that take gigabytes to decode
+function decodePixels(buffer, contentType) {
+  if (contentType === 'image/png') {
+    // IHDR is always the first chunk: width and height are big-endian at 16 and 20
+    if (buffer.length < 24 || buffer.toString('latin1', 12, 16) !== 'IHDR') {
+      throw new Error('PNG has no IHDR header');
+    }
+    const width = buffer.readUInt32BE(16);
+    const height = buffer.readUInt32BE(20);
+    if (width * height > MAX_DECODE_MEGAPIXELS * 1000000) {
+      throw new Error(`PNG is ${width}x${height}, over the ${MAX_DECODE_MEGAPIXELS} megapixel limit`);
+    }
+
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+  return jpeg.decode(buffer, { useTArray: true, maxResolutionInMP: MAX_DECODE_MEGAPIXELS, maxMemoryUsageInMB: 256 });
+}
+
+function parseImageUrl(value) {
+  let url;
+  try {
+    url = new URL(value);
+  } catch {
+    throw withStatus(new Error('image_url must be a valid URL'), 400);
+  }
+
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    throw withStatus(new Error('image_url must be an http or https URL'), 400);
+  }
+  if (isPrivateHost(url.hostname)) {
+    throw withStatus(new Error('image_url must point to a public host'), 400);
+  }
+  return url;
+}
+
+// Local names and literal addresses in a blocked range. Connections to
+// literal addresses skip DNS, so they are only caught here.
+function isPrivateHost(hostname) {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) return true;
+  return net.isIP(host) !== 0 && isBlockedAddress(host);
+}
+
+function isBlockedAddress(address) {
+  return BLOCKED_ADDRESSES.check(address, net.isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// dns.lookup that fails when any resolved address is blocked
+function publicLookup(hostname, options, callback) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      const blockedError = new Error(`image_url resolves to a non-public address (${blocked.address})`);
+      blockedError.code = BLOCKED_ADDRESS_CODE;
+      return callback(blockedError);
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+function withStatus(error, status) {
+  error.status = status;
+  return error;
+}
@@ -0,0 +1,82 @@
+import { supabase } from '../middleware/index.js';
+
+// Items tracked in resource inventories, with the unit quantities are counted in
+export const SUPPLY_ITEMS = {
+  water: { label: 'Water', unit: 'liters' },
+  mre: { label: 'MREs', unit: 'meals' },
+  blankets: { label: 'Blankets', unit: 'units' },
+  medical_kits: { label: 'Medical kits', unit: 'kits' },
+  hygiene_kits: { label: 'Hygiene kits', unit: 'kits' },
+  baby_formula: { label: 'Baby formula', unit: 'cans' },
+  tarps: { label: 'Tarps', unit: 'units' },
+  cots: { label: 'Cots', unit: 'units' }
+};
+
+export const SHIPMENT_STATUSES = ['requested', 'dispatched', 'delivered', 'cancelled'];
+
+// Validate shipment lines, merging repeated items. Returns { errors, items }.
+export function parseShipmentItems(value) {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { errors: ['items must be a non-empty list of { item, quantity }'], items: [] };
+  }
+
+  const errors = [];
+  const totals = new Map();
+
+  for (const line of value) {
+    const item = line?.item;
+    const quantity = Number(line?.quantity);
+
+    if (!SUPPLY_ITEMS[item]) {
+      errors.push(`Unknown item: ${item}`);
+      continue;
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      errors.push(`Quantity for ${item} must be a positive integer`);
+      continue;
+    }
+
+    totals.set(item, (totals.get(item) || 0) + quantity);
+  }
+
+  return {
+    errors,
+    items: [...totals].map(([item, quantity]) => ({ item, quantity }))
+  };
+}
+
+export function isLowStock(stock) {
+  return stock.low_stock_threshold !== null &&
+    stock.low_stock_threshold !== undefined &&
+    stock.quantity <= stock.low_stock_threshold;
+}
+
+// Emit `low_stock_alert` for the given items of a resource that are at or
+// below their threshold. Pass the item names that just changed.
+export async function emitLowStockAlerts(io, resourceId, items) {
+  const { data, error } = await supabase
+    .from('inventory_items')
+    .select('*, resource:resources(id, name, disaster_id)')
+    .eq('resource_id', resourceId)
+    .in('item', items);
+
+  if (error) throw error;
+
+  const low = data.filter(isLowStock);
+
+  for (const stock of low) {
+    io.emit('low_stock_alert', {
+      disaster_id: stock.resource?.disaster_id,
+      resource_id: resourceId,
+      resource_name: stock.resource?.name,
+      item: stock.item,
+      label: SUPPLY_ITEMS[stock.item]?.label || stock.item,
+      quantity: stock.quantity,
+      unit: stock.unit || SUPPLY_ITEMS[stock.item]?.unit,
+      threshold: stock.low_stock_threshold,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  return low;
+}
@@ -0,0 +1,16 @@
+// Reports waiting for a human decision. Verified and fake are moderator
+// decisions that automatic verification leaves alone.
+export const QUEUE_STATUSES = ['pending', 'suspicious'];
+
+// A claim nobody acted on lapses after this long and the report is up for grabs again
+export const CLAIM_TTL_MS = 30 * 60 * 1000;
+
+// The claim on a report while it holds, else null
+export function activeClaim(report) {
+  if (!report.claimed_by || !report.claimed_at) return null;
+
+  const expiresAt = new Date(new Date(report.claimed_at).getTime() + CLAIM_TTL_MS);
+  if (expiresAt <= new Date()) return null;
+
+  return { user_id: report.claimed_by, claimed_at: report.claimed_at, expires_at: expiresAt.toISOString() };
+}
@@ -0,0 +1,26 @@
+import { RESOURCE_TYPE_NAMES } from './resourceTypes.js';
+
+// What a message or need can be about: every resource type, plus rescue,
+// which responders answer rather than a resource
+export const NEED_CATEGORIES = [...RESOURCE_TYPE_NAMES, 'rescue'];
+
+// Word prefixes in report and post text that point to a category. Flood water
+// is not a need, so water only counts as drinking water.
+const CATEGORY_TERMS = {
+  shelter: ['shelter', 'housing', 'place to stay', 'homeless', 'displaced', 'cots', 'evacuation cent'],
+  medical: ['medical', 'medicine', 'injur', 'doctor', 'nurse', 'insulin', 'ambulance', 'first aid', 'hurt', 'bleeding', 'pharmac', 'oxygen'],
+  food: ['food', 'meal', 'hungry', 'formula', 'groceries', 'mre'],
+  water: ['drinking water', 'bottled water', 'clean water', 'no water', 'need water', 'water supply', 'food and water', 'water and food', 'thirst', 'dehydrat'],
+  fuel: ['fuel', 'gas', 'diesel', 'propane', 'generator'],
+  transport: ['transport', 'ride', 'evacuation bus', 'stranded', 'boat'],
+  comms: ['charg', 'phone', 'battery', 'wifi', 'signal'],
+  rescue: ['rescue', 'trapped', 'stranded', 'rooftop', 'missing', 'drowning', 'search and rescue']
+};
+
+// Categories mentioned in free text, in NEED_CATEGORIES order
+export function categoriesInText(text) {
+  const lower = (text || '').toLowerCase();
+  const mentions = term => new RegExp(`\\b${term}`).test(lower);
+
+  return NEED_CATEGORIES.filter(category => CATEGORY_TERMS[category].some(mentions));
+}
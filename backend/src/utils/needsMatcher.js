@@ -0,0 +1,89 @@
+import { supabase } from '../middleware/index.js';
+import { RESOURCE_TYPE_NAMES, parseResourceFilters } from './resourceTypes.js';
+import { categoriesInText } from './needCategories.js';
+import { findNearbyResources } from './resourceSearch.js';
+
+export const NEED_URGENCIES = ['low', 'medium', 'high', 'critical'];
+
+const DEFAULT_MATCH_RADIUS_METERS = 25000;
+const MAX_CANDIDATES = 50;
+
+const URGENT_TERMS = ['urgent', 'emergency', 'sos', 'trapped', 'immediately', 'critical', 'dying'];
+
+// Social post priorities map onto need urgency
+const PRIORITY_URGENCY = { low: 'low', medium: 'medium', high: 'high', urgent: 'critical' };
+
+// Categories, urgency and head count suggested by free text such as
+// "Need food and water for 12 people in Lower East Side"
+export function inferNeedDetails(text, priority) {
+  const lower = (text || '').toLowerCase();
+
+  const mentions = term => new RegExp(`\\b${term}`).test(lower);
+
+  // Needs are met by resources, so only resource types become needs
+  const categories = categoriesInText(text).filter(category => RESOURCE_TYPE_NAMES.includes(category));
+
+  const urgency = PRIORITY_URGENCY[priority] ||
+    (URGENT_TERMS.some(mentions) ? 'high' : 'medium');
+
+  const count = lower.match(/(\d+)\s*(people|persons|families|adults|children|kids|residents|patients)/);
+
+  return {
+    categories,
+    urgency,
+    quantity: count ? parseInt(count[1]) : 1
+  };
+}
+
+// Places left on a resource; resources without a capacity never fill up
+export function spareCapacity(resource) {
+  return resource.capacity === null || resource.capacity === undefined
+    ? Infinity
+    : resource.capacity - resource.current_occupancy;
+}
+
+// Nearest resources of the need's category that can take its whole quantity.
+// Needs without a location are matched from the disaster's location, and
+// failing that against the resources registered on the disaster itself.
+export async function findMatches(need, disaster, { limit = 3, radius = DEFAULT_MATCH_RADIUS_METERS } = {}) {
+  const origin = need.lat != null && need.lng != null
+    ? { lat: need.lat, lng: need.lng }
+    : disaster?.lat != null && disaster?.lng != null
+      ? { lat: disaster.lat, lng: disaster.lng }
+      : null;
+
+  let candidates;
+  if (origin) {
+    candidates = await findNearbyResources(origin, {
+      radius,
+      limit: MAX_CANDIDATES,
+      onlyAvailable: true,
+      filters: parseResourceFilters({ type: need.category })
+    });
+  } else {
+    const { data, error } = await supabase
+      .from('resources')
+      .select('*')
+      .eq('disaster_id', need.disaster_id)
+      .eq('type', need.category)
+      .eq('is_full', false)
+      .limit(MAX_CANDIDATES);
+
+    if (error) throw error;
+    candidates = data;
+  }
+
+  return candidates
+    .filter(resource => spareCapacity(resource) >= need.quantity)
+    .sort((a, b) => (a.distance_meters ?? 0) - (b.distance_meters ?? 0) || spareCapacity(b) - spareCapacity(a))
+    .slice(0, limit)
+    .map(resource => ({
+      resource_id: resource.id,
+      disaster_id: resource.disaster_id,
+      name: resource.name,
+      type: resource.type,
+      location_name: resource.location_name,
+      distance_meters: resource.distance_meters ?? null,
+      spare_capacity: Number.isFinite(spareCapacity(resource)) ? spareCapacity(resource) : null
+    }));
+}
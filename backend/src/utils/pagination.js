@@ -0,0 +1,41 @@
+export const MAX_PAGE_SIZE = 100;
+
+// Clamp a requested page size to 1..MAX_PAGE_SIZE
+export function parseLimit(value, fallback = 20) {
+  return Math.min(Math.max(parseInt(value) || fallback, 1), MAX_PAGE_SIZE);
+}
+
+// Opaque cursor for keyset pagination: the sort column value and id of the
+// last row on a page, plus the sort it belongs to
+export function encodeCursor(sort, order, row) {
+  const payload = { s: sort, o: order, v: row[sort], id: row.id };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// Returns null for a cursor that is malformed or was issued for a different sort
+export function decodeCursor(cursor, sort, order) {
+  try {
+    const payload = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (payload.s !== sort || payload.o !== order || !payload.id || payload.v === undefined) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// PostgREST `or` filter for rows after the cursor in (sort, id) order
+export function keysetFilter(sort, order, cursor) {
+  const op = order === 'asc' ? 'gt' : 'lt';
+  const value = quoteFilterValue(cursor.v);
+  const id = quoteFilterValue(cursor.id);
+
+  return `${sort}.${op}.${value},and(${sort}.eq.${value},id.${op}.${id})`;
+}
+
+// Values in PostgREST logic filters are quoted so commas, dots and
+// parentheses (in titles, timestamps) don't break the expression
+function quoteFilterValue(value) {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,22 @@
+import { supabase } from '../middleware/index.js';
+
+// Roles that coordinate every disaster
+export const COORDINATOR_ROLES = ['admin', 'coordinator'];
+
+// Roles that review suspicious and unverified reports
+export const MODERATOR_ROLES = ['admin', 'moderator'];
+
+// Admins, coordinators and the disaster's owner coordinate a disaster: they can
+// edit or remove its resources, assign needs to them and assign its tasks
+export async function canManageDisaster(user, disasterId) {
+  if (COORDINATOR_ROLES.includes(user.role)) return true;
+
+  const { data, error } = await supabase
+    .from('disasters')
+    .select('owner_id')
+    .eq('id', disasterId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.owner_id === user.id;
+}
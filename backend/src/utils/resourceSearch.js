@@ -0,0 +1,60 @@
+import { supabase, logger } from '../middleware/index.js';
+import { invalidateCache } from './cache.js';
+import { boundingBox, rankByDistance } from './geo.js';
+
+// Nearest resources to `origin` across every disaster that is neither archived
+// nor resolved. `filters` comes from parseResourceFilters. Falls back to
+// haversine distances over the generated lat/lng columns without PostGIS.
+export async function findNearbyResources(origin, { radius = 10000, limit = 20, onlyAvailable = false, filters }) {
+  const { data, error } = await applyFilters(supabase
+    .rpc('find_nearby_resources', {
+      origin_lat: origin.lat,
+      origin_lng: origin.lng,
+      radius_meters: radius,
+      only_available: onlyAvailable
+    }), filters)
+    .order('distance_meters', { ascending: true })
+    .limit(limit);
+
+  if (!error) return data;
+
+  logger.warn(`Geospatial query failed, falling back to haversine distances: ${error.message}`);
+  return findNearbyWithoutPostgis(origin, radius, limit, onlyAvailable, filters);
+}
+
+// Cached nearby-resource lookups for this disaster, including sub-incident lookups
+// that pulled in its resources as a parent, and the cross-disaster nearby search
+export async function invalidateResourceCache(disasterId) {
+  await invalidateCache(`resources_%${disasterId}%`);
+  await invalidateCache('resources_nearby_%');
+}
+
+// Prefilter on the generated lat/lng columns, then rank by haversine distance
+async function findNearbyWithoutPostgis(origin, radius, limit, onlyAvailable, filters) {
+  const box = boundingBox(origin, radius);
+
+  let query = supabase
+    .from('resources')
+    .select('*, disasters!inner(title, status, archived_at)')
+    .is('disasters.archived_at', null)
+    .neq('disasters.status', 'resolved')
+    .gte('lat', box.minLat)
+    .lte('lat', box.maxLat)
+    .gte('lng', box.minLng)
+    .lte('lng', box.maxLng);
+
+  if (onlyAvailable) {
+    query = query.eq('is_full', false);
+  }
+
+  const { data, error } = await applyFilters(query, filters);
+  if (error) throw error;
+
+  return rankByDistance(data, origin, radius)
+    .slice(0, limit)
+    .map(({ disasters, ...resource }) => ({ ...resource, disaster_title: disasters.title }));
+}
+
+function applyFilters(query, filters) {
+  return filters ? filters.apply(query) : query;
+}
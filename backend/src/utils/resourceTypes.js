@@ -0,0 +1,255 @@
+// Registry of resource types and the structured attributes each one carries.
+// Attribute kinds: integer, number, boolean, enum (one of `values`) and
+// list (several of `values`).
+export const RESOURCE_TYPES = {
+  shelter: {
+    label: 'Shelter',
+    attributes: {
+      beds: { kind: 'integer', min: 0, label: 'Beds' },
+      wheelchair_accessible: { kind: 'boolean', label: 'Wheelchair accessible' },
+      pets_allowed: { kind: 'boolean', label: 'Pets allowed' },
+      services: {
+        kind: 'list',
+        values: ['meals', 'showers', 'laundry', 'childcare', 'medical_desk'],
+        label: 'Services'
+      }
+    }
+  },
+  medical: {
+    label: 'Medical',
+    attributes: {
+      specialties: {
+        kind: 'list',
+        values: ['trauma', 'pediatrics', 'dialysis', 'maternity', 'mental_health', 'pharmacy', 'first_aid'],
+        label: 'Specialties'
+      },
+      beds: { kind: 'integer', min: 0, label: 'Beds' },
+      has_ambulance: { kind: 'boolean', label: 'Ambulance on site' }
+    }
+  },
+  food: {
+    label: 'Food',
+    attributes: {
+      meals_per_day: { kind: 'integer', min: 0, label: 'Meals per day' },
+      dietary_options: {
+        kind: 'list',
+        values: ['vegetarian', 'vegan', 'halal', 'kosher', 'gluten_free', 'baby_formula'],
+        label: 'Dietary options'
+      }
+    }
+  },
+  water: {
+    label: 'Water',
+    attributes: {
+      liters_per_day: { kind: 'number', min: 0, label: 'Liters per day' },
+      potable: { kind: 'boolean', label: 'Drinkable' },
+      bring_containers: { kind: 'boolean', label: 'Bring your own containers' }
+    }
+  },
+  fuel: {
+    label: 'Fuel',
+    attributes: {
+      fuel_types: {
+        kind: 'list',
+        values: ['gasoline', 'diesel', 'propane', 'kerosene'],
+        label: 'Fuel types'
+      },
+      liters_available: { kind: 'number', min: 0, label: 'Liters available' }
+    }
+  },
+  transport: {
+    label: 'Transport',
+    attributes: {
+      vehicle: {
+        kind: 'enum',
+        values: ['bus', 'van', 'truck', 'boat', 'helicopter', 'ambulance'],
+        label: 'Vehicle'
+      },
+      seats: { kind: 'integer', min: 0, label: 'Seats' },
+      wheelchair_accessible: { kind: 'boolean', label: 'Wheelchair accessible' }
+    }
+  },
+  comms: {
+    label: 'Communications',
+    attributes: {
+      services: {
+        kind: 'list',
+        values: ['charging', 'wifi', 'satellite_phone', 'radio'],
+        label: 'Services'
+      },
+      outlets: { kind: 'integer', min: 0, label: 'Charging outlets' }
+    }
+  }
+};
+
+export const RESOURCE_TYPE_NAMES = Object.keys(RESOURCE_TYPES);
+
+// Validate attributes for a resource type. Returns { errors, attributes } with
+// values coerced to their kind (query strings and form posts send strings).
+export function validateAttributes(type, attributes = {}) {
+  const definition = RESOURCE_TYPES[type];
+  if (!definition) {
+    return { errors: [`Unknown resource type: ${type}`], attributes: {} };
+  }
+
+  if (typeof attributes !== 'object' || attributes === null || Array.isArray(attributes)) {
+    return { errors: ['attributes must be an object'], attributes: {} };
+  }
+
+  const errors = [];
+  const result = {};
+
+  for (const [name, value] of Object.entries(attributes)) {
+    const spec = definition.attributes[name];
+
+    if (!spec) {
+      errors.push(`Unknown attribute for ${type}: ${name}`);
+      continue;
+    }
+
+    if (value === null || value === undefined) continue;
+
+    const coerced = coerceValue(spec, value);
+    if (coerced === undefined) {
+      errors.push(`${name} must be ${describeKind(spec)}`);
+      continue;
+    }
+
+    result[name] = coerced;
+  }
+
+  return { errors, attributes: result };
+}
+
+// Turn `attr[name]=value` query params into filters for applyAttributeFilters.
+// Numbers accept `min:`/`max:` prefixes; list values are comma-separated and
+// all of them must be present.
+export function parseAttributeFilters(type, params = {}) {
+  const errors = [];
+  const contains = {};
+  const ranges = [];
+
+  if (typeof params !== 'object' || Object.keys(params).length === 0) {
+    return { errors, contains, ranges };
+  }
+
+  const definition = RESOURCE_TYPES[type];
+  if (!definition) {
+    return { errors: ['Filter by a single type to filter by attributes'], contains, ranges };
+  }
+
+  for (const [name, raw] of Object.entries(params)) {
+    const spec = definition.attributes[name];
+    if (!spec) {
+      errors.push(`Unknown attribute for ${type}: ${name}`);
+      continue;
+    }
+
+    const value = String(raw);
+    const range = value.match(/^(min|max):(.+)$/);
+
+    if (range && (spec.kind === 'integer' || spec.kind === 'number')) {
+      const bound = Number(range[2]);
+      if (!Number.isFinite(bound)) {
+        errors.push(`${name} ${range[1]} must be a number`);
+        continue;
+      }
+      ranges.push({ name, op: range[1] === 'min' ? 'gte' : 'lte', value: bound });
+      continue;
+    }
+
+    const coerced = coerceValue(spec, spec.kind === 'list' ? value.split(',') : value);
+    if (coerced === undefined) {
+      errors.push(`${name} must be ${describeKind(spec)}`);
+      continue;
+    }
+
+    contains[name] = coerced;
+  }
+
+  return { errors, contains, ranges };
+}
+
+// Parse `type=shelter,medical` and `attr[...]` query params. `apply` adds the
+// filters to a resources query builder (table or rpc result).
+export function parseResourceFilters(query) {
+  const types = query.type
+    ? String(query.type).split(',').map(t => t.trim()).filter(Boolean)
+    : [];
+  const invalidTypes = types.filter(t => !RESOURCE_TYPE_NAMES.includes(t));
+
+  if (invalidTypes.length > 0) {
+    return { errors: [`Invalid type: ${invalidTypes.join(', ')}`] };
+  }
+
+  const attributeFilters = parseAttributeFilters(types.length === 1 ? types[0] : null, query.attr);
+  if (attributeFilters.errors.length > 0) {
+    return { errors: attributeFilters.errors };
+  }
+
+  return {
+    errors: [],
+    types,
+    key: JSON.stringify([types, query.attr || {}]),
+    apply: builder => applyAttributeFilters(types.length > 0 ? builder.in('type', types) : builder, attributeFilters)
+  };
+}
+
+// Apply parsed attribute filters to a resources query (table or rpc result)
+export function applyAttributeFilters(query, { contains, ranges }) {
+  let filtered = query;
+
+  if (Object.keys(contains).length > 0) {
+    filtered = filtered.contains('attributes', contains);
+  }
+
+  for (const { name, op, value } of ranges) {
+    filtered = filtered[op](`attributes->${name}`, value);
+  }
+
+  return filtered;
+}
+
+function coerceValue(spec, value) {
+  switch (spec.kind) {
+    case 'integer':
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (typeof value === 'string' && value.trim() === '') return undefined;
+      if (!Number.isFinite(number)) return undefined;
+      if (spec.kind === 'integer' && !Number.isInteger(number)) return undefined;
+      if (spec.min !== undefined && number < spec.min) return undefined;
+      return number;
+    }
+    case 'boolean':
+      if (value === true || value === 'true') return true;
+      if (value === false || value === 'false') return false;
+      return undefined;
+    case 'enum':
+      return spec.values.includes(value) ? value : undefined;
+    case 'list': {
+      const items = Array.isArray(value) ? value.map(item => String(item).trim()).filter(Boolean) : null;
+      if (!items || items.some(item => !spec.values.includes(item))) return undefined;
+      return [...new Set(items)];
+    }
+    default:
+      return undefined;
+  }
+}
+
+function describeKind(spec) {
+  switch (spec.kind) {
+    case 'integer':
+      return spec.min !== undefined ? `an integer >= ${spec.min}` : 'an integer';
+    case 'number':
+      return spec.min !== undefined ? `a number >= ${spec.min}` : 'a number';
+    case 'boolean':
+      return 'true or false';
+    case 'enum':
+      return `one of: ${spec.values.join(', ')}`;
+    case 'list':
+      return `a list of: ${spec.values.join(', ')}`;
+    default:
+      return 'valid';
+  }
+}
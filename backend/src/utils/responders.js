@@ -0,0 +1,80 @@
+import { emitToDisasterRoom } from '../socket/handlers.js';
+
+// Skills responders can list and tasks can require
+export const RESPONDER_SKILLS = [
+  'first_aid',
+  'medical',
+  'search_and_rescue',
+  'driving',
+  'boat_operation',
+  'logistics',
+  'construction',
+  'communications',
+  'translation',
+  'counseling',
+  'cooking',
+  'childcare'
+];
+
+export const RESPONDER_AVAILABILITY = ['available', 'busy', 'off_duty'];
+
+export const TASK_STATUSES = ['open', 'assigned', 'in_progress', 'completed', 'cancelled'];
+
+export const TASK_PRIORITIES = ['low', 'medium', 'high', 'critical'];
+
+// Status changes made through the status endpoint. Assigning goes through the
+// assign endpoint; moving back to open unassigns the responder.
+const TASK_TRANSITIONS = {
+  open: ['cancelled'],
+  assigned: ['in_progress', 'open', 'cancelled'],
+  in_progress: ['completed', 'open', 'cancelled'],
+  completed: [],
+  cancelled: ['open']
+};
+
+// Tasks still occupying their responder
+export const ACTIVE_TASK_STATUSES = ['assigned', 'in_progress'];
+
+export function canTransitionTask(from, to) {
+  return (TASK_TRANSITIONS[from] || []).includes(to);
+}
+
+// Accept an array or comma-separated string of skills
+export function parseSkills(value) {
+  if (value === undefined || value === null || value === '') {
+    return { skills: [], invalid: [] };
+  }
+
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  const skills = [...new Set(list.map(skill => String(skill).trim().toLowerCase()).filter(Boolean))];
+
+  return {
+    skills: skills.filter(skill => RESPONDER_SKILLS.includes(skill)),
+    invalid: skills.filter(skill => !RESPONDER_SKILLS.includes(skill))
+  };
+}
+
+// Required skills the responder does not have
+export function missingSkills(responder, task) {
+  const skills = responder.skills || [];
+  return (task.required_skills || []).filter(skill => !skills.includes(skill));
+}
+
+// Contact details stay out of socket events, which anyone in a disaster room receives
+const RESPONDER_CONTACT_FIELDS = ['phone'];
+
+function withoutContact(responder) {
+  if (!responder) return responder;
+  return Object.fromEntries(Object.entries(responder).filter(([field]) => !RESPONDER_CONTACT_FIELDS.includes(field)));
+}
+
+// Tell the rooms of the disasters a responder was and is deployed to. Responders
+// not deployed anywhere produce no event.
+export function emitResponderUpdate(io, action, responder, previousDisasterId = null) {
+  const disasterIds = new Set([previousDisasterId, responder.disaster_id].filter(Boolean));
+  const payload = { action, responder: withoutContact(responder) };
+
+  for (const disasterId of disasterIds) {
+    emitToDisasterRoom(io, disasterId, 'responders_updated', { disaster_id: disasterId, ...payload });
+  }
+}
@@ -1,10 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { AlertTriangle, Plus, MapPin, Clock, Users, Radio, Shield, Bell } from 'lucide-react';
 import io from 'socket.io-client';
-import DisasterList from './components/DisasterList';
+import DisasterList, { type DisasterListQuery } from './components/DisasterList';
 import DisasterForm from './components/DisasterForm';
 import RealtimeUpdates from './components/RealtimeUpdates';
 import Dashboard from './components/Dashboard';
+import SearchBar from './components/SearchBar';
+import ModerationQueue from './components/ModerationQueue';
 
 const API_BASE = 'http://localhost:3001/api';
 
@@ -12,19 +14,38 @@ interface Disaster {
   id: string;
   title: string;
   location_name?: string;
+  lat?: number | null;
+  lng?: number | null;
+  distance_meters?: number;
   description: string;
   tags: string[];
+  status: 'reported' | 'verified' | 'active' | 'contained' | 'resolved';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  parent_id?: string | null;
   owner_id: string;
   created_at: string;
+  version: number;
   reports?: { count: number }[];
   resources?: { count: number }[];
 }
 
+interface DisasterStats {
+  total_disasters: number;
+  reports: number;
+  resources: number;
+}
+
 function App() {
   const [disasters, setDisasters] = useState<Disaster[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'disasters' | 'reports'>('dashboard');
+  const [openDisasterId, setOpenDisasterId] = useState<string | null>(null);
+  const [listQuery, setListQuery] = useState<DisasterListQuery>({});
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [listTotal, setListTotal] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [serverStats, setServerStats] = useState<DisasterStats | null>(null);
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'disasters' | 'reports' | 'moderation'>('dashboard');
   const [socket, setSocket] = useState<any>(null);
   const [realtimeUpdates, setRealtimeUpdates] = useState<any[]>([]);
   const [stats, setStats] = useState({
@@ -34,10 +55,59 @@ function App() {
     liveUpdates: 0
   });
 
+  // Dashboard totals come from the server so they cover every page, not just the loaded ones
+  const fetchStats = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE}/disasters/stats`);
+      if (response.ok) {
+        setServerStats(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch stats:', error);
+    }
+  }, []);
+
+  // Load the first page for a query, or append the page after `cursor`
+  const fetchDisasters = useCallback(async (query: DisasterListQuery, cursor?: string) => {
+    const params = new URLSearchParams({ limit: '20' });
+    Object.entries(query).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    if (cursor) params.set('cursor', cursor);
+
+    try {
+      const response = await fetch(`${API_BASE}/disasters?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch disasters');
+      }
+
+      setDisasters(prev => cursor
+        ? [...prev, ...data.disasters.filter((d: Disaster) => !prev.some(p => p.id === d.id))]
+        : data.disasters
+      );
+      setNextCursor(data.next_cursor);
+      if (!cursor) setListTotal(data.total);
+    } catch (error) {
+      console.error('Failed to fetch disasters:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadMoreDisasters = async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    await fetchDisasters(listQuery, nextCursor);
+    setLoadingMore(false);
+  };
+
   useEffect(() => {
     // Initialize socket connection
     const newSocket = io('http://localhost:3001', {
-      transports: ['websocket']
+      transports: ['websocket'],
+      // Same demo user as the API calls; the server checks it before joining the moderators room
+      auth: { token: 'netrunnerX' }
     });
     
     setSocket(newSocket);
@@ -52,13 +122,26 @@ function App() {
         ...prev.slice(0, 19)
       ]);
       
-      if (data.action === 'create') {
-        setDisasters(prev => [data.disaster, ...prev]);
+      if (data.action === 'create' || data.action === 'restore') {
+        setDisasters(prev => [data.disaster, ...prev.filter(d => d.id !== data.disaster.id)]);
       } else if (data.action === 'update') {
         setDisasters(prev => prev.map(d => d.id === data.disaster.id ? data.disaster : d));
-      } else if (data.action === 'delete') {
+      } else if (data.action === 'status_change') {
+        // Resolved disasters are no longer part of the active list
+        setDisasters(prev => data.disaster.status === 'resolved'
+          ? prev.filter(d => d.id !== data.disaster.id)
+          : prev.map(d => d.id === data.disaster.id ? data.disaster : d)
+        );
+      } else if (data.action === 'merge') {
+        setDisasters(prev => prev
+          .filter(d => d.id !== data.merged_id)
+          .map(d => d.id === data.disaster.id ? data.disaster : d)
+        );
+      } else if (data.action === 'archive' || data.action === 'delete') {
         setDisasters(prev => prev.filter(d => d.id !== data.disaster.id));
       }
+      
+      fetchStats();
     });
     
     newSocket.on('social_media_updated', (data) => {
@@ -68,42 +151,79 @@ function App() {
       ]);
     });
     
+    newSocket.on('reports_updated', (data) => {
+      setRealtimeUpdates(prev => [
+        { type: 'reports', action: data.action, data, timestamp: new Date() },
+        ...prev.slice(0, 19)
+      ]);
+      
+      if (data.action === 'create') {
+        setDisasters(prev => prev.map(d => d.id === data.disaster_id
+          ? { ...d, reports: [{ count: (d.reports?.[0]?.count || 0) + 1 }] }
+          : d
+        ));
+      }
+      
+      fetchStats();
+    });
+    
     newSocket.on('resources_updated', (data) => {
       setRealtimeUpdates(prev => [
         { type: 'resources', data, timestamp: new Date() },
         ...prev.slice(0, 19)
       ]);
+      
+      fetchStats();
+    });
+    
+    newSocket.on('priority_alert', (data) => {
+      setRealtimeUpdates(prev => [
+        { type: 'priority_alert', data, timestamp: new Date() },
+        ...prev.slice(0, 19)
+      ]);
+    });
+    
+    newSocket.on('low_stock_alert', (data) => {
+      setRealtimeUpdates(prev => [
+        { type: 'low_stock', data, timestamp: new Date() },
+        ...prev.slice(0, 19)
+      ]);
+    });
+    
+    // Only arrives for the disaster rooms this client has joined
+    newSocket.on('official_update', (data) => {
+      setRealtimeUpdates(prev => [
+        { type: 'official_update', data: data.update, timestamp: new Date() },
+        ...prev.slice(0, 19)
+      ]);
     });
     
     return () => {
       newSocket.close();
     };
-  }, []);
+  }, [fetchStats]);
 
   useEffect(() => {
-    fetchDisasters();
-  }, []);
+    fetchDisasters(listQuery);
+  }, [fetchDisasters, listQuery]);
 
   useEffect(() => {
-    // Update stats when disasters change
+    fetchStats();
+  }, [fetchStats]);
+
+  useEffect(() => {
+    // Fall back to the loaded page until the server totals arrive
     setStats({
-      totalDisasters: disasters.length,
-      activeReports: disasters.reduce((sum, d) => sum + (d.reports?.[0]?.count || 0), 0),
-      verifiedResources: disasters.reduce((sum, d) => sum + (d.resources?.[0]?.count || 0), 0),
+      totalDisasters: serverStats?.total_disasters ?? disasters.filter(d => d.status !== 'resolved').length,
+      activeReports: serverStats?.reports ?? disasters.reduce((sum, d) => sum + (d.reports?.[0]?.count || 0), 0),
+      verifiedResources: serverStats?.resources ?? disasters.reduce((sum, d) => sum + (d.resources?.[0]?.count || 0), 0),
       liveUpdates: realtimeUpdates.length
     });
-  }, [disasters, realtimeUpdates]);
+  }, [disasters, realtimeUpdates, serverStats]);
 
-  const fetchDisasters = async () => {
-    try {
-      const response = await fetch(`${API_BASE}/disasters`);
-      const data = await response.json();
-      setDisasters(data);
-    } catch (error) {
-      console.error('Failed to fetch disasters:', error);
-    } finally {
-      setLoading(false);
-    }
+  const openSearchResult = (disasterId: string) => {
+    setActiveTab('disasters');
+    setOpenDisasterId(disasterId);
   };
 
   const handleDisasterCreated = (disaster: Disaster) => {
@@ -141,6 +261,8 @@ function App() {
             </div>
             
             <div className="flex items-center space-x-4">
+              <SearchBar onSelect={openSearchResult} />
+
               <div className="flex items-center space-x-1 text-sm">
                 <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
                 <span className="text-gray-600">Live Updates</span>
@@ -189,6 +311,20 @@ function App() {
                 <span>Active Disasters</span>
               </div>
             </button>
+
+            <button
+              onClick={() => setActiveTab('moderation')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'moderation'
+                  ? 'border-red-500 text-red-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-center space-x-2">
+                <Shield className="h-4 w-4" />
+                <span>Moderation</span>
+              </div>
+            </button>
           </div>
         </div>
       </nav>
@@ -207,7 +343,23 @@ function App() {
             )}
             
             {activeTab === 'disasters' && (
-              <DisasterList disasters={disasters} />
+              <DisasterList
+                disasters={disasters}
+                total={listTotal}
+                hasMore={!!nextCursor}
+                loadingMore={loadingMore}
+                onLoadMore={loadMoreDisasters}
+                onQueryChange={query => setListQuery(prev =>
+                  JSON.stringify(prev) === JSON.stringify(query) ? prev : query
+                )}
+                openDisasterId={openDisasterId}
+                onDetailClosed={() => setOpenDisasterId(null)}
+                socket={socket}
+              />
+            )}
+
+            {activeTab === 'moderation' && (
+              <ModerationQueue socket={socket} />
             )}
           </div>
           
@@ -1,5 +1,17 @@
-import React from 'react';
-import { AlertTriangle, Users, MapPin, Shield, Clock, TrendingUp } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, Users, MapPin, Shield, Clock, TrendingUp, MessageCircle } from 'lucide-react';
+
+interface PriorityAlert {
+  source_type: 'social_post' | 'report';
+  id: string;
+  content: string;
+  priority: 'urgent' | 'high' | 'medium' | 'low';
+  need_categories: string[];
+  intent: 'request' | 'offer' | 'info' | null;
+  author: string | null;
+  created_at: string;
+  disasters: { id: string; title: string }[];
+}
 
 interface DashboardProps {
   disasters: any[];
@@ -14,9 +26,20 @@ interface DashboardProps {
 
 const Dashboard: React.FC<DashboardProps> = ({ disasters, stats, realtimeUpdates }) => {
   const recentDisasters = disasters.slice(0, 3);
-  const urgentDisasters = disasters.filter(d => 
-    d.tags.includes('urgent') || d.tags.includes('emergency')
-  );
+  const urgentDisasters = disasters
+    .filter(d => d.status !== 'resolved' && (d.severity === 'critical' || d.severity === 'high'))
+    .sort((a, b) => (a.severity === 'critical' ? 0 : 1) - (b.severity === 'critical' ? 0 : 1));
+  const [alerts, setAlerts] = useState<PriorityAlert[]>([]);
+
+  // Reload classified alerts whenever a new one is announced. Updates are
+  // newest first and capped, so the newest alert is what changes, not the count.
+  const latestAlertAt = realtimeUpdates.find(update => update.type === 'priority_alert')?.timestamp?.getTime();
+  useEffect(() => {
+    fetch('http://localhost:3001/api/alerts/priority?limit=5')
+      .then(res => (res.ok ? res.json() : { alerts: [] }))
+      .then(data => setAlerts(data.alerts))
+      .catch(error => console.error('Error fetching priority alerts:', error));
+  }, [latestAlertAt]);
 
   const statCards = [
     {
@@ -78,8 +101,8 @@ const Dashboard: React.FC<DashboardProps> = ({ disasters, stats, realtimeUpdates
         })}
       </div>
 
-      {/* Alert Section for Urgent Disasters */}
-      {urgentDisasters.length > 0 && (
+      {/* Alert Section for Urgent Disasters and classified requests */}
+      {(urgentDisasters.length > 0 || alerts.length > 0) && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-6">
           <div className="flex items-center space-x-3 mb-4">
             <div className="bg-red-100 p-2 rounded-full">
@@ -106,6 +129,15 @@ const Dashboard: React.FC<DashboardProps> = ({ disasters, stats, realtimeUpdates
                     </div>
                   </div>
                   <div className="flex flex-wrap gap-1">
+                    <span
+                      className={`px-2 py-1 text-xs rounded-full ${
+                        disaster.severity === 'critical'
+                          ? 'bg-red-600 text-white'
+                          : 'bg-orange-100 text-orange-800'
+                      }`}
+                    >
+                      {disaster.severity}
+                    </span>
                     {disaster.tags.map((tag: string) => (
                       <span
                         key={tag}
@@ -122,6 +154,45 @@ const Dashboard: React.FC<DashboardProps> = ({ disasters, stats, realtimeUpdates
                 </div>
               </div>
             ))}
+            {alerts.map(alert => (
+              <div key={`${alert.source_type}-${alert.id}`} className="bg-white rounded-lg p-4 border border-red-100">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900">{alert.content}</p>
+                    <div className="flex items-center mt-2 space-x-4 text-xs text-gray-500">
+                      <span className="flex items-center">
+                        {alert.source_type === 'report'
+                          ? <Users className="h-3 w-3 mr-1" />
+                          : <MessageCircle className="h-3 w-3 mr-1" />}
+                        {alert.source_type === 'report' ? 'Field report' : 'Social post'}
+                        {alert.author && ` by ${alert.author}`}
+                      </span>
+                      <span className="flex items-center">
+                        <Clock className="h-3 w-3 mr-1" />
+                        {new Date(alert.created_at).toLocaleTimeString()}
+                      </span>
+                      <span className="truncate">{alert.disasters.map(d => d.title).join(', ')}</span>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1 ml-3">
+                    <span
+                      className={`px-2 py-1 text-xs rounded-full ${
+                        alert.priority === 'urgent'
+                          ? 'bg-red-600 text-white'
+                          : 'bg-orange-100 text-orange-800'
+                      }`}
+                    >
+                      {alert.priority}
+                    </span>
+                    {alert.need_categories.map(category => (
+                      <span key={category} className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">
+                        {category}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ))}
           </div>
         </div>
       )}
@@ -198,7 +269,7 @@ const Dashboard: React.FC<DashboardProps> = ({ disasters, stats, realtimeUpdates
                 <span className="text-sm font-medium text-yellow-900">Social Media Feed</span>
               </div>
               <span className="text-xs text-yellow-700 bg-yellow-100 px-2 py-1 rounded-full">
-                Mock Data
+                Polling
               </span>
             </div>
           </div>
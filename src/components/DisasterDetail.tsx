@@ -1,46 +1,306 @@
 import React, { useState, useEffect } from 'react';
-import { X, MapPin, Clock, Users, Tag, AlertTriangle, Shield, Radio, Image, ExternalLink } from 'lucide-react';
+import { X, MapPin, Clock, Users, Tag, AlertTriangle, Shield, Radio, Image, ExternalLink, History, RotateCcw, Edit, Archive, CornerDownRight, ClipboardList, ListChecks, Package } from 'lucide-react';
+import type { Socket } from 'socket.io-client';
+import DisasterForm from './DisasterForm';
+import SocialPostMap, { type SocialPostFeature } from './SocialPostMap';
+import NeedsTab from './NeedsTab';
+import TasksTab from './TasksTab';
+import LogisticsTab from './LogisticsTab';
+
+interface Report {
+  id: string;
+  user_id: string;
+  content: string;
+  image_url?: string;
+  verification_status: 'pending' | 'verified' | 'suspicious' | 'fake';
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+  need_categories?: string[];
+  intent?: 'request' | 'offer' | 'info' | null;
+  created_at: string;
+}
+
+interface ImageVerification {
+  status: Report['verification_status'];
+  // The report's status afterwards; a moderator's decision is not overridden
+  report_status: Report['verification_status'] | null;
+  authenticity_score: number | null;
+  flags: string[];
+  model: { analysis_summary: string | null } | null;
+}
+
+interface Resource {
+  id: string;
+  name: string;
+  description?: string;
+  location_name?: string;
+  type: string;
+  attributes?: Record<string, unknown>;
+  capacity?: number | null;
+  current_occupancy: number;
+  is_full?: boolean;
+  distance_meters?: number;
+}
+
+interface ResourceAttribute {
+  name: string;
+  label: string;
+  kind: 'integer' | 'number' | 'boolean' | 'enum' | 'list';
+  values?: string[];
+}
+
+interface ResourceType {
+  name: string;
+  label: string;
+  attributes: ResourceAttribute[];
+}
+
+interface SocialPost {
+  id: string;
+  platform: string;
+  author: string | null;
+  content: string;
+  url: string | null;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  location_name?: string | null;
+  posted_at: string;
+  relevance_score: number;
+}
+
+interface OfficialUpdate {
+  id: string;
+  source: string;
+  title: string;
+  content: string;
+  url: string | null;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  area_desc: string | null;
+  published_at: string;
+}
+
+interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+interface AuditEntry {
+  id: string;
+  action: string;
+  user_id: string;
+  timestamp: string;
+  entity: 'disaster' | 'report' | 'resource';
+  entity_id?: string;
+  note?: string;
+  changes?: Record<string, FieldChange | unknown>;
+}
+
+interface DuplicateCandidate {
+  id: string;
+  title: string;
+  location_name?: string;
+  score: number;
+  reasons: string[];
+}
+
+interface SubIncident {
+  id: string;
+  title: string;
+  location_name?: string;
+  status: string;
+  severity: string;
+  reports_count: number;
+  resources_count: number;
+  total_reports: number;
+  total_resources: number;
+  children: SubIncident[];
+}
+
+interface Hierarchy {
+  ancestors: { id: string; title: string }[];
+  children: SubIncident[];
+  rollup: { reports: number; resources: number };
+}
+
+type DisasterStatus = 'reported' | 'verified' | 'active' | 'contained' | 'resolved';
+
+// Mirrors the lifecycle enforced by PATCH /api/disasters/:id/status
+const STATUS_TRANSITIONS: Record<DisasterStatus, DisasterStatus[]> = {
+  reported: ['verified'],
+  verified: ['active'],
+  active: ['contained'],
+  contained: ['active', 'resolved'],
+  resolved: []
+};
 
 interface DisasterDetailProps {
   disaster: any;
   onClose: () => void;
+  socket?: Socket | null;
 }
 
-const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'reports' | 'resources' | 'social' | 'updates'>('overview');
-  const [reports, setReports] = useState([]);
-  const [resources, setResources] = useState([]);
-  const [socialMedia, setSocialMedia] = useState([]);
-  const [officialUpdates, setOfficialUpdates] = useState([]);
+const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose, socket }) => {
+  const [activeTab, setActiveTab] = useState<'overview' | 'reports' | 'resources' | 'needs' | 'tasks' | 'logistics' | 'social' | 'updates' | 'history'>('overview');
+  const [reports, setReports] = useState<Report[]>([]);
+  const [reportsTotal, setReportsTotal] = useState(0);
+  const [reportStatusFilter, setReportStatusFilter] = useState<string>('all');
+  const [newReport, setNewReport] = useState({ content: '', image_url: '' });
+  const [submittingReport, setSubmittingReport] = useState(false);
+  const [imageVerifications, setImageVerifications] = useState<Record<string, ImageVerification>>({});
+  const [verifyingReportId, setVerifyingReportId] = useState<string | null>(null);
+  const [resources, setResources] = useState<Resource[]>([]);
+  const [availableOnly, setAvailableOnly] = useState(false);
+  const [resourceTypes, setResourceTypes] = useState<ResourceType[]>([]);
+  const [resourceTypeFilter, setResourceTypeFilter] = useState('');
+  const [attributeFilters, setAttributeFilters] = useState<Record<string, string>>({});
+  const [nearMe, setNearMe] = useState<{ lat: number; lng: number } | null>(null);
+  const [socialMedia, setSocialMedia] = useState<SocialPost[]>([]);
+  const [socialCursor, setSocialCursor] = useState<string | null>(null);
+  const [loadingMorePosts, setLoadingMorePosts] = useState(false);
+  const [socialView, setSocialView] = useState<'list' | 'map'>('list');
+  const [socialFeatures, setSocialFeatures] = useState<SocialPostFeature[]>([]);
+  const [officialUpdates, setOfficialUpdates] = useState<OfficialUpdate[]>([]);
+  const [updatesCursor, setUpdatesCursor] = useState<string | null>(null);
+  const [loadingMoreUpdates, setLoadingMoreUpdates] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+  const [status, setStatus] = useState<DisasterStatus>(disaster.status);
+  const [changingStatus, setChangingStatus] = useState(false);
+  const [showEdit, setShowEdit] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[]>([]);
+  const [hierarchy, setHierarchy] = useState<Hierarchy | null>(null);
+
+  useEffect(() => {
+    setStatus(disaster.status);
+  }, [disaster.status]);
 
   useEffect(() => {
     fetchData();
-  }, [disaster.id, activeTab]);
+  }, [disaster.id, activeTab, reportStatusFilter, availableOnly, nearMe, resourceTypeFilter, attributeFilters]);
+
+  // Join this disaster's room for as long as it is open. The task and logistics
+  // tabs listen for their own events there.
+  useEffect(() => {
+    if (!socket) return;
+
+    // New posts are prepended; the feed is sorted newest first
+    const handleSocialUpdate = (data: { disaster_id: string; posts: SocialPost[] }) => {
+      if (data.disaster_id !== disaster.id) return;
+      setSocialMedia(prev => [
+        ...data.posts.filter(post => !prev.some(p => p.id === post.id)),
+        ...prev
+      ].sort((a, b) => b.posted_at.localeCompare(a.posted_at)));
+    };
+
+    const handleOfficialUpdate = (data: { disaster_id: string; update: OfficialUpdate }) => {
+      if (data.disaster_id !== disaster.id) return;
+      setOfficialUpdates(prev => [
+        data.update,
+        ...prev.filter(update => update.id !== data.update.id)
+      ].sort((a, b) => b.published_at.localeCompare(a.published_at)));
+    };
+
+    socket.emit('join_disaster', disaster.id);
+    socket.on('social_media_updated', handleSocialUpdate);
+    socket.on('official_update', handleOfficialUpdate);
+
+    return () => {
+      socket.off('social_media_updated', handleSocialUpdate);
+      socket.off('official_update', handleOfficialUpdate);
+      socket.emit('leave_disaster', disaster.id);
+    };
+  }, [socket, disaster.id]);
+
+  useEffect(() => {
+    fetch('http://localhost:3001/api/resource-types')
+      .then(res => (res.ok ? res.json() : []))
+      .then(setResourceTypes)
+      .catch(error => console.error('Error fetching resource types:', error));
+  }, []);
 
   const fetchData = async () => {
     setLoading(true);
     try {
       switch (activeTab) {
-        case 'resources':
-          const resourcesRes = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/resources`);
+        case 'overview': {
+          const detailRes = await fetch(`http://localhost:3001/api/disasters/${disaster.id}`);
+          if (detailRes.ok) {
+            const detailData = await detailRes.json();
+            setHierarchy({
+              ancestors: detailData.ancestors || [],
+              children: detailData.children || [],
+              rollup: detailData.rollup
+            });
+          }
+
+          const duplicatesRes = await fetch('http://localhost:3001/api/disasters/check-duplicates', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': 'Bearer netrunnerX'
+            },
+            body: JSON.stringify({
+              title: disaster.title,
+              description: disaster.description,
+              tags: disaster.tags,
+              exclude_id: disaster.id,
+              ...(disaster.lat != null && { lat: disaster.lat, lng: disaster.lng })
+            })
+          });
+          if (duplicatesRes.ok) {
+            const duplicatesData = await duplicatesRes.json();
+            setDuplicates(duplicatesData.duplicates);
+          }
+          break;
+        }
+        case 'reports': {
+          const params = reportStatusFilter === 'all' ? '' : `?status=${reportStatusFilter}`;
+          const reportsRes = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/reports${params}`);
+          if (reportsRes.ok) {
+            const reportsData = await reportsRes.json();
+            setReports(reportsData.reports);
+            setReportsTotal(reportsData.total);
+          }
+          break;
+        }
+        case 'history': {
+          const historyRes = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/history`);
+          if (historyRes.ok) {
+            const historyData = await historyRes.json();
+            setHistory(historyData.entries);
+          }
+          break;
+        }
+        case 'resources': {
+          const params = new URLSearchParams();
+          if (availableOnly) params.set('available', 'true');
+          if (resourceTypeFilter) params.set('type', resourceTypeFilter);
+          Object.entries(attributeFilters).forEach(([name, value]) => {
+            if (value) params.set(`attr[${name}]`, value);
+          });
+          if (nearMe) {
+            params.set('lat', String(nearMe.lat));
+            params.set('lng', String(nearMe.lng));
+          }
+          const resourcesRes = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/resources?${params}`);
           if (resourcesRes.ok) {
             const resourcesData = await resourcesRes.json();
             setResources(resourcesData);
           }
           break;
+        }
         case 'social':
           const socialRes = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/social-media`);
           if (socialRes.ok) {
             const socialData = await socialRes.json();
-            setSocialMedia(socialData);
+            setSocialMedia(socialData.posts);
+            setSocialCursor(socialData.next_cursor);
           }
           break;
         case 'updates':
           const updatesRes = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/official-updates`);
           if (updatesRes.ok) {
             const updatesData = await updatesRes.json();
-            setOfficialUpdates(updatesData);
+            setOfficialUpdates(updatesData.updates);
+            setUpdatesCursor(updatesData.next_cursor);
           }
           break;
       }
@@ -51,7 +311,345 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
     }
   };
 
-  const verifyImage = async (imageUrl: string) => {
+  const loadMorePosts = async () => {
+    if (!socialCursor) return;
+    setLoadingMorePosts(true);
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/social-media?cursor=${encodeURIComponent(socialCursor)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load posts');
+      }
+
+      setSocialMedia(prev => [...prev, ...result.posts.filter((post: SocialPost) => !prev.some(p => p.id === post.id))]);
+      setSocialCursor(result.next_cursor);
+    } catch (error) {
+      console.error('Error loading posts:', error);
+      alert(error instanceof Error ? error.message : 'Failed to load posts');
+    } finally {
+      setLoadingMorePosts(false);
+    }
+  };
+
+  const loadMoreUpdates = async () => {
+    if (!updatesCursor) return;
+    setLoadingMoreUpdates(true);
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/official-updates?cursor=${encodeURIComponent(updatesCursor)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load updates');
+      }
+
+      setOfficialUpdates(prev => [...prev, ...result.updates.filter((update: OfficialUpdate) => !prev.some(u => u.id === update.id))]);
+      setUpdatesCursor(result.next_cursor);
+    } catch (error) {
+      console.error('Error loading updates:', error);
+      alert(error instanceof Error ? error.message : 'Failed to load updates');
+    } finally {
+      setLoadingMoreUpdates(false);
+    }
+  };
+
+  // The map shows the 100 most relevant geolocated posts
+  const showSocialMap = async () => {
+    setSocialView('map');
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/social-media?format=geojson&sort=relevance_score&limit=100`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load post locations');
+      }
+
+      setSocialFeatures(result.features);
+    } catch (error) {
+      console.error('Error loading post locations:', error);
+    }
+  };
+
+  const submitReport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmittingReport(true);
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/reports`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer citizen1' // Mock auth
+        },
+        body: JSON.stringify({
+          content: newReport.content,
+          ...(newReport.image_url && { image_url: newReport.image_url })
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to submit report');
+      }
+
+      const report = await response.json();
+      setReports(prev => [report, ...prev]);
+      setReportsTotal(prev => prev + 1);
+      setNewReport({ content: '', image_url: '' });
+    } catch (error) {
+      console.error('Error submitting report:', error);
+      alert('Failed to submit report. Please try again.');
+    } finally {
+      setSubmittingReport(false);
+    }
+  };
+
+  const createNeed = async (body: Record<string, unknown>) => {
+    const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/needs`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': 'Bearer citizen1' // Mock auth
+      },
+      body: JSON.stringify(body)
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to record need');
+    }
+    return result.needs as { category: string }[];
+  };
+
+  const logNeedFromReport = async (report: Report) => {
+    try {
+      const created = await createNeed({ source_type: 'report', source_id: report.id });
+      alert(`Recorded ${created.map(need => need.category).join(', ')} need${created.length > 1 ? 's' : ''} from this report`);
+    } catch (error) {
+      console.error('Error recording need:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record need');
+    }
+  };
+
+  const updateReportStatus = async (reportId: string, status: string) => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/reports/${reportId}/status`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer netrunnerX'
+        },
+        body: JSON.stringify({ status })
+      });
+
+      if (response.ok) {
+        const updated = await response.json();
+        setReports(prev => prev.map(r => r.id === updated.id ? updated : r));
+      }
+    } catch (error) {
+      console.error('Error updating report status:', error);
+    }
+  };
+
+  const changeStatus = async (nextStatus: DisasterStatus) => {
+    setChangingStatus(true);
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/status`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer netrunnerX'
+        },
+        body: JSON.stringify({ status: nextStatus })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to change status');
+      }
+
+      setStatus(result.status);
+    } catch (error) {
+      console.error('Error changing status:', error);
+      alert(error instanceof Error ? error.message : 'Failed to change status');
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
+  const revertTo = async (entry: AuditEntry) => {
+    if (!confirm(`Revert this disaster to how it was before the ${entry.action} on ${new Date(entry.timestamp).toLocaleString()}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/revert/${entry.id}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': 'Bearer netrunnerX'
+        }
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to revert');
+      }
+
+      fetchData();
+    } catch (error) {
+      console.error('Error reverting disaster:', error);
+      alert(error instanceof Error ? error.message : 'Failed to revert');
+    }
+  };
+
+  const mergeDuplicate = async (duplicate: DuplicateCandidate) => {
+    if (!confirm(`Merge "${duplicate.title}" into this disaster? Its reports and resources will move here and it will be archived.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer netrunnerX'
+        },
+        body: JSON.stringify({ source_id: duplicate.id })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to merge');
+      }
+
+      setDuplicates(prev => prev.filter(d => d.id !== duplicate.id));
+    } catch (error) {
+      console.error('Error merging disaster:', error);
+      alert(error instanceof Error ? error.message : 'Failed to merge');
+    }
+  };
+
+  const adjustOccupancy = async (resource: Resource, action: 'check-in' | 'check-out') => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/resources/${resource.id}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer netrunnerX'
+        },
+        body: JSON.stringify({ count: 1 })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${action}`);
+      }
+
+      setResources(prev => prev.map(r => r.id === result.id ? { ...r, ...result } : r));
+    } catch (error) {
+      console.error(`Error during ${action}:`, error);
+      alert(error instanceof Error ? error.message : `Failed to ${action}`);
+    }
+  };
+
+  const selectedResourceType = resourceTypes.find(type => type.name === resourceTypeFilter);
+
+  const changeResourceTypeFilter = (type: string) => {
+    setResourceTypeFilter(type);
+    setAttributeFilters({});
+  };
+
+  const setAttributeFilter = (name: string, value: string) => {
+    setAttributeFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  const formatAttribute = (attribute: ResourceAttribute | undefined, name: string, value: unknown) => {
+    const label = attribute?.label || name.replace(/_/g, ' ');
+    if (typeof value === 'boolean') return value ? label : `No ${label.toLowerCase()}`;
+    if (Array.isArray(value)) return `${label}: ${value.map(v => String(v).replace(/_/g, ' ')).join(', ')}`;
+    return `${label}: ${String(value).replace(/_/g, ' ')}`;
+  };
+
+  // Nearest resources with space left, from the browser's location
+  const findNearestAvailable = () => {
+    if (!navigator.geolocation) {
+      alert('Location is not available in this browser');
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setAvailableOnly(true);
+        setNearMe({ lat: position.coords.latitude, lng: position.coords.longitude });
+      },
+      () => alert('Could not get your location')
+    );
+  };
+
+  const archiveDisaster = async () => {
+    if (!confirm(`Archive "${disaster.title}"? It can be restored by an admin until the retention period ends.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': 'Bearer netrunnerX',
+          'If-Match': `"${disaster.version}"`
+        }
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to archive');
+      }
+
+      onClose();
+    } catch (error) {
+      console.error('Error archiving disaster:', error);
+      alert(error instanceof Error ? error.message : 'Failed to archive');
+    }
+  };
+
+  const renderSubIncident = (node: SubIncident, depth: number): React.ReactNode => (
+    <div key={node.id}>
+      <div
+        className="flex items-center justify-between border border-gray-200 rounded-lg p-3 mb-2"
+        style={{ marginLeft: `${depth * 1.5}rem` }}
+      >
+        <div className="flex items-center space-x-2">
+          <CornerDownRight className="h-4 w-4 text-gray-400" />
+          <div>
+            <p className="font-medium text-gray-900">{node.title}</p>
+            <p className="text-xs text-gray-500">
+              {node.location_name || 'Location pending'} · <span className="capitalize">{node.status}</span> · <span className="capitalize">{node.severity}</span>
+            </p>
+          </div>
+        </div>
+        <div className="text-right text-xs text-gray-600">
+          <div>{node.total_reports} reports</div>
+          <div>{node.total_resources} resources</div>
+        </div>
+      </div>
+      {node.children.map(child => renderSubIncident(child, depth + 1))}
+    </div>
+  );
+
+  const isFieldChange = (change: unknown): change is FieldChange =>
+    typeof change === 'object' && change !== null && 'from' in change;
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) return value.join(', ') || '—';
+    if (typeof value === 'object') {
+      const point = value as { lat?: number; lng?: number };
+      if (point.lat !== undefined && point.lng !== undefined) {
+        return `${point.lat.toFixed(4)}, ${point.lng.toFixed(4)}`;
+      }
+      return JSON.stringify(value);
+    }
+    return String(value);
+  };
+
+  // The result is shown under the report; anything not verified waits in the moderation queue
+  const verifyImage = async (report: Report) => {
+    setVerifyingReportId(report.id);
     try {
       const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}/verify-image`, {
         method: 'POST',
@@ -59,16 +657,23 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
           'Content-Type': 'application/json',
           'Authorization': 'Bearer netrunnerX'
         },
-        body: JSON.stringify({ image_url: imageUrl })
+        body: JSON.stringify({ report_id: report.id, image_url: report.image_url })
       });
       
-      if (response.ok) {
-        const result = await response.json();
-        alert(`Verification Result: ${result.status}\nScore: ${result.authenticity_score}/100\n${result.analysis_summary}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to verify image');
+      }
+
+      setImageVerifications(prev => ({ ...prev, [report.id]: result }));
+      if (result.report_status) {
+        setReports(prev => prev.map(r => r.id === report.id ? { ...r, verification_status: result.report_status } : r));
       }
     } catch (error) {
       console.error('Error verifying image:', error);
-      alert('Failed to verify image');
+      alert(error instanceof Error ? error.message : 'Failed to verify image');
+    } finally {
+      setVerifyingReportId(null);
     }
   };
 
@@ -76,8 +681,12 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
     { id: 'overview', label: 'Overview', icon: AlertTriangle },
     { id: 'reports', label: 'Reports', icon: Users },
     { id: 'resources', label: 'Resources', icon: MapPin },
+    { id: 'needs', label: 'Needs', icon: ClipboardList },
+    { id: 'tasks', label: 'Tasks', icon: ListChecks },
+    { id: 'logistics', label: 'Logistics', icon: Package },
     { id: 'social', label: 'Social Media', icon: Radio },
-    { id: 'updates', label: 'Official Updates', icon: ExternalLink }
+    { id: 'updates', label: 'Official Updates', icon: ExternalLink },
+    { id: 'history', label: 'History', icon: History }
   ];
 
   return (
@@ -96,14 +705,50 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
                 <Clock className="h-4 w-4" />
                 <span>{new Date(disaster.created_at).toLocaleString()}</span>
               </div>
+              <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-800 capitalize">
+                {status}
+              </span>
+              <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${
+                disaster.severity === 'critical' ? 'bg-red-100 text-red-800' :
+                disaster.severity === 'high' ? 'bg-orange-100 text-orange-800' :
+                'bg-blue-100 text-blue-800'
+              }`}>
+                {disaster.severity}
+              </span>
             </div>
           </div>
-          <button
-            onClick={onClose}
-            className="text-gray-400 hover:text-gray-600 transition-colors"
-          >
-            <X className="h-6 w-6" />
-          </button>
+          <div className="flex items-center space-x-3">
+            <a
+              href={`http://localhost:3001/api/disasters/${disaster.id}/cap`}
+              target="_blank"
+              rel="noopener noreferrer"
+              title="Common Alerting Protocol alert for partner agencies"
+              className="text-gray-500 hover:text-gray-700 flex items-center space-x-1 text-sm transition-colors"
+            >
+              <ExternalLink className="h-4 w-4" />
+              <span>CAP</span>
+            </a>
+            <button
+              onClick={() => setShowEdit(true)}
+              className="text-gray-500 hover:text-gray-700 flex items-center space-x-1 text-sm transition-colors"
+            >
+              <Edit className="h-4 w-4" />
+              <span>Edit</span>
+            </button>
+            <button
+              onClick={archiveDisaster}
+              className="text-gray-500 hover:text-red-600 flex items-center space-x-1 text-sm transition-colors"
+            >
+              <Archive className="h-4 w-4" />
+              <span>Archive</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
         </div>
 
         {/* Tabs */}
@@ -141,6 +786,70 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
                 <p className="text-gray-700 leading-relaxed">{disaster.description}</p>
               </div>
 
+              {/* Lifecycle */}
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 mb-3">Status</h3>
+                <div className="flex items-center space-x-3">
+                  <span className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-800 capitalize">
+                    {status}
+                  </span>
+                  {STATUS_TRANSITIONS[status].map(nextStatus => (
+                    <button
+                      key={nextStatus}
+                      onClick={() => changeStatus(nextStatus)}
+                      disabled={changingStatus}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-3 py-1 rounded-lg text-sm capitalize transition-colors"
+                    >
+                      Mark {nextStatus}
+                    </button>
+                  ))}
+                  {status === 'resolved' && (
+                    <span className="text-sm text-gray-500">This incident is closed</span>
+                  )}
+                </div>
+              </div>
+
+              {/* Hierarchy */}
+              {hierarchy && hierarchy.ancestors.length > 0 && (
+                <div className="text-sm text-gray-600">
+                  Part of {[...hierarchy.ancestors].reverse().map(a => a.title).join(' › ')}
+                </div>
+              )}
+              {hierarchy && hierarchy.children.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-1">Sub-incidents</h3>
+                  <p className="text-sm text-gray-600 mb-3">
+                    {hierarchy.rollup.reports} reports and {hierarchy.rollup.resources} resources across this incident and its sub-incidents
+                  </p>
+                  {hierarchy.children.map(child => renderSubIncident(child, 0))}
+                </div>
+              )}
+
+              {/* Possible Duplicates */}
+              {duplicates.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-3">Possible Duplicates</h3>
+                  <div className="space-y-2">
+                    {duplicates.map(duplicate => (
+                      <div key={duplicate.id} className="flex items-center justify-between border border-yellow-200 bg-yellow-50 rounded-lg p-3">
+                        <div>
+                          <p className="font-medium text-gray-900">{duplicate.title}</p>
+                          <p className="text-xs text-gray-600">
+                            {Math.round(duplicate.score * 100)}% match{duplicate.reasons.length > 0 && ` · ${duplicate.reasons.join(', ')}`}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => mergeDuplicate(duplicate)}
+                          className="bg-yellow-600 hover:bg-yellow-700 text-white px-3 py-1 rounded-lg text-sm transition-colors"
+                        >
+                          Merge into this
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Tags */}
               <div>
                 <h3 className="text-lg font-medium text-gray-900 mb-3">Tags</h3>
@@ -205,6 +914,91 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
 
           {activeTab === 'resources' && (
             <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={availableOnly}
+                    onChange={(e) => setAvailableOnly(e.target.checked)}
+                  />
+                  <span>Only show resources with space</span>
+                </label>
+                <select
+                  value={resourceTypeFilter}
+                  onChange={(e) => changeResourceTypeFilter(e.target.value)}
+                  className="border border-gray-300 rounded-lg px-3 py-1 text-sm"
+                >
+                  <option value="">All types</option>
+                  {resourceTypes.map(type => (
+                    <option key={type.name} value={type.name}>{type.label}</option>
+                  ))}
+                </select>
+                {nearMe ? (
+                  <button
+                    onClick={() => setNearMe(null)}
+                    className="text-sm text-gray-600 hover:text-gray-800"
+                  >
+                    Clear location
+                  </button>
+                ) : (
+                  <button
+                    onClick={findNearestAvailable}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-lg text-sm transition-colors"
+                  >
+                    Nearest available
+                  </button>
+                )}
+              </div>
+              {selectedResourceType && (
+                <div className="flex flex-wrap items-center gap-3 bg-gray-50 rounded-lg p-3 text-sm">
+                  {selectedResourceType.attributes.map(attribute => {
+                    switch (attribute.kind) {
+                      case 'integer':
+                      case 'number': {
+                        return (
+                          <label key={attribute.name} className="flex items-center space-x-1 text-gray-700">
+                            <span>Min {attribute.label.toLowerCase()}</span>
+                            <input
+                              type="number"
+                              min={0}
+                              value={(attributeFilters[attribute.name] || '').replace('min:', '')}
+                              onChange={(e) => setAttributeFilter(attribute.name, e.target.value ? `min:${e.target.value}` : '')}
+                              className="w-20 border border-gray-300 rounded px-2 py-0.5"
+                            />
+                          </label>
+                        );
+                      }
+                      case 'boolean': {
+                        return (
+                          <label key={attribute.name} className="flex items-center space-x-1 text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={attributeFilters[attribute.name] === 'true'}
+                              onChange={(e) => setAttributeFilter(attribute.name, e.target.checked ? 'true' : '')}
+                            />
+                            <span>{attribute.label}</span>
+                          </label>
+                        );
+                      }
+                      default: {
+                        return (
+                          <select
+                            key={attribute.name}
+                            value={attributeFilters[attribute.name] || ''}
+                            onChange={(e) => setAttributeFilter(attribute.name, e.target.value)}
+                            className="border border-gray-300 rounded px-2 py-0.5"
+                          >
+                            <option value="">Any {attribute.label.toLowerCase()}</option>
+                            {(attribute.values || []).map(value => (
+                              <option key={value} value={value}>{value.replace(/_/g, ' ')}</option>
+                            ))}
+                          </select>
+                        );
+                      }
+                    }
+                  })}
+                </div>
+              )}
               {loading ? (
                 <div className="text-center py-8">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto"></div>
@@ -217,10 +1011,10 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
                   <p className="text-gray-500 text-sm mt-1">Resources will appear here as they become available</p>
                 </div>
               ) : (
-                resources.map((resource: any) => (
+                resources.map(resource => (
                   <div key={resource.id} className="border border-gray-200 rounded-lg p-4">
                     <div className="flex items-start justify-between">
-                      <div>
+                      <div className="flex-1">
                         <h4 className="font-medium text-gray-900">{resource.name}</h4>
                         <p className="text-sm text-gray-600 mt-1">{resource.description}</p>
                         <div className="flex items-center mt-2 space-x-4 text-xs text-gray-500">
@@ -229,7 +1023,58 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
                             {resource.location_name}
                           </span>
                           <span>Type: {resource.type}</span>
-                          {resource.capacity && <span>Capacity: {resource.capacity}</span>}
+                          {resource.distance_meters !== undefined && (
+                            <span>{(resource.distance_meters / 1000).toFixed(1)} km away</span>
+                          )}
+                        </div>
+                        {resource.attributes && Object.keys(resource.attributes).length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {Object.entries(resource.attributes).map(([name, value]) => (
+                              <span key={name} className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded-full">
+                                {formatAttribute(
+                                  resourceTypes.find(type => type.name === resource.type)?.attributes.find(a => a.name === name),
+                                  name,
+                                  value
+                                )}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {resource.capacity ? (
+                          <div className="mt-3 max-w-sm">
+                            <div className="flex justify-between text-xs text-gray-600 mb-1">
+                              <span>{resource.current_occupancy} / {resource.capacity} occupied</span>
+                              <span>{resource.is_full ? 'Full' : `${resource.capacity - resource.current_occupancy} left`}</span>
+                            </div>
+                            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                              <div
+                                className={`h-full rounded-full ${
+                                  resource.current_occupancy >= resource.capacity ? 'bg-red-500' :
+                                  resource.current_occupancy >= resource.capacity * 0.75 ? 'bg-yellow-500' :
+                                  'bg-green-500'
+                                }`}
+                                style={{ width: `${Math.min(100, (resource.current_occupancy / resource.capacity) * 100)}%` }}
+                              />
+                            </div>
+                          </div>
+                        ) : (
+                          <p className="text-xs text-gray-500 mt-2">{resource.current_occupancy} checked in</p>
+                        )}
+                        <div className="flex space-x-2 mt-3">
+                          <button
+                            onClick={() => adjustOccupancy(resource, 'check-in')}
+                            disabled={resource.is_full}
+                            className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-2 py-1 rounded text-xs transition-colors"
+                          >
+                            Check in
+                          </button>
+                          <button
+                            onClick={() => adjustOccupancy(resource, 'check-out')}
+                            disabled={resource.current_occupancy === 0}
+                            className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white px-2 py-1 rounded text-xs transition-colors"
+                          >
+                            Check out
+                          </button>
                         </div>
                       </div>
                       <span className={`px-2 py-1 text-xs rounded-full ${
@@ -247,9 +1092,34 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
             </div>
           )}
 
+          {activeTab === 'needs' && <NeedsTab disasterId={disaster.id} categories={resourceTypes} />}
+
+          {activeTab === 'tasks' && <TasksTab disasterId={disaster.id} socket={socket} />}
+
+          {activeTab === 'logistics' && <LogisticsTab disasterId={disaster.id} socket={socket} />}
+
           {activeTab === 'social' && (
             <div className="space-y-4">
-              {loading ? (
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={() => setSocialView('list')}
+                  className={`px-3 py-1 text-sm rounded-md ${socialView === 'list' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  List
+                </button>
+                <button
+                  onClick={showSocialMap}
+                  className={`px-3 py-1 text-sm rounded-md ${socialView === 'map' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  Map
+                </button>
+              </div>
+              {socialView === 'map' ? (
+                <SocialPostMap
+                  features={socialFeatures}
+                  center={disaster.lat != null ? { lat: disaster.lat, lng: disaster.lng } : null}
+                />
+              ) : loading ? (
                 <div className="text-center py-8">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto"></div>
                   <p className="text-gray-600 mt-2">Loading social media reports...</p>
@@ -260,32 +1130,57 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
                   <p className="text-gray-600">No social media reports found</p>
                 </div>
               ) : (
-                socialMedia.map((post: any) => (
-                  <div key={post.id} className="border border-gray-200 rounded-lg p-4">
-                    <div className="flex items-start space-x-3">
-                      <div className={`w-3 h-3 rounded-full mt-2 ${
-                        post.priority === 'urgent' ? 'bg-red-500' :
-                        post.priority === 'high' ? 'bg-orange-500' :
-                        'bg-blue-500'
-                      }`}></div>
-                      <div className="flex-1">
-                        <p className="text-gray-900">{post.post}</p>
-                        <div className="flex items-center mt-2 space-x-4 text-xs text-gray-500">
-                          <span>@{post.user}</span>
-                          <span>{post.platform}</span>
-                          <span>{new Date(post.timestamp).toLocaleString()}</span>
-                          <span className={`px-2 py-1 rounded-full ${
-                            post.priority === 'urgent' ? 'bg-red-100 text-red-800' :
-                            post.priority === 'high' ? 'bg-orange-100 text-orange-800' :
-                            'bg-blue-100 text-blue-800'
-                          }`}>
-                            {post.priority}
-                          </span>
+                <>
+                  {socialMedia.map(post => (
+                    <div key={post.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start space-x-3">
+                        <div className={`w-3 h-3 rounded-full mt-2 ${
+                          post.priority === 'urgent' ? 'bg-red-500' :
+                          post.priority === 'high' ? 'bg-orange-500' :
+                          'bg-blue-500'
+                        }`}></div>
+                        <div className="flex-1">
+                          <p className="text-gray-900">{post.content}</p>
+                          <div className="flex items-center mt-2 space-x-4 text-xs text-gray-500">
+                            {post.author && <span>@{post.author}</span>}
+                            {post.url ? (
+                              <a href={post.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+                                {post.platform}
+                              </a>
+                            ) : (
+                              <span>{post.platform}</span>
+                            )}
+                            {post.location_name && (
+                              <span className="flex items-center">
+                                <MapPin className="h-3 w-3 mr-1" />
+                                {post.location_name}
+                              </span>
+                            )}
+                            <span>{new Date(post.posted_at).toLocaleString()}</span>
+                            <span className={`px-2 py-1 rounded-full ${
+                              post.priority === 'urgent' ? 'bg-red-100 text-red-800' :
+                              post.priority === 'high' ? 'bg-orange-100 text-orange-800' :
+                              'bg-blue-100 text-blue-800'
+                            }`}>
+                              {post.priority}
+                            </span>
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                ))
+                  ))}
+                  {socialCursor && (
+                    <div className="text-center">
+                      <button
+                        onClick={loadMorePosts}
+                        disabled={loadingMorePosts}
+                        className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        {loadingMorePosts ? 'Loading...' : 'Load more posts'}
+                      </button>
+                    </div>
+                  )}
+                </>
               )}
             </div>
           )}
@@ -303,34 +1198,272 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
                   <p className="text-gray-600">No official updates found</p>
                 </div>
               ) : (
-                officialUpdates.map((update: any) => (
-                  <div key={update.id} className="border border-gray-200 rounded-lg p-4">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <h4 className="font-medium text-gray-900">{update.title}</h4>
-                        <p className="text-sm text-gray-600 mt-1">{update.content}</p>
-                        <div className="flex items-center mt-2 space-x-4 text-xs text-gray-500">
-                          <span>{update.source}</span>
-                          <span>{new Date(update.timestamp).toLocaleString()}</span>
+                <>
+                  {officialUpdates.map(update => (
+                    <div key={update.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <h4 className="font-medium text-gray-900">{update.title}</h4>
+                          <p className="text-sm text-gray-600 mt-1">{update.content}</p>
+                          <div className="flex items-center mt-2 space-x-4 text-xs text-gray-500">
+                            <span>{update.source}</span>
+                            {update.area_desc && (
+                              <span className="flex items-center">
+                                <MapPin className="h-3 w-3 mr-1" />
+                                {update.area_desc}
+                              </span>
+                            )}
+                            <span>{new Date(update.published_at).toLocaleString()}</span>
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className={`px-2 py-1 text-xs rounded-full ${
+                            update.priority === 'urgent' ? 'bg-red-100 text-red-800' :
+                            update.priority === 'high' ? 'bg-orange-100 text-orange-800' :
+                            'bg-blue-100 text-blue-800'
+                          }`}>
+                            {update.priority}
+                          </span>
+                          {update.url && (
+                            <a
+                              href={update.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              <ExternalLink className="h-4 w-4" />
+                            </a>
+                          )}
                         </div>
                       </div>
-                      <div className="flex items-center space-x-2">
-                        <span className={`px-2 py-1 text-xs rounded-full ${
-                          update.priority === 'high' ? 'bg-red-100 text-red-800' :
-                          'bg-blue-100 text-blue-800'
-                        }`}>
-                          {update.priority}
-                        </span>
-                        {update.url && (
+                    </div>
+                  ))}
+                  {updatesCursor && (
+                    <div className="text-center">
+                      <button
+                        onClick={loadMoreUpdates}
+                        disabled={loadingMoreUpdates}
+                        className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        {loadingMoreUpdates ? 'Loading...' : 'Load more updates'}
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'history' && (
+            <div className="space-y-4">
+              {loading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto"></div>
+                  <p className="text-gray-600 mt-2">Loading history...</p>
+                </div>
+              ) : history.length === 0 ? (
+                <div className="text-center py-8">
+                  <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <p className="text-gray-600">No history recorded</p>
+                </div>
+              ) : (
+                history.map(entry => {
+                  const fieldChanges = Object.entries(entry.changes || {});
+                  const revertable = entry.entity === 'disaster' &&
+                    fieldChanges.length > 0 &&
+                    fieldChanges.every(([, change]) => isFieldChange(change));
+
+                  return (
+                    <div key={entry.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-2 text-sm">
+                            <span className="font-medium text-gray-900 capitalize">
+                              {entry.entity !== 'disaster' && `${entry.entity} `}{entry.action.replace('_', ' ')}
+                            </span>
+                            <span className="text-gray-500">by @{entry.user_id}</span>
+                          </div>
+                          <div className="flex items-center mt-1 space-x-1 text-xs text-gray-500">
+                            <Clock className="h-3 w-3" />
+                            <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                          </div>
+                          {fieldChanges.length > 0 && (
+                            <ul className="mt-2 space-y-1 text-sm">
+                              {fieldChanges.map(([field, change]) => (
+                                <li key={field} className="text-gray-700">
+                                  <span className="font-medium">{field}:</span>{' '}
+                                  {isFieldChange(change) ? (
+                                    <>
+                                      <span className="line-through text-gray-500">{formatValue(change.from)}</span>
+                                      {' → '}
+                                      <span>{formatValue(change.to)}</span>
+                                    </>
+                                  ) : (
+                                    <span>{formatValue(change)}</span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {entry.note && (
+                            <p className="mt-2 text-sm text-gray-600 italic">{entry.note}</p>
+                          )}
+                        </div>
+                        {revertable && (
+                          <button
+                            onClick={() => revertTo(entry)}
+                            className="text-gray-500 hover:text-red-600 flex items-center space-x-1 text-xs transition-colors"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                            <span>Revert</span>
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          )}
+
+          {activeTab === 'reports' && (
+            <div className="space-y-4">
+              <form onSubmit={submitReport} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <textarea
+                  required
+                  rows={3}
+                  value={newReport.content}
+                  onChange={(e) => setNewReport(prev => ({ ...prev, content: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  placeholder="Describe what you are seeing on the ground..."
+                />
+                <div className="flex space-x-2">
+                  <input
+                    type="url"
+                    value={newReport.image_url}
+                    onChange={(e) => setNewReport(prev => ({ ...prev, image_url: e.target.value }))}
+                    className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    placeholder="Image URL (optional)"
+                  />
+                  <button
+                    type="submit"
+                    disabled={submittingReport || !newReport.content.trim()}
+                    className="bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg text-sm transition-colors"
+                  >
+                    {submittingReport ? 'Submitting...' : 'Submit Report'}
+                  </button>
+                </div>
+              </form>
+
+              <div className="flex items-center justify-between">
+                <select
+                  value={reportStatusFilter}
+                  onChange={(e) => setReportStatusFilter(e.target.value)}
+                  className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                >
+                  <option value="all">All Reports</option>
+                  <option value="pending">Pending</option>
+                  <option value="verified">Verified</option>
+                  <option value="suspicious">Suspicious</option>
+                  <option value="fake">Fake</option>
+                </select>
+                <span className="text-sm text-gray-600">{reportsTotal} reports</span>
+              </div>
+
+              {loading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto"></div>
+                  <p className="text-gray-600 mt-2">Loading reports...</p>
+                </div>
+              ) : reports.length === 0 ? (
+                <div className="text-center py-8">
+                  <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <p className="text-gray-600">No reports found</p>
+                  <p className="text-gray-500 text-sm mt-1">Field reports will appear here as they are submitted</p>
+                </div>
+              ) : (
+                reports.map(report => (
+                  <div key={report.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <p className="text-gray-900">{report.content}</p>
+                        {report.image_url && (
                           <a
-                            href={update.url}
+                            href={report.image_url}
                             target="_blank"
                             rel="noopener noreferrer"
-                            className="text-blue-600 hover:text-blue-800"
+                            className="inline-flex items-center mt-2 text-sm text-blue-600 hover:text-blue-800"
                           >
-                            <ExternalLink className="h-4 w-4" />
+                            <Image className="h-4 w-4 mr-1" />
+                            View image
                           </a>
                         )}
+                        {report.image_url && (
+                          <button
+                            onClick={() => verifyImage(report)}
+                            disabled={verifyingReportId === report.id}
+                            className="inline-flex items-center mt-2 ml-4 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          >
+                            <Shield className="h-4 w-4 mr-1" />
+                            {verifyingReportId === report.id ? 'Verifying...' : 'Verify image'}
+                          </button>
+                        )}
+                        {imageVerifications[report.id] && (
+                          <div className="mt-2 text-xs text-gray-600 bg-gray-50 rounded p-2">
+                            <span className="font-medium">{imageVerifications[report.id].status}</span>
+                            {imageVerifications[report.id].authenticity_score !== null && ` · score ${imageVerifications[report.id].authenticity_score}/100`}
+                            {imageVerifications[report.id].flags.length > 0
+                              ? ` · flags: ${imageVerifications[report.id].flags.join(', ')}`
+                              : ' · no flags'}
+                            {imageVerifications[report.id].report_status && imageVerifications[report.id].report_status !== imageVerifications[report.id].status &&
+                              ` · report stays ${imageVerifications[report.id].report_status}`}
+                            {['pending', 'suspicious'].includes(imageVerifications[report.id].report_status || '') && ' · sent to the moderation queue'}
+                            {imageVerifications[report.id].model?.analysis_summary && (
+                              <p className="mt-1">{imageVerifications[report.id].model?.analysis_summary}</p>
+                            )}
+                          </div>
+                        )}
+                        <div className="flex items-center mt-2 space-x-4 text-xs text-gray-500">
+                          <span>@{report.user_id}</span>
+                          <span>{new Date(report.created_at).toLocaleString()}</span>
+                          {report.priority && (
+                            <span className={`px-2 py-0.5 rounded-full ${
+                              report.priority === 'urgent' ? 'bg-red-100 text-red-800' :
+                              report.priority === 'high' ? 'bg-orange-100 text-orange-800' :
+                              'bg-blue-100 text-blue-800'
+                            }`}>
+                              {report.priority}
+                              {report.intent && report.intent !== 'info' && ` ${report.intent}`}
+                              {report.need_categories && report.need_categories.length > 0 && `: ${report.need_categories.join(', ')}`}
+                            </span>
+                          )}
+                          <button
+                            onClick={() => logNeedFromReport(report)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Log as need
+                          </button>
+                        </div>
+                      </div>
+                      <div className="flex flex-col items-end space-y-2">
+                        <span className={`px-2 py-1 text-xs rounded-full ${
+                          report.verification_status === 'verified' ? 'bg-green-100 text-green-800' :
+                          report.verification_status === 'suspicious' ? 'bg-orange-100 text-orange-800' :
+                          report.verification_status === 'fake' ? 'bg-red-100 text-red-800' :
+                          'bg-gray-100 text-gray-800'
+                        }`}>
+                          {report.verification_status}
+                        </span>
+                        <select
+                          value={report.verification_status}
+                          onChange={(e) => updateReportStatus(report.id, e.target.value)}
+                          className="border border-gray-300 rounded-md px-2 py-1 text-xs"
+                        >
+                          <option value="pending">Pending</option>
+                          <option value="verified">Verified</option>
+                          <option value="suspicious">Suspicious</option>
+                          <option value="fake">Fake</option>
+                        </select>
                       </div>
                     </div>
                   </div>
@@ -338,16 +1471,17 @@ const DisasterDetail: React.FC<DisasterDetailProps> = ({ disaster, onClose }) =>
               )}
             </div>
           )}
-
-          {activeTab === 'reports' && (
-            <div className="text-center py-8">
-              <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-600">Report management coming soon</p>
-              <p className="text-gray-500 text-sm mt-1">This will show user-submitted reports and verification status</p>
-            </div>
-          )}
         </div>
       </div>
+
+      {/* Edit Modal */}
+      {showEdit && (
+        <DisasterForm
+          disaster={disaster}
+          onClose={() => setShowEdit(false)}
+          onSubmit={() => setShowEdit(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,28 +1,185 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { X, MapPin, Tag, AlertTriangle, Loader } from 'lucide-react';
 
+interface EditableDisaster {
+  id: string;
+  title: string;
+  location_name?: string;
+  description: string;
+  severity: string;
+  tags: string[];
+  parent_id?: string | null;
+  version: number;
+}
+
 interface DisasterFormProps {
+  disaster?: EditableDisaster;
   onClose: () => void;
   onSubmit: (disaster: any) => void;
 }
 
-const DisasterForm: React.FC<DisasterFormProps> = ({ onClose, onSubmit }) => {
+interface DuplicateWarning {
+  id: string;
+  title: string;
+  location_name?: string;
+  status: string;
+  created_at: string;
+  score: number;
+  reasons: string[];
+}
+
+type MergeField = 'title' | 'description' | 'location_name' | 'severity' | 'tags' | 'parent_id';
+
+const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'description', label: 'Description' },
+  { field: 'location_name', label: 'Location' },
+  { field: 'severity', label: 'Severity' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'parent_id', label: 'Parent incident' }
+];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? '') === JSON.stringify(b ?? '');
+
+const DisasterForm: React.FC<DisasterFormProps> = ({ disaster, onClose, onSubmit }) => {
   const [formData, setFormData] = useState({
-    title: '',
-    location_name: '',
-    description: '',
-    tags: [] as string[]
+    title: disaster?.title || '',
+    location_name: disaster?.location_name || '',
+    description: disaster?.description || '',
+    severity: disaster?.severity || 'medium',
+    tags: disaster?.tags || [] as string[],
+    parent_id: disaster?.parent_id || ''
   });
+  const [version, setVersion] = useState(disaster?.version);
+  // The values this edit started from, to tell whose side changed a field
+  const [base, setBase] = useState<Partial<EditableDisaster> | undefined>(disaster);
+  const [conflict, setConflict] = useState<EditableDisaster | null>(null);
+  const [mergeChoices, setMergeChoices] = useState<Partial<Record<MergeField, 'mine' | 'theirs'>>>({});
   const [loading, setLoading] = useState(false);
   const [extractingLocation, setExtractingLocation] = useState(false);
   const [currentTag, setCurrentTag] = useState('');
+  const [coordinates, setCoordinates] = useState<{ lat: number; lng: number } | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateWarning[]>([]);
+  const [duplicatesChecked, setDuplicatesChecked] = useState(false);
+  const [parentOptions, setParentOptions] = useState<{ id: string; title: string }[]>([]);
+
+  const commonTags = ['flood', 'earthquake', 'fire', 'hurricane', 'tornado', 'emergency'];
+
+  useEffect(() => {
+    const fetchParentOptions = async () => {
+      try {
+        const response = await fetch('http://localhost:3001/api/disasters?limit=100');
+        if (response.ok) {
+          const data: { disasters: { id: string; title: string }[] } = await response.json();
+          setParentOptions(data.disasters.filter(d => d.id !== disaster?.id));
+        }
+      } catch (error) {
+        console.error('Error fetching parent incidents:', error);
+      }
+    };
+
+    fetchParentOptions();
+  }, [disaster?.id]);
 
-  const commonTags = ['flood', 'earthquake', 'fire', 'hurricane', 'tornado', 'emergency', 'urgent', 'high', 'medium', 'low'];
+  const saveChanges = async (data: typeof formData, baseVersion: number | undefined) => {
+    if (!disaster) return;
+    setLoading(true);
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disaster.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer netrunnerX', // Mock auth
+          'If-Match': `"${baseVersion}"`
+        },
+        body: JSON.stringify({
+          ...data,
+          ...(coordinates && { lat: coordinates.lat, lng: coordinates.lng })
+        })
+      });
+
+      const result = await response.json();
+
+      // Someone else saved first: ask which version of each field to keep
+      if (response.status === 409 && result.current) {
+        setConflict(result.current);
+        setMergeChoices({});
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update disaster');
+      }
+
+      onSubmit(result);
+    } catch (error) {
+      console.error('Error updating disaster:', error);
+      alert('Failed to update disaster. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Three-way merge against the base: a field only one side changed takes
+  // that side's value; only fields both sides changed differently need a choice
+  const conflictingFields = conflict
+    ? MERGE_FIELDS.filter(({ field }) =>
+        !sameValue(formData[field], base?.[field]) &&
+        !sameValue(conflict[field], base?.[field]) &&
+        !sameValue(formData[field], conflict[field])
+      )
+    : [];
+  const unresolvedFields = conflictingFields.filter(({ field }) => !mergeChoices[field]);
+
+  const resolveConflict = () => {
+    if (!conflict || unresolvedFields.length > 0) return;
+
+    const merged = { ...formData };
+    MERGE_FIELDS.forEach(({ field }) => {
+      const takeTheirs = conflictingFields.some(c => c.field === field)
+        ? mergeChoices[field] === 'theirs'
+        : sameValue(formData[field], base?.[field]);
+      if (takeTheirs) {
+        (merged as Record<MergeField, unknown>)[field] = conflict[field] ?? '';
+      }
+    });
+
+    setFormData(merged);
+    setVersion(conflict.version);
+    setBase(conflict);
+    setConflict(null);
+    saveChanges(merged, conflict.version);
+  };
+
+  const formatMergeValue = (field: MergeField, value: unknown) => {
+    if (field === 'parent_id') {
+      return parentOptions.find(option => option.id === value)?.title || String(value || '—');
+    }
+    return Array.isArray(value) ? value.join(', ') || '—' : String(value || '—');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (disaster) {
+      saveChanges(formData, version);
+      return;
+    }
+
     setLoading(true);
 
+    // Show likely duplicates once before creating; a second submit goes through
+    if (!duplicatesChecked) {
+      const found = await checkDuplicates();
+      setDuplicatesChecked(true);
+      if (found.length > 0) {
+        setDuplicates(found);
+        setLoading(false);
+        return;
+      }
+    }
+
     try {
       const response = await fetch('http://localhost:3001/api/disasters', {
         method: 'POST',
@@ -30,7 +187,10 @@ const DisasterForm: React.FC<DisasterFormProps> = ({ onClose, onSubmit }) => {
           'Content-Type': 'application/json',
           'Authorization': 'Bearer netrunnerX' // Mock auth
         },
-        body: JSON.stringify(formData)
+        body: JSON.stringify({
+          ...formData,
+          ...(coordinates && { lat: coordinates.lat, lng: coordinates.lng })
+        })
       });
 
       if (!response.ok) {
@@ -47,6 +207,30 @@ const DisasterForm: React.FC<DisasterFormProps> = ({ onClose, onSubmit }) => {
     }
   };
 
+  const checkDuplicates = async (): Promise<DuplicateWarning[]> => {
+    try {
+      const response = await fetch('http://localhost:3001/api/disasters/check-duplicates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer netrunnerX' // Mock auth
+        },
+        body: JSON.stringify({
+          ...formData,
+          ...(coordinates && { lat: coordinates.lat, lng: coordinates.lng })
+        })
+      });
+
+      if (!response.ok) return [];
+
+      const result = await response.json();
+      return result.duplicates || [];
+    } catch (error) {
+      console.error('Error checking for duplicates:', error);
+      return [];
+    }
+  };
+
   const extractLocation = async () => {
     if (!formData.description.trim()) {
       alert('Please enter a description first to extract location');
@@ -74,6 +258,10 @@ const DisasterForm: React.FC<DisasterFormProps> = ({ onClose, onSubmit }) => {
         ...prev,
         location_name: result.extracted_location
       }));
+      setCoordinates(result.coordinates
+        ? { lat: result.coordinates.lat, lng: result.coordinates.lng }
+        : null
+      );
     } catch (error) {
       console.error('Error extracting location:', error);
       alert('Failed to extract location. Please enter manually.');
@@ -103,7 +291,9 @@ const DisasterForm: React.FC<DisasterFormProps> = ({ onClose, onSubmit }) => {
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900">Report New Disaster</h2>
+          <h2 className="text-xl font-semibold text-gray-900">
+            {disaster ? 'Edit Disaster' : 'Report New Disaster'}
+          </h2>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-gray-600 transition-colors"
@@ -123,7 +313,10 @@ const DisasterForm: React.FC<DisasterFormProps> = ({ onClose, onSubmit }) => {
               id="title"
               required
               value={formData.title}
-              onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+              onChange={(e) => {
+                setFormData(prev => ({ ...prev, title: e.target.value }));
+                setDuplicatesChecked(false);
+              }}
               className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-red-500 focus:border-red-500"
               placeholder="e.g., Manhattan Flood Emergency"
             />
@@ -139,7 +332,10 @@ const DisasterForm: React.FC<DisasterFormProps> = ({ onClose, onSubmit }) => {
               required
               rows={4}
               value={formData.description}
-              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              onChange={(e) => {
+                setFormData(prev => ({ ...prev, description: e.target.value }));
+                setDuplicatesChecked(false);
+              }}
               className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-red-500 focus:border-red-500"
               placeholder="Describe the disaster situation, affected areas, and any critical information..."
             />
@@ -155,7 +351,10 @@ const DisasterForm: React.FC<DisasterFormProps> = ({ onClose, onSubmit }) => {
                 type="text"
                 id="location"
                 value={formData.location_name}
-                onChange={(e) => setFormData(prev => ({ ...prev, location_name: e.target.value }))}
+                onChange={(e) => {
+                  setFormData(prev => ({ ...prev, location_name: e.target.value }));
+                  setCoordinates(null);
+                }}
                 className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-red-500 focus:border-red-500"
                 placeholder="e.g., Manhattan, NYC or leave blank to auto-extract"
               />
@@ -174,10 +373,48 @@ const DisasterForm: React.FC<DisasterFormProps> = ({ onClose, onSubmit }) => {
               </button>
             </div>
             <p className="text-xs text-gray-500 mt-1">
-              Click "Extract" to automatically detect location from description using AI
+              {coordinates
+                ? `Coordinates: ${coordinates.lat.toFixed(4)}, ${coordinates.lng.toFixed(4)}`
+                : 'Click "Extract" to automatically detect location from description using AI'}
             </p>
           </div>
 
+          {/* Severity */}
+          <div>
+            <label htmlFor="severity" className="block text-sm font-medium text-gray-700 mb-2">
+              Severity
+            </label>
+            <select
+              id="severity"
+              value={formData.severity}
+              onChange={(e) => setFormData(prev => ({ ...prev, severity: e.target.value }))}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            >
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+              <option value="critical">Critical</option>
+            </select>
+          </div>
+
+          {/* Parent Incident */}
+          <div>
+            <label htmlFor="parent" className="block text-sm font-medium text-gray-700 mb-2">
+              Part of
+            </label>
+            <select
+              id="parent"
+              value={formData.parent_id}
+              onChange={(e) => setFormData(prev => ({ ...prev, parent_id: e.target.value }))}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            >
+              <option value="">None (top-level incident)</option>
+              {parentOptions.map(option => (
+                <option key={option.id} value={option.id}>{option.title}</option>
+              ))}
+            </select>
+          </div>
+
           {/* Tags */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -251,6 +488,86 @@ const DisasterForm: React.FC<DisasterFormProps> = ({ onClose, onSubmit }) => {
             )}
           </div>
 
+          {/* Merge Prompt */}
+          {conflict && (
+            <div className="border border-yellow-300 bg-yellow-50 rounded-lg p-4 space-y-3">
+              <div className="flex items-center space-x-2 text-yellow-900">
+                <AlertTriangle className="h-5 w-5" />
+                <h3 className="font-medium">Someone else updated this disaster while you were editing</h3>
+              </div>
+              {conflictingFields.length === 0 ? (
+                <p className="text-sm text-yellow-800">Their changes don't overlap with yours; saving keeps both.</p>
+              ) : (
+                <p className="text-sm text-yellow-800">You both changed these fields. Choose which value to keep for each:</p>
+              )}
+              {conflictingFields.map(({ field, label }) => (
+                <div key={field} className="bg-white rounded-lg border border-yellow-200 p-3 text-sm">
+                  <p className="font-medium text-gray-900 mb-2">{label}</p>
+                  <label className="flex items-start space-x-2 mb-1">
+                    <input
+                      type="radio"
+                      name={`merge-${field}`}
+                      checked={mergeChoices[field] === 'mine'}
+                      onChange={() => setMergeChoices(prev => ({ ...prev, [field]: 'mine' }))}
+                    />
+                    <span><strong>Mine:</strong> {formatMergeValue(field, formData[field])}</span>
+                  </label>
+                  <label className="flex items-start space-x-2">
+                    <input
+                      type="radio"
+                      name={`merge-${field}`}
+                      checked={mergeChoices[field] === 'theirs'}
+                      onChange={() => setMergeChoices(prev => ({ ...prev, [field]: 'theirs' }))}
+                    />
+                    <span><strong>Theirs:</strong> {formatMergeValue(field, conflict[field])}</span>
+                  </label>
+                </div>
+              ))}
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  onClick={resolveConflict}
+                  disabled={loading || unresolvedFields.length > 0}
+                  className="bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg text-sm transition-colors"
+                >
+                  Save merged version
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onSubmit(conflict)}
+                  className="bg-gray-300 hover:bg-gray-400 text-gray-700 px-4 py-2 rounded-lg text-sm transition-colors"
+                >
+                  Discard my changes
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Duplicate Warnings */}
+          {duplicates.length > 0 && duplicatesChecked && (
+            <div className="border border-yellow-300 bg-yellow-50 rounded-lg p-4 space-y-3">
+              <div className="flex items-center space-x-2 text-yellow-900">
+                <AlertTriangle className="h-5 w-5" />
+                <h3 className="font-medium">This may already have been reported</h3>
+              </div>
+              {duplicates.map(duplicate => (
+                <div key={duplicate.id} className="bg-white rounded-lg border border-yellow-200 p-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium text-gray-900">{duplicate.title}</p>
+                    <span className="text-xs text-gray-500">{Math.round(duplicate.score * 100)}% match</span>
+                  </div>
+                  <p className="text-xs text-gray-600 mt-1">
+                    {duplicate.location_name || 'Unknown location'} · {duplicate.status} · {new Date(duplicate.created_at).toLocaleString()}
+                  </p>
+                  {duplicate.reasons.length > 0 && (
+                    <p className="text-xs text-yellow-800 mt-1">{duplicate.reasons.join(', ')}</p>
+                  )}
+                </div>
+              ))}
+              <p className="text-sm text-yellow-800">Submit again to report it anyway.</p>
+            </div>
+          )}
+
           {/* Submit Buttons */}
           <div className="flex space-x-4 pt-4">
             <button
@@ -262,18 +579,18 @@ const DisasterForm: React.FC<DisasterFormProps> = ({ onClose, onSubmit }) => {
             </button>
             <button
               type="submit"
-              disabled={loading || !formData.title.trim() || !formData.description.trim()}
+              disabled={loading || !!conflict || !formData.title.trim() || !formData.description.trim()}
               className="flex-1 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white py-2 px-4 rounded-lg flex items-center justify-center space-x-2 transition-colors"
             >
               {loading ? (
                 <>
                   <Loader className="h-4 w-4 animate-spin" />
-                  <span>Creating...</span>
+                  <span>{disaster ? 'Saving...' : 'Creating...'}</span>
                 </>
               ) : (
                 <>
                   <AlertTriangle className="h-4 w-4" />
-                  <span>Report Disaster</span>
+                  <span>{disaster ? 'Save Changes' : duplicates.length > 0 && duplicatesChecked ? 'Report Anyway' : 'Report Disaster'}</span>
                 </>
               )}
             </button>
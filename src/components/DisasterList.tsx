@@ -1,35 +1,113 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { MapPin, Clock, Users, Tag, Eye, AlertTriangle } from 'lucide-react';
 import DisasterDetail from './DisasterDetail';
+import type { Socket } from 'socket.io-client';
 
 interface Disaster {
   id: string;
   title: string;
   location_name?: string;
+  lat?: number | null;
+  lng?: number | null;
+  distance_meters?: number;
   description: string;
   tags: string[];
+  status: 'reported' | 'verified' | 'active' | 'contained' | 'resolved';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  parent_id?: string | null;
   owner_id: string;
   created_at: string;
+  updated_at?: string;
+  version: number;
   reports?: { count: number }[];
   resources?: { count: number }[];
 }
 
+// Server-side filters and sort for GET /api/disasters
+export interface DisasterListQuery {
+  tags?: string;
+  status?: string;
+  severity?: string;
+  sort?: 'created_at' | 'updated_at' | 'title';
+  order?: 'asc' | 'desc';
+}
+
+type SortOption = 'date' | 'updated' | 'title' | 'reports' | 'resources';
+
 interface DisasterListProps {
   disasters: Disaster[];
+  total?: number | null;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  onQueryChange?: (query: DisasterListQuery) => void;
+  openDisasterId?: string | null;
+  onDetailClosed?: () => void;
+  socket?: Socket | null;
 }
 
-const DisasterList: React.FC<DisasterListProps> = ({ disasters }) => {
-  const [selectedDisaster, setSelectedDisaster] = useState<Disaster | null>(null);
+const DisasterList: React.FC<DisasterListProps> = ({
+  disasters,
+  total,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  onQueryChange,
+  openDisasterId,
+  onDetailClosed,
+  socket
+}) => {
+  const [selectedDisasterId, setSelectedDisasterId] = useState<string | null>(null);
+
+  // Open a disaster picked elsewhere, e.g. from search results
+  useEffect(() => {
+    if (openDisasterId) {
+      setSelectedDisasterId(openDisasterId);
+    }
+  }, [openDisasterId]);
   const [filter, setFilter] = useState<string>('all');
-  const [sortBy, setSortBy] = useState<'date' | 'reports' | 'resources'>('date');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [severityFilter, setSeverityFilter] = useState<string>('all');
+  const [sortBy, setSortBy] = useState<SortOption>('date');
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Let the server filter and order, so later pages continue the same list.
+  // Report and resource counts can only be sorted within the loaded rows.
+  useEffect(() => {
+    onQueryChange?.({
+      tags: filter !== 'all' ? filter : undefined,
+      status: statusFilter !== 'all' ? statusFilter : undefined,
+      severity: severityFilter !== 'all' ? severityFilter : undefined,
+      sort: sortBy === 'updated' ? 'updated_at' : sortBy === 'title' ? 'title' : 'created_at',
+      order: sortBy === 'title' ? 'asc' : 'desc'
+    });
+  }, [filter, statusFilter, severityFilter, sortBy, onQueryChange]);
+
+  // Load the next page when the bottom of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) onLoadMore();
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore]);
+
+  // Look the selection up on every render so live updates reach the open detail view
+  const selectedDisaster = disasters.find(d => d.id === selectedDisasterId) || null;
 
   // Get unique tags for filtering
   const allTags = Array.from(new Set(disasters.flatMap(d => d.tags)));
 
   // Filter disasters
   const filteredDisasters = disasters.filter(disaster => {
-    if (filter === 'all') return true;
-    return disaster.tags.includes(filter);
+    if (filter !== 'all' && !disaster.tags.includes(filter)) return false;
+    if (statusFilter !== 'all' && disaster.status !== statusFilter) return false;
+    if (severityFilter !== 'all' && disaster.severity !== severityFilter) return false;
+    return true;
   });
 
   // Sort disasters
@@ -43,29 +121,61 @@ const DisasterList: React.FC<DisasterListProps> = ({ disasters }) => {
         const aResources = a.resources?.[0]?.count || 0;
         const bResources = b.resources?.[0]?.count || 0;
         return bResources - aResources;
+      case 'updated':
+        return new Date(b.updated_at || b.created_at).getTime() - new Date(a.updated_at || a.created_at).getTime();
+      case 'title':
+        return a.title.localeCompare(b.title);
       case 'date':
       default:
         return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
     }
   });
 
-  const getPriorityColor = (tags: string[]) => {
-    if (tags.includes('urgent') || tags.includes('emergency')) {
+  // Show sub-incidents right under their parent when both are in the list
+  const listedIds = new Set(sortedDisasters.map(d => d.id));
+  const childrenOf = (parentId: string) =>
+    sortedDisasters.filter(d => d.parent_id === parentId);
+  const flattenTree = (disaster: Disaster, depth: number): { disaster: Disaster; depth: number }[] => [
+    { disaster, depth },
+    ...childrenOf(disaster.id).flatMap(child => flattenTree(child, depth + 1))
+  ];
+  const treeRows = sortedDisasters
+    .filter(d => !d.parent_id || !listedIds.has(d.parent_id))
+    .flatMap(d => flattenTree(d, 0));
+  const titleOf = (id: string) => disasters.find(d => d.id === id)?.title;
+
+  const getPriorityColor = (severity: Disaster['severity']) => {
+    if (severity === 'critical') {
       return 'border-l-red-500 bg-red-50';
-    } else if (tags.includes('high')) {
+    } else if (severity === 'high') {
       return 'border-l-orange-500 bg-orange-50';
     } else {
       return 'border-l-blue-500 bg-white';
     }
   };
 
-  const getStatusIcon = (tags: string[]) => {
-    if (tags.includes('urgent') || tags.includes('emergency')) {
+  const getStatusIcon = (severity: Disaster['severity']) => {
+    if (severity === 'critical') {
       return <AlertTriangle className="h-5 w-5 text-red-600" />;
     }
     return <MapPin className="h-5 w-5 text-blue-600" />;
   };
 
+  const getStatusBadgeColor = (status: Disaster['status']) => {
+    switch (status) {
+      case 'reported':
+        return 'bg-gray-100 text-gray-800';
+      case 'verified':
+        return 'bg-blue-100 text-blue-800';
+      case 'active':
+        return 'bg-red-100 text-red-800';
+      case 'contained':
+        return 'bg-yellow-100 text-yellow-800';
+      default:
+        return 'bg-green-100 text-green-800';
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Filters and Controls */}
@@ -91,6 +201,42 @@ const DisasterList: React.FC<DisasterListProps> = ({ disasters }) => {
               </select>
             </div>
 
+            <div>
+              <label htmlFor="status-filter" className="block text-sm font-medium text-gray-700 mb-1">
+                Status
+              </label>
+              <select
+                id="status-filter"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              >
+                <option value="all">All Statuses</option>
+                <option value="reported">Reported</option>
+                <option value="verified">Verified</option>
+                <option value="active">Active</option>
+                <option value="contained">Contained</option>
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="severity-filter" className="block text-sm font-medium text-gray-700 mb-1">
+                Severity
+              </label>
+              <select
+                id="severity-filter"
+                value={severityFilter}
+                onChange={(e) => setSeverityFilter(e.target.value)}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              >
+                <option value="all">All Severities</option>
+                <option value="critical">Critical</option>
+                <option value="high">High</option>
+                <option value="medium">Medium</option>
+                <option value="low">Low</option>
+              </select>
+            </div>
+
             <div>
               <label htmlFor="sort" className="block text-sm font-medium text-gray-700 mb-1">
                 Sort by
@@ -98,10 +244,12 @@ const DisasterList: React.FC<DisasterListProps> = ({ disasters }) => {
               <select
                 id="sort"
                 value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as 'date' | 'reports' | 'resources')}
+                onChange={(e) => setSortBy(e.target.value as SortOption)}
                 className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
               >
                 <option value="date">Most Recent</option>
+                <option value="updated">Recently Updated</option>
+                <option value="title">Title</option>
                 <option value="reports">Most Reports</option>
                 <option value="resources">Most Resources</option>
               </select>
@@ -109,32 +257,47 @@ const DisasterList: React.FC<DisasterListProps> = ({ disasters }) => {
           </div>
 
           <div className="text-sm text-gray-600">
-            Showing {sortedDisasters.length} of {disasters.length} disasters
+            Showing {sortedDisasters.length} of {total ?? disasters.length} disasters
           </div>
         </div>
       </div>
 
       {/* Disaster Cards */}
       <div className="space-y-4">
-        {sortedDisasters.map(disaster => (
+        {treeRows.map(({ disaster, depth }) => (
           <div
             key={disaster.id}
-            className={`bg-white rounded-lg shadow-sm border-l-4 border border-gray-200 hover:shadow-md transition-shadow ${getPriorityColor(disaster.tags)}`}
+            style={{ marginLeft: `${depth * 2}rem` }}
+            className={`bg-white rounded-lg shadow-sm border-l-4 border border-gray-200 hover:shadow-md transition-shadow ${getPriorityColor(disaster.severity)}`}
           >
             <div className="p-6">
               <div className="flex items-start justify-between">
                 <div className="flex-1">
                   <div className="flex items-center space-x-3 mb-2">
-                    {getStatusIcon(disaster.tags)}
+                    {getStatusIcon(disaster.severity)}
                     <h3 className="text-lg font-semibold text-gray-900">
                       {disaster.title}
                     </h3>
+                    <span className={`px-2 py-1 text-xs rounded-full capitalize ${getStatusBadgeColor(disaster.status)}`}>
+                      {disaster.status}
+                    </span>
                   </div>
 
+                  {disaster.parent_id && depth === 0 && (
+                    <p className="text-xs text-gray-500 mb-2">
+                      Part of {titleOf(disaster.parent_id) || 'another incident'}
+                    </p>
+                  )}
+
                   <div className="flex items-center space-x-4 text-sm text-gray-600 mb-3">
                     <div className="flex items-center space-x-1">
                       <MapPin className="h-4 w-4" />
                       <span>{disaster.location_name || 'Location pending'}</span>
+                      {disaster.distance_meters !== undefined && disaster.distance_meters !== null && (
+                        <span className="text-gray-500">
+                          ({(disaster.distance_meters / 1000).toFixed(1)} km away)
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center space-x-1">
                       <Clock className="h-4 w-4" />
@@ -171,7 +334,7 @@ const DisasterList: React.FC<DisasterListProps> = ({ disasters }) => {
 
                 <div className="flex flex-col items-end space-y-2">
                   <button
-                    onClick={() => setSelectedDisaster(disaster)}
+                    onClick={() => setSelectedDisasterId(disaster.id)}
                     className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors text-sm"
                   >
                     <Eye className="h-4 w-4" />
@@ -188,14 +351,21 @@ const DisasterList: React.FC<DisasterListProps> = ({ disasters }) => {
           </div>
         ))}
 
+        {/* Infinite scroll */}
+        {hasMore && (
+          <div ref={sentinelRef} className="py-4 text-center text-sm text-gray-500">
+            {loadingMore ? 'Loading more disasters...' : ''}
+          </div>
+        )}
+
         {sortedDisasters.length === 0 && (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
             <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No disasters found</h3>
             <p className="text-gray-600">
-              {filter === 'all' 
+              {filter === 'all' && statusFilter === 'all' && severityFilter === 'all'
                 ? 'No disasters have been reported yet.' 
-                : `No disasters found with the "${filter}" tag.`}
+                : 'No disasters match the selected filters.'}
             </p>
           </div>
         )}
@@ -205,7 +375,11 @@ const DisasterList: React.FC<DisasterListProps> = ({ disasters }) => {
       {selectedDisaster && (
         <DisasterDetail
           disaster={selectedDisaster}
-          onClose={() => setSelectedDisaster(null)}
+          socket={socket}
+          onClose={() => {
+            setSelectedDisasterId(null);
+            onDetailClosed?.();
+          }}
         />
       )}
     </div>
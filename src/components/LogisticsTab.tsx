@@ -0,0 +1,413 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Package } from 'lucide-react';
+import type { Socket } from 'socket.io-client';
+
+interface SupplyItem {
+  label: string;
+  unit: string;
+}
+
+interface InventoryItem {
+  id: string;
+  resource_id: string;
+  item: string;
+  unit: string | null;
+  quantity: number;
+  low_stock_threshold: number | null;
+  low_stock?: boolean;
+}
+
+interface InventoryResource {
+  id: string;
+  name: string;
+  type: string;
+  location_name?: string;
+  inventory: InventoryItem[];
+}
+
+interface Shipment {
+  id: string;
+  origin: { id: string; name: string } | null;
+  destination: { id: string; name: string };
+  donor_name: string | null;
+  items: { item: string; quantity: number }[];
+  status: 'requested' | 'dispatched' | 'delivered' | 'cancelled';
+  note?: string;
+  created_at: string;
+}
+
+interface LogisticsTabProps {
+  disasterId: string;
+  socket?: Socket | null;
+}
+
+const LogisticsTab: React.FC<LogisticsTabProps> = ({ disasterId, socket }) => {
+  const [supplyItems, setSupplyItems] = useState<Record<string, SupplyItem>>({});
+  const [inventory, setInventory] = useState<InventoryResource[]>([]);
+  const [stockCount, setStockCount] = useState({ resource_id: '', item: 'water', quantity: '', low_stock_threshold: '' });
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [newShipment, setNewShipment] = useState({ origin_resource_id: '', donor_name: '', destination_resource_id: '', item: 'water', quantity: 1 });
+  const [submittingShipment, setSubmittingShipment] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const fetchInventory = useCallback(async () => {
+    const inventoryRes = await fetch(`http://localhost:3001/api/disasters/${disasterId}/inventory`);
+    if (inventoryRes.ok) {
+      const inventoryData = await inventoryRes.json();
+      setSupplyItems(inventoryData.items);
+      setInventory(inventoryData.resources);
+    }
+  }, [disasterId]);
+
+  useEffect(() => {
+    const fetchLogistics = async () => {
+      try {
+        await fetchInventory();
+        const shipmentsRes = await fetch(`http://localhost:3001/api/disasters/${disasterId}/shipments`);
+        if (shipmentsRes.ok) {
+          const shipmentsData = await shipmentsRes.json();
+          setShipments(shipmentsData.shipments);
+        }
+      } catch (error) {
+        console.error('Error fetching logistics:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLogistics();
+  }, [disasterId, fetchInventory]);
+
+  // Shipment and stock changes are pushed to this disaster's room
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleShipmentUpdate = (data: { disaster_id: string; shipment: Shipment }) => {
+      if (data.disaster_id !== disasterId) return;
+      setShipments(prev => prev.some(s => s.id === data.shipment.id)
+        ? prev.map(s => s.id === data.shipment.id ? data.shipment : s)
+        : [data.shipment, ...prev]
+      );
+    };
+
+    // Shipment moves touch several rows, so reload the whole stock list
+    const handleInventoryUpdate = (data: { disaster_id: string }) => {
+      if (data.disaster_id !== disasterId) return;
+      fetchInventory().catch(error => console.error('Error fetching inventory:', error));
+    };
+
+    socket.on('shipments_updated', handleShipmentUpdate);
+    socket.on('inventory_updated', handleInventoryUpdate);
+    return () => {
+      socket.off('shipments_updated', handleShipmentUpdate);
+      socket.off('inventory_updated', handleInventoryUpdate);
+    };
+  }, [socket, disasterId, fetchInventory]);
+
+  const submitStockCount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disasterId}/resources/${stockCount.resource_id}/inventory/${stockCount.item}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer coordinator1'
+        },
+        body: JSON.stringify({
+          ...(stockCount.quantity !== '' && { quantity: Number(stockCount.quantity) }),
+          ...(stockCount.low_stock_threshold !== '' && { low_stock_threshold: Number(stockCount.low_stock_threshold) })
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update stock');
+      }
+
+      setStockCount(prev => ({ ...prev, quantity: '', low_stock_threshold: '' }));
+      await fetchInventory();
+    } catch (error) {
+      console.error('Error updating stock:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update stock');
+    }
+  };
+
+  const submitShipment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmittingShipment(true);
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disasterId}/shipments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer coordinator1'
+        },
+        body: JSON.stringify({
+          destination_resource_id: newShipment.destination_resource_id,
+          ...(newShipment.origin_resource_id
+            ? { origin_resource_id: newShipment.origin_resource_id }
+            : { donor_name: newShipment.donor_name }),
+          items: [{ item: newShipment.item, quantity: newShipment.quantity }]
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to request shipment');
+      }
+
+      // The socket update may arrive first
+      setShipments(prev => prev.some(s => s.id === result.id) ? prev : [result, ...prev]);
+      setNewShipment(prev => ({ ...prev, donor_name: '', quantity: 1 }));
+    } catch (error) {
+      console.error('Error requesting shipment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to request shipment');
+    } finally {
+      setSubmittingShipment(false);
+    }
+  };
+
+  const updateShipmentStatus = async (shipment: Shipment, status: Shipment['status']) => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disasterId}/shipments/${shipment.id}/status`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer coordinator1'
+        },
+        body: JSON.stringify({ status })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update shipment');
+      }
+
+      setShipments(prev => prev.map(s => s.id === result.id ? result : s));
+      await fetchInventory();
+    } catch (error) {
+      console.error('Error updating shipment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update shipment');
+    }
+  };
+
+  const itemLabel = (item: string) => supplyItems[item]?.label || item.replace(/_/g, ' ');
+
+  return (
+      <div className="space-y-6">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto"></div>
+            <p className="text-gray-600 mt-2">Loading logistics...</p>
+          </div>
+        ) : inventory.length === 0 ? (
+          <div className="text-center py-8">
+            <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No resources to stock yet</p>
+            <p className="text-gray-500 text-sm mt-1">Add shelters or depots under Resources to track their supplies</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <h4 className="font-medium text-gray-900">Stock</h4>
+              {inventory.map(resource => (
+                <div key={resource.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900">{resource.name}</span>
+                    <span className="text-xs text-gray-500 capitalize">{resource.type}</span>
+                  </div>
+                  {resource.inventory.length === 0 ? (
+                    <p className="text-xs text-gray-500 mt-2">No stock recorded</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {resource.inventory.map(stock => (
+                        <span
+                          key={stock.id}
+                          className={`px-2 py-1 text-xs rounded-full ${
+                            stock.low_stock ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'
+                          }`}
+                          title={stock.low_stock_threshold != null ? `Low at ${stock.low_stock_threshold}` : undefined}
+                        >
+                          {itemLabel(stock.item)}: {stock.quantity} {stock.unit}
+                          {stock.low_stock && ' · low'}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              <form onSubmit={submitStockCount} className="flex flex-wrap gap-2 items-center">
+                <select
+                  required
+                  value={stockCount.resource_id}
+                  onChange={(e) => setStockCount(prev => ({ ...prev, resource_id: e.target.value }))}
+                  className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                >
+                  <option value="">Resource...</option>
+                  {inventory.map(resource => (
+                    <option key={resource.id} value={resource.id}>{resource.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={stockCount.item}
+                  onChange={(e) => setStockCount(prev => ({ ...prev, item: e.target.value }))}
+                  className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                >
+                  {Object.entries(supplyItems).map(([name, item]) => (
+                    <option key={name} value={name}>{item.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  value={stockCount.quantity}
+                  onChange={(e) => setStockCount(prev => ({ ...prev, quantity: e.target.value }))}
+                  className="w-24 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                  placeholder="Count"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={stockCount.low_stock_threshold}
+                  onChange={(e) => setStockCount(prev => ({ ...prev, low_stock_threshold: e.target.value }))}
+                  className="w-28 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                  placeholder="Low at"
+                />
+                <button
+                  type="submit"
+                  disabled={!stockCount.resource_id || (stockCount.quantity === '' && stockCount.low_stock_threshold === '')}
+                  className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+                >
+                  Save Count
+                </button>
+              </form>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="font-medium text-gray-900">Shipments</h4>
+              <form onSubmit={submitShipment} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <div className="flex space-x-2">
+                  <select
+                    value={newShipment.origin_resource_id}
+                    onChange={(e) => setNewShipment(prev => ({ ...prev, origin_resource_id: e.target.value }))}
+                    className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                  >
+                    <option value="">From an external donor</option>
+                    {inventory.map(resource => (
+                      <option key={resource.id} value={resource.id}>From {resource.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    required
+                    value={newShipment.destination_resource_id}
+                    onChange={(e) => setNewShipment(prev => ({ ...prev, destination_resource_id: e.target.value }))}
+                    className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                  >
+                    <option value="">To...</option>
+                    {inventory
+                      .filter(resource => resource.id !== newShipment.origin_resource_id)
+                      .map(resource => (
+                        <option key={resource.id} value={resource.id}>To {resource.name}</option>
+                      ))}
+                  </select>
+                </div>
+                <div className="flex space-x-2">
+                  {!newShipment.origin_resource_id && (
+                    <input
+                      type="text"
+                      required
+                      value={newShipment.donor_name}
+                      onChange={(e) => setNewShipment(prev => ({ ...prev, donor_name: e.target.value }))}
+                      className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                      placeholder="Donor, e.g. County Food Bank"
+                    />
+                  )}
+                  <select
+                    value={newShipment.item}
+                    onChange={(e) => setNewShipment(prev => ({ ...prev, item: e.target.value }))}
+                    className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                  >
+                    {Object.entries(supplyItems).map(([name, item]) => (
+                      <option key={name} value={name}>{item.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={1}
+                    value={newShipment.quantity}
+                    onChange={(e) => setNewShipment(prev => ({ ...prev, quantity: parseInt(e.target.value) || 1 }))}
+                    className="w-24 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                    title="Quantity"
+                  />
+                  <button
+                    type="submit"
+                    disabled={submittingShipment || !newShipment.destination_resource_id}
+                    className="bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg text-sm transition-colors"
+                  >
+                    {submittingShipment ? 'Requesting...' : 'Request Shipment'}
+                  </button>
+                </div>
+              </form>
+
+              {shipments.length === 0 ? (
+                <p className="text-sm text-gray-500">No shipments yet</p>
+              ) : (
+                shipments.map(shipment => (
+                  <div key={shipment.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <p className="text-sm text-gray-900">
+                          {shipment.origin?.name || shipment.donor_name || 'Unknown origin'} → {shipment.destination.name}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {shipment.items.map(line => `${line.quantity} ${itemLabel(line.item)}`).join(', ')}
+                          {' · '}
+                          {new Date(shipment.created_at).toLocaleString()}
+                        </p>
+                      </div>
+                      <span className={`px-2 py-1 text-xs rounded-full ${
+                        shipment.status === 'delivered' ? 'bg-green-100 text-green-800' :
+                        shipment.status === 'dispatched' ? 'bg-blue-100 text-blue-800' :
+                        shipment.status === 'cancelled' ? 'bg-gray-100 text-gray-500' :
+                        'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {shipment.status}
+                      </span>
+                    </div>
+                    {(shipment.status === 'requested' || shipment.status === 'dispatched') && (
+                      <div className="flex space-x-2 mt-3">
+                        {shipment.status === 'requested' ? (
+                          <button
+                            onClick={() => updateShipmentStatus(shipment, 'dispatched')}
+                            className="bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                          >
+                            Dispatch
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => updateShipmentStatus(shipment, 'delivered')}
+                            className="bg-green-600 hover:bg-green-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                          >
+                            Mark Delivered
+                          </button>
+                        )}
+                        <button
+                          onClick={() => updateShipmentStatus(shipment, 'cancelled')}
+                          className="text-xs text-gray-500 hover:text-gray-700"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+  );
+};
+
+export default LogisticsTab;
@@ -0,0 +1,490 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Shield, Image, Lock, CheckCircle, XCircle, Clock, AlertTriangle } from 'lucide-react';
+import type { Socket } from 'socket.io-client';
+
+const API_BASE = 'http://localhost:3001/api';
+const CURRENT_USER = 'netrunnerX';
+const AUTH_HEADER = `Bearer ${CURRENT_USER}`;
+
+interface Claim {
+  user_id: string;
+  claimed_at: string;
+  expires_at: string;
+}
+
+interface HistoryEntry {
+  action?: string;
+  from?: string;
+  to?: string;
+  user_id: string;
+  reason?: string | null;
+  note?: string;
+  timestamp: string;
+}
+
+interface ModelVerdict {
+  status: string;
+  authenticity_score: number;
+  manipulation_detected: boolean;
+  context_match: boolean;
+  analysis_summary: string | null;
+  confidence_level: string | null;
+}
+
+interface VerificationDetails {
+  status?: string;
+  authenticity_score?: number | null;
+  flags?: string[];
+  model?: ModelVerdict | null;
+  verification_method?: string;
+  timestamp?: string;
+  signals?: {
+    image?: { content_type: string; bytes: number; width: number; height: number };
+    exif?: { present: boolean; captured_at: string | null; gps: { lat: number; lng: number } | null; device: string | null; software: string | null };
+    capture_time?: { status: string; captured_at?: string };
+    location?: { status: string; distance_meters?: number };
+    reuse?: { id: string; disaster_id: string; image_url: string | null; hash_distance: number }[];
+  };
+  status_history?: HistoryEntry[];
+  moderation_history?: HistoryEntry[];
+}
+
+interface QueueReport {
+  id: string;
+  disaster_id: string;
+  user_id: string;
+  content: string;
+  image_url?: string | null;
+  verification_status: 'pending' | 'verified' | 'suspicious' | 'fake';
+  verification_details?: VerificationDetails | null;
+  priority?: string | null;
+  created_at: string;
+  // Missing on reports pushed straight from submissions and verifications
+  claim?: Claim | null;
+  disaster?: { id: string; title: string; location_name?: string | null };
+  history?: HistoryEntry[];
+}
+
+interface ModerationEvent {
+  action: 'queued' | 'verification' | 'claim' | 'approve' | 'reject' | 'status_change';
+  user_id: string;
+  report: QueueReport;
+}
+
+interface ModerationQueueProps {
+  socket?: Socket | null;
+}
+
+const QUEUE_STATUSES = ['pending', 'suspicious'];
+
+// Shown when another moderator acts on the open report
+const ACTION_LABELS: Partial<Record<ModerationEvent['action'], string>> = {
+  claim: 'claimed',
+  approve: 'approved',
+  reject: 'rejected',
+  status_change: 'changed the status of'
+};
+
+const FLAG_LABELS: Record<string, string> = {
+  reused_image: 'Image seen in another report',
+  captured_before_disaster: 'Taken before the disaster',
+  capture_time_in_future: 'Capture time in the future',
+  far_from_disaster: 'Taken far from the disaster',
+  edited: 'Edited with photo software'
+};
+
+const matchesClaimFilter = (claim: Claim | null | undefined, filter: string) => {
+  if (filter === 'unclaimed') return !claim;
+  if (filter === 'mine') return claim?.user_id === CURRENT_USER;
+  if (filter === 'others') return !!claim && claim.user_id !== CURRENT_USER;
+  return true;
+};
+
+const ModerationQueue: React.FC<ModerationQueueProps> = ({ socket }) => {
+  const [reports, setReports] = useState<QueueReport[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [claimedFilter, setClaimedFilter] = useState('any');
+  const [selected, setSelected] = useState<QueueReport | null>(null);
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams({ limit: '20', claimed: claimedFilter });
+    if (statusFilter) params.set('status', statusFilter);
+    if (cursor) params.set('cursor', cursor);
+
+    try {
+      const response = await fetch(`${API_BASE}/moderation/queue?${params}`, {
+        headers: { 'Authorization': AUTH_HEADER }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load the moderation queue');
+      }
+
+      setReports(prev => cursor
+        ? [...prev, ...data.reports.filter((r: QueueReport) => !prev.some(p => p.id === r.id))]
+        : data.reports
+      );
+      setNextCursor(data.next_cursor);
+      setTotal(data.total);
+    } catch (error) {
+      console.error('Error fetching moderation queue:', error);
+      alert(error instanceof Error ? error.message : 'Failed to load the moderation queue');
+    }
+  }, [statusFilter, claimedFilter]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const openReport = async (reportId: string) => {
+    try {
+      const response = await fetch(`${API_BASE}/moderation/reports/${reportId}`, {
+        headers: { 'Authorization': AUTH_HEADER }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load report');
+      }
+      setSelected(data);
+      setReason('');
+      setNotice(null);
+    } catch (error) {
+      console.error('Error fetching report:', error);
+      alert(error instanceof Error ? error.message : 'Failed to load report');
+    }
+  };
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleDenied = (data: { error: string }) => setNotice(`Live updates unavailable: ${data.error}`);
+
+    socket.on('moderators_denied', handleDenied);
+    socket.emit('join_moderators');
+    return () => {
+      socket.off('moderators_denied', handleDenied);
+      socket.emit('leave_moderators');
+    };
+  }, [socket]);
+
+  // Other moderators' claims and decisions arrive here as they happen
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleModerationUpdate = (event: ModerationEvent) => {
+      const { report } = event;
+      const current = reports.find(r => r.id === report.id);
+      const listed = !!current;
+      // Reports from new submissions and verifications carry no claim; keep the one we know
+      const claim = ('claim' in report ? report.claim : current?.claim) ?? null;
+      const inQueue = QUEUE_STATUSES.includes(report.verification_status) &&
+        (!statusFilter || statusFilter === report.verification_status) &&
+        matchesClaimFilter(claim, claimedFilter);
+
+      if (listed && !inQueue) {
+        setReports(prev => prev.filter(r => r.id !== report.id));
+        setTotal(prev => Math.max(prev - 1, 0));
+      } else if (listed) {
+        setReports(prev => prev.map(r => r.id === report.id ? { ...r, ...report, disaster: report.disaster || r.disaster } : r));
+      } else if (event.action === 'queued' && inQueue) {
+        // The queue is oldest first, so a new report only shows once the list is fully loaded
+        if (!nextCursor) setReports(prev => [...prev, report]);
+        setTotal(prev => prev + 1);
+      }
+
+      if (selected?.id === report.id) {
+        setSelected({ ...selected, ...report, disaster: report.disaster || selected.disaster, history: selected.history });
+        if (event.user_id !== CURRENT_USER && ACTION_LABELS[event.action]) {
+          setNotice(`${event.user_id} ${ACTION_LABELS[event.action]} this report`);
+        }
+      }
+    };
+
+    socket.on('moderation_updated', handleModerationUpdate);
+
+    return () => {
+      socket.off('moderation_updated', handleModerationUpdate);
+    };
+  }, [socket, statusFilter, claimedFilter, nextCursor, reports, selected]);
+
+  const act = async (action: 'claim' | 'approve' | 'reject') => {
+    if (!selected) return;
+    if (action === 'reject' && !reason.trim()) {
+      alert('Enter a reason to reject the report');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const response = await fetch(`${API_BASE}/moderation/reports/${selected.id}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': AUTH_HEADER
+        },
+        body: JSON.stringify(action === 'claim' ? {} : { reason: reason.trim() || undefined })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} report`);
+      }
+
+      if (action === 'claim') {
+        setSelected(prev => prev && { ...prev, ...data, history: prev.history });
+        setReports(prev => prev.map(r => r.id === data.id ? { ...r, ...data } : r));
+      } else {
+        setReports(prev => prev.filter(r => r.id !== data.id));
+        setTotal(prev => Math.max(prev - 1, 0));
+        setSelected(null);
+        setReason('');
+      }
+    } catch (error) {
+      console.error(`Error trying to ${action} report:`, error);
+      alert(error instanceof Error ? error.message : `Failed to ${action} report`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const details = selected?.verification_details || {};
+  const signals = details.signals || {};
+  const history = selected ? [
+    ...(details.moderation_history || []).map(entry => ({ ...entry, source: 'moderation' })),
+    ...(selected.history || []).map(entry => ({ ...entry, source: 'audit' }))
+  ].sort((a, b) => b.timestamp.localeCompare(a.timestamp)) : [];
+  const claimedByOther = !!selected?.claim && selected.claim.user_id !== CURRENT_USER;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <Shield className="h-5 w-5 text-red-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Moderation Queue</h2>
+          <span className="text-sm text-gray-500">{total} report{total === 1 ? '' : 's'} waiting</span>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="border border-gray-300 rounded-md px-2 py-1"
+          >
+            <option value="">Pending and suspicious</option>
+            <option value="suspicious">Suspicious</option>
+            <option value="pending">Pending</option>
+          </select>
+          <select
+            value={claimedFilter}
+            onChange={(e) => setClaimedFilter(e.target.value)}
+            className="border border-gray-300 rounded-md px-2 py-1"
+          >
+            <option value="any">All claims</option>
+            <option value="unclaimed">Unclaimed</option>
+            <option value="mine">Claimed by me</option>
+            <option value="others">Claimed by others</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {reports.length === 0 ? (
+            <div className="p-8 text-center">
+              <CheckCircle className="h-10 w-10 text-green-400 mx-auto mb-3" />
+              <p className="text-gray-600">Nothing to review</p>
+            </div>
+          ) : (
+            reports.map(report => (
+              <button
+                key={report.id}
+                onClick={() => openReport(report.id)}
+                className={`w-full text-left p-3 hover:bg-gray-50 ${selected?.id === report.id ? 'bg-red-50' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${
+                    report.verification_status === 'suspicious' ? 'bg-orange-100 text-orange-800' : 'bg-gray-100 text-gray-800'
+                  }`}>
+                    {report.verification_status}
+                  </span>
+                  {report.claim && (
+                    <span className="flex items-center text-xs text-gray-500">
+                      <Lock className="h-3 w-3 mr-1" />
+                      {report.claim.user_id}
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-sm text-gray-900 line-clamp-2">{report.content}</p>
+                <div className="mt-1 flex items-center space-x-2 text-xs text-gray-500">
+                  <span>{report.disaster?.title}</span>
+                  {report.image_url && <Image className="h-3 w-3" />}
+                  {(report.verification_details?.flags?.length || 0) > 0 && (
+                    <span className="flex items-center text-orange-600">
+                      <AlertTriangle className="h-3 w-3 mr-0.5" />
+                      {report.verification_details?.flags?.length}
+                    </span>
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+          {nextCursor && (
+            <button
+              onClick={() => fetchQueue(nextCursor)}
+              className="w-full p-3 text-sm text-blue-600 hover:text-blue-800"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          {!selected ? (
+            <p className="text-gray-500 text-center py-12">Select a report to review it</p>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <p className="text-gray-900">{selected.content}</p>
+                <p className="mt-1 text-xs text-gray-500">
+                  @{selected.user_id} on {selected.disaster?.title} · {new Date(selected.created_at).toLocaleString()}
+                </p>
+                {notice && <p className="mt-2 text-sm text-orange-700">{notice}</p>}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {/* Image */}
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Image</h3>
+                  {selected.image_url ? (
+                    <a href={selected.image_url} target="_blank" rel="noopener noreferrer">
+                      <img src={selected.image_url} alt="Report" className="w-full rounded border border-gray-200" />
+                    </a>
+                  ) : (
+                    <p className="text-sm text-gray-500">No image</p>
+                  )}
+                  {signals.image && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {signals.image.width}×{signals.image.height} {signals.image.content_type}, {Math.round(signals.image.bytes / 1024)} KB
+                    </p>
+                  )}
+                </div>
+
+                {/* AI analysis and signals */}
+                <div className="text-sm space-y-2">
+                  <h3 className="font-medium text-gray-700">Analysis</h3>
+                  {!details.verification_method ? (
+                    <p className="text-gray-500">Not analyzed yet</p>
+                  ) : (
+                    <>
+                      <p>
+                        Score: {details.authenticity_score ?? 'n/a'}{details.authenticity_score != null && '/100'}
+                        <span className="text-xs text-gray-500"> ({details.verification_method})</span>
+                      </p>
+                      {(details.flags || []).length > 0 ? (
+                        <ul className="space-y-1">
+                          {(details.flags || []).map(flag => (
+                            <li key={flag} className="flex items-center text-orange-700">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              {FLAG_LABELS[flag] || flag}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-green-700">No flags raised</p>
+                      )}
+                      {details.model?.analysis_summary && (
+                        <p className="text-gray-700">{details.model.analysis_summary}</p>
+                      )}
+                      <dl className="text-xs text-gray-600 space-y-0.5">
+                        <div>Captured: {signals.exif?.captured_at ? new Date(signals.exif.captured_at).toLocaleString() : 'unknown'}</div>
+                        <div>
+                          GPS: {signals.location?.distance_meters != null
+                            ? `${(signals.location.distance_meters / 1000).toFixed(1)} km from disaster`
+                            : 'none'}
+                        </div>
+                        {signals.exif?.device && <div>Device: {signals.exif.device}</div>}
+                        {signals.exif?.software && <div>Software: {signals.exif.software}</div>}
+                        {(signals.reuse || []).map(match => (
+                          <div key={match.id}>Same image as report {match.id.slice(0, 8)} ({match.hash_distance} bits apart)</div>
+                        ))}
+                      </dl>
+                    </>
+                  )}
+                </div>
+
+                {/* History */}
+                <div className="text-sm">
+                  <h3 className="font-medium text-gray-700 mb-2">History</h3>
+                  {history.length === 0 ? (
+                    <p className="text-gray-500">No history</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {history.map((entry, index) => (
+                        <li key={`${entry.source}-${entry.timestamp}-${index}`} className="flex items-start space-x-1 text-xs text-gray-600">
+                          <Clock className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                          <span>
+                            <span className="font-medium text-gray-800">{entry.action}</span> by {entry.user_id}
+                            {entry.source === 'audit' && entry.from !== undefined && ` (${entry.from} → ${entry.to})`}
+                            {(entry.reason || entry.note) && `: ${entry.reason || entry.note}`}
+                            <br />
+                            {new Date(entry.timestamp).toLocaleString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+
+              <div className="border-t border-gray-200 pt-4 space-y-2">
+                {selected.claim && (
+                  <p className="text-xs text-gray-500">
+                    Claimed by {selected.claim.user_id} until {new Date(selected.claim.expires_at).toLocaleTimeString()}
+                  </p>
+                )}
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Reason (required to reject)"
+                  rows={2}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => act('claim')}
+                    disabled={busy || claimedByOther}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex items-center"
+                  >
+                    <Lock className="h-4 w-4 mr-1" />
+                    {selected.claim?.user_id === CURRENT_USER ? 'Renew claim' : 'Claim'}
+                  </button>
+                  <button
+                    onClick={() => act('approve')}
+                    disabled={busy || claimedByOther}
+                    className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => act('reject')}
+                    disabled={busy || claimedByOther}
+                    className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 flex items-center"
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModerationQueue;
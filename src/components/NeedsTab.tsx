@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { MapPin, ClipboardList } from 'lucide-react';
+
+interface NeedMatch {
+  resource_id: string;
+  disaster_id: string;
+  name: string;
+  location_name?: string;
+  distance_meters: number | null;
+  spare_capacity: number | null;
+}
+
+interface Need {
+  id: string;
+  category: string;
+  quantity: number;
+  urgency: 'low' | 'medium' | 'high' | 'critical';
+  description?: string;
+  location_name?: string;
+  source_type: 'manual' | 'report' | 'social_post';
+  status: 'open' | 'fulfilled' | 'cancelled';
+  created_at: string;
+  matches?: NeedMatch[];
+}
+
+interface NeedsTabProps {
+  disasterId: string;
+  // Needs are recorded against resource types
+  categories: { name: string; label: string }[];
+}
+
+const NeedsTab: React.FC<NeedsTabProps> = ({ disasterId, categories }) => {
+  const [needs, setNeeds] = useState<Need[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newNeed, setNewNeed] = useState({ category: 'food', quantity: 1, urgency: 'medium', description: '' });
+  const [submittingNeed, setSubmittingNeed] = useState(false);
+
+  const fetchNeeds = useCallback(async () => {
+    try {
+      const needsRes = await fetch(`http://localhost:3001/api/disasters/${disasterId}/needs`);
+      if (needsRes.ok) {
+        const needsData = await needsRes.json();
+        setNeeds(needsData.needs);
+      }
+    } catch (error) {
+      console.error('Error fetching needs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [disasterId]);
+
+  useEffect(() => {
+    fetchNeeds();
+  }, [fetchNeeds]);
+
+  const submitNeed = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmittingNeed(true);
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disasterId}/needs`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer citizen1' // Mock auth
+        },
+        body: JSON.stringify({
+          category: newNeed.category,
+          quantity: newNeed.quantity,
+          urgency: newNeed.urgency,
+          ...(newNeed.description.trim() && { description: newNeed.description.trim() })
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to record need');
+      }
+
+      setNewNeed(prev => ({ ...prev, quantity: 1, description: '' }));
+      // Refetch so the new needs come back with match suggestions
+      await fetchNeeds();
+    } catch (error) {
+      console.error('Error recording need:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record need');
+    } finally {
+      setSubmittingNeed(false);
+    }
+  };
+
+  const acceptMatch = async (need: Need, match: NeedMatch) => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disasterId}/needs/${need.id}/accept`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer netrunnerX'
+        },
+        body: JSON.stringify({ resource_id: match.resource_id })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to assign resource');
+      }
+
+      setNeeds(prev => prev.filter(n => n.id !== need.id));
+    } catch (error) {
+      console.error('Error assigning resource:', error);
+      alert(error instanceof Error ? error.message : 'Failed to assign resource');
+    }
+  };
+
+  const cancelNeed = async (need: Need) => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disasterId}/needs/${need.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer netrunnerX'
+        },
+        body: JSON.stringify({ status: 'cancelled' })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to cancel need');
+      }
+
+      setNeeds(prev => prev.filter(n => n.id !== need.id));
+    } catch (error) {
+      console.error('Error cancelling need:', error);
+      alert(error instanceof Error ? error.message : 'Failed to cancel need');
+    }
+  };
+
+  return (
+      <div className="space-y-4">
+        <form onSubmit={submitNeed} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="flex space-x-2">
+            <select
+              value={newNeed.category}
+              onChange={(e) => setNewNeed(prev => ({ ...prev, category: e.target.value }))}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              {categories.map(category => (
+                <option key={category.name} value={category.name}>{category.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={newNeed.quantity}
+              onChange={(e) => setNewNeed(prev => ({ ...prev, quantity: Math.max(1, parseInt(e.target.value) || 1) }))}
+              className="w-24 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              title="Quantity"
+            />
+            <select
+              value={newNeed.urgency}
+              onChange={(e) => setNewNeed(prev => ({ ...prev, urgency: e.target.value }))}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+              <option value="critical">Critical</option>
+            </select>
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={newNeed.description}
+              onChange={(e) => setNewNeed(prev => ({ ...prev, description: e.target.value }))}
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              placeholder="Who needs what, and where (optional)"
+            />
+            <button
+              type="submit"
+              disabled={submittingNeed}
+              className="bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg text-sm transition-colors"
+            >
+              {submittingNeed ? 'Saving...' : 'Record Need'}
+            </button>
+          </div>
+        </form>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto"></div>
+            <p className="text-gray-600 mt-2">Loading needs...</p>
+          </div>
+        ) : needs.length === 0 ? (
+          <div className="text-center py-8">
+            <ClipboardList className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No open needs</p>
+            <p className="text-gray-500 text-sm mt-1">Record needs here or log them from field reports</p>
+          </div>
+        ) : (
+          needs.map(need => (
+            <div key={need.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <h4 className="font-medium text-gray-900 capitalize">{need.category} &times; {need.quantity}</h4>
+                  {need.description && <p className="text-sm text-gray-600 mt-1">{need.description}</p>}
+                  <div className="flex items-center mt-2 space-x-4 text-xs text-gray-500">
+                    {need.location_name && (
+                      <span className="flex items-center">
+                        <MapPin className="h-3 w-3 mr-1" />
+                        {need.location_name}
+                      </span>
+                    )}
+                    <span>{need.source_type === 'manual' ? 'Recorded' : `From ${need.source_type.replace('_', ' ')}`}</span>
+                    <span>{new Date(need.created_at).toLocaleString()}</span>
+                  </div>
+                </div>
+                <div className="flex flex-col items-end space-y-2">
+                  <span className={`px-2 py-1 text-xs rounded-full ${
+                    need.urgency === 'critical' ? 'bg-red-100 text-red-800' :
+                    need.urgency === 'high' ? 'bg-orange-100 text-orange-800' :
+                    need.urgency === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+                    'bg-gray-100 text-gray-800'
+                  }`}>
+                    {need.urgency}
+                  </span>
+                  <button
+                    onClick={() => cancelNeed(need)}
+                    className="text-xs text-gray-500 hover:text-gray-700"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+              <div className="mt-3 border-t border-gray-100 pt-3">
+                {need.matches && need.matches.length > 0 ? (
+                  <ul className="space-y-2">
+                    {need.matches.map(match => (
+                      <li key={match.resource_id} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-700">
+                          {match.name}
+                          <span className="text-xs text-gray-500 ml-2">
+                            {match.distance_meters !== null && `${(match.distance_meters / 1000).toFixed(1)} km · `}
+                            {match.spare_capacity === null ? 'no capacity limit' : `${match.spare_capacity} places left`}
+                          </span>
+                        </span>
+                        <button
+                          onClick={() => acceptMatch(need, match)}
+                          className="bg-green-600 hover:bg-green-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                        >
+                          Assign
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-gray-500">No {need.category} resource nearby has room for {need.quantity}</p>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+  );
+};
+
+export default NeedsTab;
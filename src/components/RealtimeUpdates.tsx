@@ -1,5 +1,5 @@
 import React from 'react';
-import { Radio, Clock, AlertTriangle, MapPin, Users, MessageCircle } from 'lucide-react';
+import { Radio, Clock, AlertTriangle, MapPin, Users, MessageCircle, Package, Landmark } from 'lucide-react';
 
 interface RealtimeUpdate {
   type: string;
@@ -21,6 +21,14 @@ const RealtimeUpdates: React.FC<RealtimeUpdatesProps> = ({ updates }) => {
         return <MessageCircle className="h-4 w-4 text-blue-600" />;
       case 'resources':
         return <MapPin className="h-4 w-4 text-green-600" />;
+      case 'reports':
+        return <Users className="h-4 w-4 text-yellow-600" />;
+      case 'priority_alert':
+        return <AlertTriangle className="h-4 w-4 text-red-600" />;
+      case 'low_stock':
+        return <Package className="h-4 w-4 text-orange-600" />;
+      case 'official_update':
+        return <Landmark className="h-4 w-4 text-indigo-600" />;
       default:
         return <Radio className="h-4 w-4 text-gray-600" />;
     }
@@ -34,6 +42,14 @@ const RealtimeUpdates: React.FC<RealtimeUpdatesProps> = ({ updates }) => {
         return 'border-blue-200 bg-blue-50';
       case 'resources':
         return 'border-green-200 bg-green-50';
+      case 'reports':
+        return 'border-yellow-200 bg-yellow-50';
+      case 'priority_alert':
+        return 'border-red-300 bg-red-50';
+      case 'low_stock':
+        return 'border-orange-200 bg-orange-50';
+      case 'official_update':
+        return 'border-indigo-200 bg-indigo-50';
       default:
         return 'border-gray-200 bg-gray-50';
     }
@@ -47,6 +63,16 @@ const RealtimeUpdates: React.FC<RealtimeUpdatesProps> = ({ updates }) => {
         return `${update.data.posts?.length || 0} new social media reports`;
       case 'resources':
         return `Resource ${update.action}: ${update.data.resource?.name || 'Unknown'}`;
+      case 'reports':
+        return update.action === 'status_change'
+          ? `Report marked ${update.data.report?.verification_status}`
+          : 'New field report submitted';
+      case 'priority_alert':
+        return `${update.data.priority === 'urgent' ? 'Urgent' : 'High priority'}: ${update.data.content}`;
+      case 'low_stock':
+        return `Low stock at ${update.data.resource_name}: ${update.data.quantity} ${update.data.unit} of ${update.data.label}`;
+      case 'official_update':
+        return `${update.data.source}: ${update.data.title}`;
       default:
         return 'System update';
     }
@@ -113,10 +139,23 @@ const RealtimeUpdates: React.FC<RealtimeUpdatesProps> = ({ updates }) => {
                   </div>
                 )}
                 
+                {update.type === 'official_update' && (
+                  <div className="mt-2 pl-7 flex items-center space-x-2 text-xs text-gray-600">
+                    <span className={`px-2 py-0.5 rounded-full ${
+                      update.data.priority === 'urgent' ? 'bg-red-100 text-red-800' :
+                      update.data.priority === 'high' ? 'bg-orange-100 text-orange-800' :
+                      'bg-blue-100 text-blue-800'
+                    }`}>
+                      {update.data.priority}
+                    </span>
+                    {update.data.area_desc && <span className="truncate">{update.data.area_desc}</span>}
+                  </div>
+                )}
+                
                 {update.type === 'social_media' && update.data.posts && update.data.posts.length > 0 && (
                   <div className="mt-2 pl-7">
                     <div className="text-xs text-gray-600 truncate">
-                      Latest: "{update.data.posts[0]?.post || 'No content'}"
+                      Latest: "{update.data.posts[0]?.content || 'No content'}"
                     </div>
                   </div>
                 )}
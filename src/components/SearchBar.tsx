@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Search, X, AlertTriangle, Users, MapPin } from 'lucide-react';
+
+interface SearchResult {
+  entity: 'disaster' | 'report' | 'resource';
+  id: string;
+  disaster_id: string;
+  disaster_title: string;
+  title: string | null;
+  snippet: string;
+  rank: number;
+}
+
+interface SearchResponse {
+  total: number;
+  results: {
+    disasters: SearchResult[];
+    reports: SearchResult[];
+    resources: SearchResult[];
+  };
+}
+
+interface SearchBarProps {
+  onSelect: (disasterId: string) => void;
+}
+
+const GROUPS: { key: keyof SearchResponse['results']; label: string; icon: React.ReactNode }[] = [
+  { key: 'disasters', label: 'Disasters', icon: <AlertTriangle className="h-4 w-4 text-red-600" /> },
+  { key: 'reports', label: 'Reports', icon: <Users className="h-4 w-4 text-yellow-600" /> },
+  { key: 'resources', label: 'Resources', icon: <MapPin className="h-4 w-4 text-green-600" /> }
+];
+
+// Render the <mark> tags from the search API as highlights, everything else as text
+const renderHighlighted = (text: string) =>
+  text.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+    part.startsWith('<mark>') && part.endsWith('</mark>')
+      ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{part.slice(6, -7)}</mark>
+      : <React.Fragment key={index}>{part}</React.Fragment>
+  );
+
+const SearchBar: React.FC<SearchBarProps> = ({ onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Search after a short pause in typing
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < 2) {
+      setResponse(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`http://localhost:3001/api/search?q=${encodeURIComponent(q)}`);
+        if (res.ok) {
+          setResponse(await res.json());
+          setOpen(true);
+        }
+      } catch (error) {
+        console.error('Error searching:', error);
+      } finally {
+        setLoading(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const selectResult = (result: SearchResult) => {
+    onSelect(result.disaster_id);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-80">
+      <div className="relative">
+        <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onFocus={() => response && setOpen(true)}
+          placeholder="Search disasters, reports, resources..."
+          className="w-full border border-gray-300 rounded-lg pl-9 pr-8 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+        />
+        {query && (
+          <button
+            onClick={() => { setQuery(''); setResponse(null); }}
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {open && response && (
+        <div className="absolute z-40 mt-2 w-[28rem] right-0 bg-white rounded-lg shadow-lg border border-gray-200 max-h-[70vh] overflow-y-auto">
+          {response.total === 0 ? (
+            <p className="p-4 text-sm text-gray-500">{loading ? 'Searching...' : 'No matches found'}</p>
+          ) : (
+            GROUPS.filter(group => response.results[group.key].length > 0).map(group => (
+              <div key={group.key} className="border-b border-gray-100 last:border-b-0">
+                <div className="flex items-center space-x-2 px-4 pt-3 pb-1 text-xs font-medium text-gray-500 uppercase">
+                  {group.icon}
+                  <span>{group.label}</span>
+                </div>
+                {response.results[group.key].map(result => (
+                  <button
+                    key={result.id}
+                    onClick={() => selectResult(result)}
+                    className="block w-full text-left px-4 py-2 hover:bg-gray-50"
+                  >
+                    <p className="text-sm font-medium text-gray-900">
+                      {result.title ? renderHighlighted(result.title) : result.disaster_title}
+                    </p>
+                    {result.snippet && (
+                      <p className="text-xs text-gray-600 line-clamp-2">{renderHighlighted(result.snippet)}</p>
+                    )}
+                    {result.entity !== 'disaster' && (
+                      <p className="text-xs text-gray-400 mt-0.5">in {result.disaster_title}</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+
+export interface SocialPostFeature {
+  type: 'Feature';
+  id: string;
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: {
+    id: string;
+    platform: string;
+    author: string | null;
+    content: string;
+    url: string | null;
+    priority: 'low' | 'medium' | 'high' | 'urgent';
+    location_name: string | null;
+    posted_at: string;
+    distance_meters: number | null;
+  };
+}
+
+interface SocialPostMapProps {
+  features: SocialPostFeature[];
+  center?: { lat: number; lng: number } | null;
+}
+
+interface Cluster {
+  x: number;
+  y: number;
+  features: SocialPostFeature[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 360;
+const PADDING = 30;
+// Pins closer than this many pixels are drawn as one cluster
+const CLUSTER_CELL = 40;
+
+const PRIORITY_ORDER = ['urgent', 'high', 'medium', 'low'];
+const PRIORITY_COLORS: Record<string, string> = {
+  urgent: '#ef4444',
+  high: '#f97316',
+  medium: '#3b82f6',
+  low: '#6b7280'
+};
+
+// Project every point into the plot, keeping the aspect ratio of the
+// lat/lng extent, and group them on a pixel grid. A cluster is colored by its
+// most urgent post.
+const clusterFeatures = (features: SocialPostFeature[], center?: { lat: number; lng: number } | null) => {
+  const lngs = features.map(f => f.geometry.coordinates[0]).concat(center ? [center.lng] : []);
+  const lats = features.map(f => f.geometry.coordinates[1]).concat(center ? [center.lat] : []);
+  const minLng = Math.min(...lngs);
+  const minLat = Math.min(...lats);
+  const spanLng = Math.max(Math.max(...lngs) - minLng, 0.01);
+  const spanLat = Math.max(Math.max(...lats) - minLat, 0.01);
+  const scale = Math.min((WIDTH - 2 * PADDING) / spanLng, (HEIGHT - 2 * PADDING) / spanLat);
+
+  const project = (lng: number, lat: number) => ({
+    x: PADDING + (lng - minLng) * scale,
+    y: HEIGHT - PADDING - (lat - minLat) * scale
+  });
+
+  const cells = new Map<string, Cluster>();
+  for (const feature of features) {
+    const { x, y } = project(feature.geometry.coordinates[0], feature.geometry.coordinates[1]);
+    const key = `${Math.floor(x / CLUSTER_CELL)}:${Math.floor(y / CLUSTER_CELL)}`;
+    const cluster = cells.get(key) || { x: 0, y: 0, features: [] };
+    cluster.x = (cluster.x * cluster.features.length + x) / (cluster.features.length + 1);
+    cluster.y = (cluster.y * cluster.features.length + y) / (cluster.features.length + 1);
+    cluster.features.push(feature);
+    cells.set(key, cluster);
+  }
+
+  return {
+    clusters: [...cells.values()],
+    centerPoint: center ? project(center.lng, center.lat) : null
+  };
+};
+
+const topPriority = (cluster: Cluster) =>
+  PRIORITY_ORDER.find(priority => cluster.features.some(f => f.properties.priority === priority)) || 'medium';
+
+const SocialPostMap: React.FC<SocialPostMapProps> = ({ features, center }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (features.length === 0) {
+    return <p className="text-center text-gray-600 py-8">No geolocated posts yet</p>;
+  }
+
+  const { clusters, centerPoint } = clusterFeatures(features, center);
+  const selected = clusters.find(cluster => cluster.features[0].id === selectedId);
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full border border-gray-200 rounded-lg bg-slate-50">
+        {centerPoint && (
+          <g>
+            <line x1={centerPoint.x - 8} y1={centerPoint.y} x2={centerPoint.x + 8} y2={centerPoint.y} stroke="#111827" strokeWidth={2} />
+            <line x1={centerPoint.x} y1={centerPoint.y - 8} x2={centerPoint.x} y2={centerPoint.y + 8} stroke="#111827" strokeWidth={2} />
+          </g>
+        )}
+        {clusters.map(cluster => {
+          const radius = Math.min(8 + 3 * Math.sqrt(cluster.features.length), 22);
+          return (
+            <g
+              key={cluster.features[0].id}
+              onClick={() => setSelectedId(cluster.features[0].id)}
+              className="cursor-pointer"
+            >
+              <circle
+                cx={cluster.x}
+                cy={cluster.y}
+                r={radius}
+                fill={PRIORITY_COLORS[topPriority(cluster)]}
+                fillOpacity={0.8}
+                stroke={selected === cluster ? '#111827' : 'white'}
+                strokeWidth={2}
+              />
+              {cluster.features.length > 1 && (
+                <text x={cluster.x} y={cluster.y + 4} textAnchor="middle" fontSize={12} fill="white" fontWeight="bold">
+                  {cluster.features.length}
+                </text>
+              )}
+              <title>{cluster.features.map(f => f.properties.location_name).filter(Boolean).join(', ')}</title>
+            </g>
+          );
+        })}
+      </svg>
+      <p className="text-xs text-gray-500">
+        + marks the disaster location. Click a pin to list its posts.
+      </p>
+
+      {selected && (
+        <div className="space-y-2">
+          {selected.features.map(feature => (
+            <div key={feature.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+              <p className="text-gray-900">{feature.properties.content}</p>
+              <div className="flex items-center mt-1 space-x-3 text-xs text-gray-500">
+                {feature.properties.location_name && <span>{feature.properties.location_name}</span>}
+                {feature.properties.distance_meters !== null && (
+                  <span>{(feature.properties.distance_meters / 1000).toFixed(1)} km away</span>
+                )}
+                <span>{feature.properties.platform}</span>
+                <span>{new Date(feature.properties.posted_at).toLocaleString()}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SocialPostMap;
@@ -0,0 +1,362 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { MapPin, ListChecks } from 'lucide-react';
+import type { Socket } from 'socket.io-client';
+
+interface Responder {
+  id: string;
+  name: string;
+  skills: string[];
+  availability: 'available' | 'busy' | 'off_duty';
+  missing_skills?: string[];
+  distance_meters?: number | null;
+}
+
+interface Task {
+  id: string;
+  title: string;
+  description?: string;
+  location_name?: string;
+  required_skills: string[];
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  status: 'open' | 'assigned' | 'in_progress' | 'completed' | 'cancelled';
+  responder: Responder | null;
+  created_at: string;
+}
+
+const RESPONDER_SKILLS = [
+  'first_aid', 'medical', 'search_and_rescue', 'driving', 'boat_operation', 'logistics',
+  'construction', 'communications', 'translation', 'counseling', 'cooking', 'childcare'
+];
+
+interface TasksTabProps {
+  disasterId: string;
+  socket?: Socket | null;
+}
+
+const TasksTab: React.FC<TasksTabProps> = ({ disasterId, socket }) => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newTask, setNewTask] = useState({ title: '', location_name: '', priority: 'medium', required_skills: [] as string[] });
+  const [submittingTask, setSubmittingTask] = useState(false);
+  const [candidates, setCandidates] = useState<{ taskId: string; responders: Responder[] } | null>(null);
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      const tasksRes = await fetch(`http://localhost:3001/api/disasters/${disasterId}/tasks`);
+      if (tasksRes.ok) {
+        const tasksData = await tasksRes.json();
+        setTasks(tasksData.tasks);
+      }
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [disasterId]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  // Task changes are pushed to this disaster's room
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleTaskUpdate = (data: { disaster_id: string; task: Task }) => {
+      if (data.disaster_id !== disasterId) return;
+      setTasks(prev => prev.some(t => t.id === data.task.id)
+        ? prev.map(t => t.id === data.task.id ? data.task : t)
+        : [data.task, ...prev]
+      );
+    };
+
+    socket.on('tasks_updated', handleTaskUpdate);
+    return () => {
+      socket.off('tasks_updated', handleTaskUpdate);
+    };
+  }, [socket, disasterId]);
+
+  const submitTask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmittingTask(true);
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disasterId}/tasks`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer coordinator1'
+        },
+        body: JSON.stringify(newTask)
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create task');
+      }
+
+      // The socket update may arrive first
+      setTasks(prev => prev.some(t => t.id === result.id) ? prev : [result, ...prev]);
+      setNewTask({ title: '', location_name: '', priority: 'medium', required_skills: [] });
+    } catch (error) {
+      console.error('Error creating task:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create task');
+    } finally {
+      setSubmittingTask(false);
+    }
+  };
+
+  const toggleTaskSkill = (skill: string) => {
+    setNewTask(prev => ({
+      ...prev,
+      required_skills: prev.required_skills.includes(skill)
+        ? prev.required_skills.filter(s => s !== skill)
+        : [...prev.required_skills, skill]
+    }));
+  };
+
+  const showCandidates = async (task: Task) => {
+    if (candidates?.taskId === task.id) {
+      setCandidates(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disasterId}/tasks/${task.id}/candidates`, {
+        headers: { 'Authorization': 'Bearer coordinator1' }
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load responders');
+      }
+      setCandidates({ taskId: task.id, responders: result.candidates });
+    } catch (error) {
+      console.error('Error loading responders:', error);
+      alert(error instanceof Error ? error.message : 'Failed to load responders');
+    }
+  };
+
+  const assignTask = async (task: Task, responder: Responder) => {
+    const force = (responder.missing_skills?.length ?? 0) > 0;
+    if (force && !confirm(`${responder.name} is missing: ${responder.missing_skills?.join(', ')}. Assign anyway?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disasterId}/tasks/${task.id}/assign`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer coordinator1'
+        },
+        body: JSON.stringify({ responder_id: responder.id, force })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to assign task');
+      }
+
+      setTasks(prev => prev.map(t => t.id === result.id ? result : t));
+      setCandidates(null);
+    } catch (error) {
+      console.error('Error assigning task:', error);
+      alert(error instanceof Error ? error.message : 'Failed to assign task');
+    }
+  };
+
+  const updateTaskStatus = async (task: Task, status: Task['status']) => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/disasters/${disasterId}/tasks/${task.id}/status`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer coordinator1'
+        },
+        body: JSON.stringify({ status })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update task');
+      }
+
+      setTasks(prev => prev.map(t => t.id === result.id ? result : t));
+    } catch (error) {
+      console.error('Error updating task:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update task');
+    }
+  };
+
+  return (
+      <div className="space-y-4">
+        <form onSubmit={submitTask} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              required
+              value={newTask.title}
+              onChange={(e) => setNewTask(prev => ({ ...prev, title: e.target.value }))}
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              placeholder="Task, e.g. Check on residents of 12 Pike St"
+            />
+            <select
+              value={newTask.priority}
+              onChange={(e) => setNewTask(prev => ({ ...prev, priority: e.target.value }))}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+              <option value="critical">Critical</option>
+            </select>
+          </div>
+          <input
+            type="text"
+            value={newTask.location_name}
+            onChange={(e) => setNewTask(prev => ({ ...prev, location_name: e.target.value }))}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            placeholder="Location (optional)"
+          />
+          <div className="flex flex-wrap gap-2">
+            {RESPONDER_SKILLS.map(skill => (
+              <button
+                key={skill}
+                type="button"
+                onClick={() => toggleTaskSkill(skill)}
+                className={`px-2 py-1 text-xs rounded-full border ${
+                  newTask.required_skills.includes(skill)
+                    ? 'bg-blue-100 text-blue-800 border-blue-300'
+                    : 'bg-white text-gray-600 border-gray-300'
+                }`}
+              >
+                {skill.replace(/_/g, ' ')}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={submittingTask || !newTask.title.trim()}
+              className="bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg text-sm transition-colors"
+            >
+              {submittingTask ? 'Creating...' : 'Create Task'}
+            </button>
+          </div>
+        </form>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto"></div>
+            <p className="text-gray-600 mt-2">Loading tasks...</p>
+          </div>
+        ) : tasks.length === 0 ? (
+          <div className="text-center py-8">
+            <ListChecks className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No tasks yet</p>
+            <p className="text-gray-500 text-sm mt-1">Create tasks and assign them to responders in the field</p>
+          </div>
+        ) : (
+          tasks.map(task => (
+            <div key={task.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <h4 className="font-medium text-gray-900">{task.title}</h4>
+                  <div className="flex items-center mt-2 space-x-4 text-xs text-gray-500">
+                    {task.location_name && (
+                      <span className="flex items-center">
+                        <MapPin className="h-3 w-3 mr-1" />
+                        {task.location_name}
+                      </span>
+                    )}
+                    <span>{task.responder ? `Assigned to ${task.responder.name}` : 'Unassigned'}</span>
+                    <span>Priority: {task.priority}</span>
+                  </div>
+                  {task.required_skills.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {task.required_skills.map(skill => (
+                        <span key={skill} className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded-full">
+                          {skill.replace(/_/g, ' ')}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <span className={`px-2 py-1 text-xs rounded-full ${
+                  task.status === 'completed' ? 'bg-green-100 text-green-800' :
+                  task.status === 'in_progress' ? 'bg-blue-100 text-blue-800' :
+                  task.status === 'assigned' ? 'bg-yellow-100 text-yellow-800' :
+                  task.status === 'cancelled' ? 'bg-gray-100 text-gray-500' :
+                  'bg-orange-100 text-orange-800'
+                }`}>
+                  {task.status.replace('_', ' ')}
+                </span>
+              </div>
+              <div className="flex space-x-2 mt-3">
+                {(task.status === 'open' || task.status === 'assigned') && (
+                  <button
+                    onClick={() => showCandidates(task)}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                  >
+                    {task.status === 'open' ? 'Assign' : 'Reassign'}
+                  </button>
+                )}
+                {task.status === 'assigned' && (
+                  <button
+                    onClick={() => updateTaskStatus(task, 'in_progress')}
+                    className="bg-gray-600 hover:bg-gray-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                  >
+                    Start
+                  </button>
+                )}
+                {task.status === 'in_progress' && (
+                  <button
+                    onClick={() => updateTaskStatus(task, 'completed')}
+                    className="bg-green-600 hover:bg-green-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                  >
+                    Complete
+                  </button>
+                )}
+                {task.status !== 'completed' && task.status !== 'cancelled' && (
+                  <button
+                    onClick={() => updateTaskStatus(task, 'cancelled')}
+                    className="text-xs text-gray-500 hover:text-gray-700"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+              {candidates?.taskId === task.id && (
+                <ul className="mt-3 border-t border-gray-100 pt-3 space-y-2">
+                  {candidates.responders.length === 0 ? (
+                    <li className="text-xs text-gray-500">No responders are available right now</li>
+                  ) : (
+                    candidates.responders.map(responder => (
+                      <li key={responder.id} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-700">
+                          {responder.name}
+                          <span className="text-xs text-gray-500 ml-2">
+                            {responder.distance_meters != null && `${(responder.distance_meters / 1000).toFixed(1)} km · `}
+                            {responder.missing_skills && responder.missing_skills.length > 0
+                              ? `missing ${responder.missing_skills.join(', ').replace(/_/g, ' ')}`
+                              : 'has required skills'}
+                          </span>
+                        </span>
+                        <button
+                          onClick={() => assignTask(task, responder)}
+                          className="bg-green-600 hover:bg-green-700 text-white px-2 py-1 rounded text-xs transition-colors"
+                        >
+                          Assign
+                        </button>
+                      </li>
+                    ))
+                  )}
+                </ul>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+  );
+};
+
+export default TasksTab;
@@ -0,0 +1,67 @@
+/*
+  # Disaster coordinates and spatial search
+
+  1. Changes
+    - `disasters.lat` / `disasters.lng` - generated from the `location` geography column
+      so the API can return plain coordinates
+
+  2. Geospatial Features
+    - `get_nearby_disasters` - disasters within a radius of a point, with distance
+    - `get_disasters_in_bbox` - disasters inside a bounding box, with optional distance
+      from a reference point
+    - Parameters are qualified with the function name because `lat`/`lng` are now
+      also column names on `disasters`
+*/
+
+ALTER TABLE disasters
+  ADD COLUMN IF NOT EXISTS lat double precision GENERATED ALWAYS AS (ST_Y(location::geometry)) STORED,
+  ADD COLUMN IF NOT EXISTS lng double precision GENERATED ALWAYS AS (ST_X(location::geometry)) STORED;
+
+-- Function to get disasters near a point
+CREATE OR REPLACE FUNCTION get_nearby_disasters(
+  lat double precision,
+  lng double precision,
+  radius_meters integer DEFAULT 10000
+)
+RETURNS TABLE (
+  id uuid,
+  distance_meters double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    d.id,
+    ST_Distance(d.location, ST_SetSRID(ST_Point(get_nearby_disasters.lng, get_nearby_disasters.lat), 4326)::geography) as distance_meters
+  FROM disasters d
+  WHERE d.location IS NOT NULL
+    AND ST_DWithin(d.location, ST_SetSRID(ST_Point(get_nearby_disasters.lng, get_nearby_disasters.lat), 4326)::geography, get_nearby_disasters.radius_meters)
+  ORDER BY distance_meters ASC;
+$$;
+
+-- Function to get disasters inside a bounding box
+CREATE OR REPLACE FUNCTION get_disasters_in_bbox(
+  min_lng double precision,
+  min_lat double precision,
+  max_lng double precision,
+  max_lat double precision,
+  lat double precision DEFAULT NULL,
+  lng double precision DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  distance_meters double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    d.id,
+    CASE
+      WHEN get_disasters_in_bbox.lat IS NULL OR get_disasters_in_bbox.lng IS NULL THEN NULL
+      ELSE ST_Distance(d.location, ST_SetSRID(ST_Point(get_disasters_in_bbox.lng, get_disasters_in_bbox.lat), 4326)::geography)
+    END as distance_meters
+  FROM disasters d
+  WHERE d.location IS NOT NULL
+    AND d.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography;
+$$;
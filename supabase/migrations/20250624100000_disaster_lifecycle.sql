@@ -0,0 +1,28 @@
+/*
+  # Disaster lifecycle
+
+  1. Changes
+    - `disasters.status` - reported, verified, active, contained, resolved
+    - `disasters.severity` - low, medium, high, critical
+
+  2. Data
+    - Existing rows keep the default `reported` status
+    - Severity is backfilled from the legacy priority tags (urgent/emergency, high, low)
+*/
+
+ALTER TABLE disasters
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'reported'
+    CHECK (status IN ('reported', 'verified', 'active', 'contained', 'resolved')),
+  ADD COLUMN IF NOT EXISTS severity text NOT NULL DEFAULT 'medium'
+    CHECK (severity IN ('low', 'medium', 'high', 'critical'));
+
+UPDATE disasters
+SET severity = CASE
+  WHEN tags && ARRAY['urgent', 'emergency'] THEN 'critical'
+  WHEN tags && ARRAY['high'] THEN 'high'
+  WHEN tags && ARRAY['low'] THEN 'low'
+  ELSE 'medium'
+END;
+
+CREATE INDEX IF NOT EXISTS disasters_status_idx ON disasters(status);
+CREATE INDEX IF NOT EXISTS disasters_severity_idx ON disasters(severity);
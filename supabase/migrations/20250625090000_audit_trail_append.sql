@@ -0,0 +1,19 @@
+/*
+  # Atomic audit trail appends
+
+  1. Functions
+    - `append_disaster_audit` - appends one entry to `disasters.audit_trail` without a
+      read-modify-write round trip, used when reports and resources change
+*/
+
+CREATE OR REPLACE FUNCTION append_disaster_audit(
+  p_disaster_id uuid,
+  p_entry jsonb
+)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE disasters
+  SET audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_entry)
+  WHERE id = p_disaster_id;
+$$;
@@ -0,0 +1,14 @@
+/*
+  # Optimistic concurrency for disasters
+
+  1. Changes
+    - `disasters.version` - incremented by the API on every write to a disaster's own
+      fields; exposed as the ETag and checked against If-Match
+
+  2. Notes
+    - Audit entries appended through `append_disaster_audit` do not bump the version,
+      so report and resource activity never invalidates an open edit
+*/
+
+ALTER TABLE disasters
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
@@ -0,0 +1,18 @@
+/*
+  # Archive instead of delete
+
+  1. Changes
+    - `disasters.archived_at` / `disasters.archived_by` - set by DELETE /api/disasters/:id
+      instead of removing the row, so reports and resources are kept
+
+  2. Notes
+    - Archived disasters are hard-deleted by the purge job once they are older than
+      ARCHIVE_RETENTION_DAYS; the existing ON DELETE CASCADE then removes their
+      reports and resources
+*/
+
+ALTER TABLE disasters
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz,
+  ADD COLUMN IF NOT EXISTS archived_by text;
+
+CREATE INDEX IF NOT EXISTS disasters_archived_idx ON disasters(archived_at) WHERE archived_at IS NOT NULL;
@@ -0,0 +1,61 @@
+/*
+  # Merge duplicate disasters
+
+  1. Changes
+    - `disasters.merged_into` - the surviving record when a duplicate was merged away
+
+  2. Functions
+    - `merge_disaster_records` - moves reports and resources from the duplicate onto the
+      surviving disaster, archives the duplicate and appends both audit entries in one
+      transaction. The surviving record's entry gets the moved row counts.
+*/
+
+ALTER TABLE disasters
+  ADD COLUMN IF NOT EXISTS merged_into uuid REFERENCES disasters(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION merge_disaster_records(
+  p_target_id uuid,
+  p_source_id uuid,
+  p_user_id text,
+  p_target_entry jsonb,
+  p_source_entry jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reports_moved integer;
+  resources_moved integer;
+  counts jsonb;
+BEGIN
+  PERFORM 1 FROM disasters
+  WHERE id = p_source_id AND archived_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Source disaster % is missing or already archived', p_source_id;
+  END IF;
+
+  UPDATE reports SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS reports_moved = ROW_COUNT;
+
+  UPDATE resources SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS resources_moved = ROW_COUNT;
+
+  counts := jsonb_build_object('reports_moved', reports_moved, 'resources_moved', resources_moved);
+
+  UPDATE disasters
+  SET archived_at = now(),
+      archived_by = p_user_id,
+      merged_into = p_target_id,
+      version = version + 1,
+      audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_source_entry)
+  WHERE id = p_source_id;
+
+  UPDATE disasters
+  SET audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_target_entry || counts)
+  WHERE id = p_target_id;
+
+  RETURN counts;
+END;
+$$;
@@ -0,0 +1,143 @@
+/*
+  # Parent/child incident hierarchy
+
+  1. Changes
+    - `disasters.parent_id` - optional parent incident, e.g. a local flood under a hurricane.
+      Detached (set to null) if the parent is purged.
+
+  2. Functions
+    - `get_disaster_ancestors` - parents of a disaster, nearest first
+    - `get_disaster_subtree` - a disaster and all non-archived descendants with their own
+      report and resource counts
+    - `merge_disaster_records` - now also moves the duplicate's sub-incidents onto the
+      surviving record
+*/
+
+ALTER TABLE disasters
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES disasters(id) ON DELETE SET NULL,
+  ADD CONSTRAINT disasters_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS disasters_parent_id_idx ON disasters(parent_id);
+
+-- Depth is capped so a cycle written around the API cannot recurse forever
+CREATE OR REPLACE FUNCTION get_disaster_ancestors(p_disaster_id uuid)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  location_name text,
+  tags text[],
+  lat double precision,
+  lng double precision,
+  archived_at timestamptz,
+  depth integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT d.id, d.parent_id, d.title, d.location_name, d.tags, d.lat, d.lng, d.archived_at, 1 AS depth
+    FROM disasters d
+    WHERE d.id = (SELECT parent_id FROM disasters WHERE disasters.id = p_disaster_id)
+    UNION ALL
+    SELECT d.id, d.parent_id, d.title, d.location_name, d.tags, d.lat, d.lng, d.archived_at, a.depth + 1
+    FROM disasters d
+    JOIN ancestors a ON d.id = a.parent_id
+    WHERE a.depth < 32
+  )
+  SELECT id, title, location_name, tags, lat, lng, archived_at, depth
+  FROM ancestors
+  ORDER BY depth;
+$$;
+
+CREATE OR REPLACE FUNCTION get_disaster_subtree(p_root_id uuid)
+RETURNS TABLE (
+  id uuid,
+  parent_id uuid,
+  title text,
+  location_name text,
+  status text,
+  severity text,
+  depth integer,
+  reports_count bigint,
+  resources_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT d.id, d.parent_id, d.title, d.location_name, d.status, d.severity, 0 AS depth
+    FROM disasters d
+    WHERE d.id = p_root_id
+    UNION ALL
+    SELECT d.id, d.parent_id, d.title, d.location_name, d.status, d.severity, s.depth + 1
+    FROM disasters d
+    JOIN subtree s ON d.parent_id = s.id
+    WHERE d.archived_at IS NULL AND s.depth < 32
+  )
+  SELECT
+    s.id, s.parent_id, s.title, s.location_name, s.status, s.severity, s.depth,
+    (SELECT count(*) FROM reports r WHERE r.disaster_id = s.id),
+    (SELECT count(*) FROM resources rs WHERE rs.disaster_id = s.id)
+  FROM subtree s
+  ORDER BY s.depth;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_disaster_records(
+  p_target_id uuid,
+  p_source_id uuid,
+  p_user_id text,
+  p_target_entry jsonb,
+  p_source_entry jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reports_moved integer;
+  resources_moved integer;
+  children_moved integer;
+  counts jsonb;
+BEGIN
+  PERFORM 1 FROM disasters
+  WHERE id = p_source_id AND archived_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Source disaster % is missing or already archived', p_source_id;
+  END IF;
+
+  UPDATE reports SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS reports_moved = ROW_COUNT;
+
+  UPDATE resources SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS resources_moved = ROW_COUNT;
+
+  -- The surviving record takes the duplicate's place if it was one of its children
+  UPDATE disasters
+  SET parent_id = (SELECT parent_id FROM disasters WHERE id = p_source_id)
+  WHERE id = p_target_id AND parent_id = p_source_id;
+
+  UPDATE disasters SET parent_id = p_target_id WHERE parent_id = p_source_id;
+  GET DIAGNOSTICS children_moved = ROW_COUNT;
+
+  counts := jsonb_build_object(
+    'reports_moved', reports_moved,
+    'resources_moved', resources_moved,
+    'children_moved', children_moved
+  );
+
+  UPDATE disasters
+  SET archived_at = now(),
+      archived_by = p_user_id,
+      merged_into = p_target_id,
+      version = version + 1,
+      audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_source_entry)
+  WHERE id = p_source_id;
+
+  UPDATE disasters
+  SET audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_target_entry || counts)
+  WHERE id = p_target_id;
+
+  RETURN counts;
+END;
+$$;
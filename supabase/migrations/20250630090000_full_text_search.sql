@@ -0,0 +1,102 @@
+/*
+  # Full-text search
+
+  1. Changes
+    - `search_vector` generated tsvector columns with GIN indexes on
+      - `disasters` - title (weight A), description (weight B)
+      - `reports` - content
+      - `resources` - name (weight A), description (weight B)
+
+  2. Functions
+    - `search_records` - ranked matches per entity type with `<mark>` highlighted
+      title and snippet. Archived disasters and everything attached to them are skipped.
+*/
+
+ALTER TABLE disasters
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B')
+  ) STORED;
+
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    to_tsvector('english'::regconfig, coalesce(content, ''))
+  ) STORED;
+
+ALTER TABLE resources
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS disasters_search_idx ON disasters USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS reports_search_idx ON reports USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS resources_search_idx ON resources USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION search_records(
+  p_query text,
+  p_types text[],
+  p_limit integer
+)
+RETURNS TABLE (
+  entity text,
+  id uuid,
+  disaster_id uuid,
+  disaster_title text,
+  title text,
+  snippet text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  )
+  (
+    SELECT
+      'disaster', d.id, d.id, d.title,
+      ts_headline('english', d.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      ts_headline('english', coalesce(d.description, ''), q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2'),
+      ts_rank(d.search_vector, q.query)
+    FROM disasters d, q
+    WHERE 'disaster' = ANY(p_types)
+      AND d.archived_at IS NULL
+      AND d.search_vector @@ q.query
+    ORDER BY 7 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT
+      'report', r.id, d.id, d.title,
+      NULL,
+      ts_headline('english', r.content, q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2'),
+      ts_rank(r.search_vector, q.query)
+    FROM reports r
+    JOIN disasters d ON d.id = r.disaster_id, q
+    WHERE 'report' = ANY(p_types)
+      AND d.archived_at IS NULL
+      AND r.search_vector @@ q.query
+    ORDER BY 7 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT
+      'resource', rs.id, d.id, d.title,
+      ts_headline('english', rs.name, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      ts_headline('english', coalesce(rs.description, ''), q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2'),
+      ts_rank(rs.search_vector, q.query)
+    FROM resources rs
+    JOIN disasters d ON d.id = rs.disaster_id, q
+    WHERE 'resource' = ANY(p_types)
+      AND d.archived_at IS NULL
+      AND rs.search_vector @@ q.query
+    ORDER BY 7 DESC
+    LIMIT p_limit
+  );
+$$;
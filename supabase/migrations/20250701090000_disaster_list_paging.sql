@@ -0,0 +1,40 @@
+/*
+  # Disaster list paging and stats
+
+  1. Indexes
+    - `(created_at, id)`, `(updated_at, id)`, `(title, id)` for keyset pagination
+      in either direction
+
+  2. Functions
+    - `get_disaster_stats` - totals for the dashboard over open disasters
+      (not archived, not resolved), so it no longer depends on which page is loaded
+*/
+
+CREATE INDEX IF NOT EXISTS disasters_created_id_idx ON disasters(created_at, id);
+CREATE INDEX IF NOT EXISTS disasters_updated_id_idx ON disasters(updated_at, id);
+CREATE INDEX IF NOT EXISTS disasters_title_id_idx ON disasters(title, id);
+
+CREATE OR REPLACE FUNCTION get_disaster_stats()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH open_disasters AS (
+    SELECT id, status, severity
+    FROM disasters
+    WHERE archived_at IS NULL AND status <> 'resolved'
+  )
+  SELECT jsonb_build_object(
+    'total_disasters', (SELECT count(*) FROM open_disasters),
+    'by_status', COALESCE(
+      (SELECT jsonb_object_agg(status, n) FROM (SELECT status, count(*) AS n FROM open_disasters GROUP BY status) s),
+      '{}'::jsonb
+    ),
+    'by_severity', COALESCE(
+      (SELECT jsonb_object_agg(severity, n) FROM (SELECT severity, count(*) AS n FROM open_disasters GROUP BY severity) s),
+      '{}'::jsonb
+    ),
+    'reports', (SELECT count(*) FROM reports WHERE disaster_id IN (SELECT id FROM open_disasters)),
+    'resources', (SELECT count(*) FROM resources WHERE disaster_id IN (SELECT id FROM open_disasters))
+  );
+$$;
@@ -0,0 +1,151 @@
+/*
+  # Live resource occupancy
+
+  1. Changes
+    - `resources.current_occupancy` - people or units currently using the resource,
+      never below zero or above `capacity`
+    - `resources.is_full` - generated, true once occupancy reaches capacity
+    - `resources.updated_at`
+
+  2. New Tables
+    - `resource_occupancy_log` - every check-in, check-out and manual correction
+
+  3. Functions
+    - `adjust_resource_occupancy` - locks the resource row, applies the change and logs it,
+      so concurrent check-ins cannot overfill a shelter
+    - `get_nearby_resources` - now returns occupancy and can skip full resources
+*/
+
+ALTER TABLE resources
+  ADD COLUMN IF NOT EXISTS current_occupancy integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now(),
+  ADD CONSTRAINT resources_occupancy_range CHECK (
+    current_occupancy >= 0 AND (capacity IS NULL OR current_occupancy <= capacity)
+  );
+
+ALTER TABLE resources
+  ADD COLUMN IF NOT EXISTS is_full boolean GENERATED ALWAYS AS (
+    capacity IS NOT NULL AND current_occupancy >= capacity
+  ) STORED;
+
+CREATE TRIGGER update_resources_updated_at
+  BEFORE UPDATE ON resources
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS resource_occupancy_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id uuid NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  disaster_id uuid REFERENCES disasters(id) ON DELETE CASCADE,
+  action text NOT NULL CHECK (action IN ('check_in', 'check_out', 'set')),
+  change integer NOT NULL,
+  occupancy_after integer NOT NULL,
+  user_id text NOT NULL,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS resource_occupancy_log_resource_idx
+  ON resource_occupancy_log(resource_id, created_at DESC);
+
+ALTER TABLE resource_occupancy_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read resource occupancy log"
+  ON resource_occupancy_log
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Raises no_data_found when the resource is missing and check_violation when the
+-- change would take occupancy below zero or over capacity
+CREATE OR REPLACE FUNCTION adjust_resource_occupancy(
+  p_resource_id uuid,
+  p_delta integer,
+  p_action text,
+  p_user_id text,
+  p_note text DEFAULT NULL
+)
+RETURNS resources
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated resources;
+  next_occupancy integer;
+BEGIN
+  SELECT * INTO updated FROM resources WHERE id = p_resource_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  next_occupancy := updated.current_occupancy + p_delta;
+
+  IF next_occupancy < 0 THEN
+    RAISE EXCEPTION 'Only % checked in', updated.current_occupancy USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF updated.capacity IS NOT NULL AND next_occupancy > updated.capacity THEN
+    RAISE EXCEPTION 'Only % of % places left',
+      updated.capacity - updated.current_occupancy, updated.capacity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE resources
+  SET current_occupancy = next_occupancy
+  WHERE id = p_resource_id
+  RETURNING * INTO updated;
+
+  INSERT INTO resource_occupancy_log (resource_id, disaster_id, action, change, occupancy_after, user_id, note)
+  VALUES (p_resource_id, updated.disaster_id, p_action, p_delta, next_occupancy, p_user_id, p_note);
+
+  RETURN updated;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS get_nearby_resources(uuid, double precision, double precision, integer);
+
+CREATE OR REPLACE FUNCTION get_nearby_resources(
+  disaster_id uuid,
+  lat double precision,
+  lng double precision,
+  radius_meters integer DEFAULT 10000,
+  only_available boolean DEFAULT false
+)
+RETURNS TABLE (
+  id uuid,
+  disaster_id uuid,
+  name text,
+  location_name text,
+  type text,
+  description text,
+  capacity integer,
+  current_occupancy integer,
+  is_full boolean,
+  distance_meters double precision,
+  created_at timestamptz
+)
+LANGUAGE sql
+AS $$
+  SELECT
+    r.id,
+    r.disaster_id,
+    r.name,
+    r.location_name,
+    r.type,
+    r.description,
+    r.capacity,
+    r.current_occupancy,
+    r.is_full,
+    ST_Distance(r.location, ST_SetSRID(ST_Point(get_nearby_resources.lng, get_nearby_resources.lat), 4326)) as distance_meters,
+    r.created_at
+  FROM resources r
+  WHERE r.disaster_id = get_nearby_resources.disaster_id
+    AND r.location IS NOT NULL
+    AND ST_DWithin(
+      r.location,
+      ST_SetSRID(ST_Point(get_nearby_resources.lng, get_nearby_resources.lat), 4326),
+      get_nearby_resources.radius_meters
+    )
+    AND (NOT get_nearby_resources.only_available OR NOT r.is_full)
+  ORDER BY distance_meters ASC;
+$$;
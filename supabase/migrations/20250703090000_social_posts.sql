@@ -0,0 +1,32 @@
+/*
+  # Social posts
+
+  1. New Tables
+    - `social_posts` - posts collected from social platforms (or loaded from fixtures),
+      unique per platform and platform post id so re-imports update in place
+*/
+
+CREATE TABLE IF NOT EXISTS social_posts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  platform text NOT NULL,
+  external_id text NOT NULL,
+  author text,
+  content text NOT NULL,
+  url text,
+  keywords text[] DEFAULT '{}',
+  priority text DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  posted_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (platform, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS social_posts_posted_at_idx ON social_posts(posted_at DESC);
+CREATE INDEX IF NOT EXISTS social_posts_keywords_idx ON social_posts USING GIN (keywords);
+
+ALTER TABLE social_posts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read social posts"
+  ON social_posts
+  FOR SELECT
+  TO public
+  USING (true);
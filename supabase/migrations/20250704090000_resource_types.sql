@@ -0,0 +1,75 @@
+/*
+  # Typed resources with structured attributes
+
+  1. Changes
+    - `resources.attributes` - per-type details such as shelter beds or water
+      liters per day, validated by the API against the resource type registry
+    - `resources.type` - limited to shelter, medical, food, water, fuel, transport
+      and comms for new rows; existing rows are left as they are
+    - GIN index on `attributes` for containment filters
+
+  2. Functions
+    - `get_nearby_resources` - now returns `attributes`
+*/
+
+ALTER TABLE resources
+  ADD COLUMN IF NOT EXISTS attributes jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+UPDATE resources SET type = 'comms' WHERE type = 'power';
+
+ALTER TABLE resources
+  ADD CONSTRAINT resources_type_check CHECK (
+    type IN ('shelter', 'medical', 'food', 'water', 'fuel', 'transport', 'comms')
+  ) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS resources_attributes_idx ON resources USING GIN (attributes);
+
+DROP FUNCTION IF EXISTS get_nearby_resources(uuid, double precision, double precision, integer, boolean);
+
+CREATE OR REPLACE FUNCTION get_nearby_resources(
+  disaster_id uuid,
+  lat double precision,
+  lng double precision,
+  radius_meters integer DEFAULT 10000,
+  only_available boolean DEFAULT false
+)
+RETURNS TABLE (
+  id uuid,
+  disaster_id uuid,
+  name text,
+  location_name text,
+  type text,
+  attributes jsonb,
+  description text,
+  capacity integer,
+  current_occupancy integer,
+  is_full boolean,
+  distance_meters double precision,
+  created_at timestamptz
+)
+LANGUAGE sql
+AS $$
+  SELECT
+    r.id,
+    r.disaster_id,
+    r.name,
+    r.location_name,
+    r.type,
+    r.attributes,
+    r.description,
+    r.capacity,
+    r.current_occupancy,
+    r.is_full,
+    ST_Distance(r.location, ST_SetSRID(ST_Point(get_nearby_resources.lng, get_nearby_resources.lat), 4326)) as distance_meters,
+    r.created_at
+  FROM resources r
+  WHERE r.disaster_id = get_nearby_resources.disaster_id
+    AND r.location IS NOT NULL
+    AND ST_DWithin(
+      r.location,
+      ST_SetSRID(ST_Point(get_nearby_resources.lng, get_nearby_resources.lat), 4326),
+      get_nearby_resources.radius_meters
+    )
+    AND (NOT get_nearby_resources.only_available OR NOT r.is_full)
+  ORDER BY distance_meters ASC;
+$$;
@@ -0,0 +1,71 @@
+/*
+  # Nearest resources across all disasters
+
+  1. Changes
+    - `resources.lat` / `resources.lng` - generated from the `location` geography column
+      so the API can compute distances without PostGIS when it has to
+
+  2. Functions
+    - `find_nearby_resources` - resources within a radius of a point, nearest first,
+      across every disaster that is neither archived nor resolved
+*/
+
+ALTER TABLE resources
+  ADD COLUMN IF NOT EXISTS lat double precision GENERATED ALWAYS AS (ST_Y(location::geometry)) STORED,
+  ADD COLUMN IF NOT EXISTS lng double precision GENERATED ALWAYS AS (ST_X(location::geometry)) STORED;
+
+CREATE OR REPLACE FUNCTION find_nearby_resources(
+  origin_lat double precision,
+  origin_lng double precision,
+  radius_meters integer DEFAULT 10000,
+  only_available boolean DEFAULT false
+)
+RETURNS TABLE (
+  id uuid,
+  disaster_id uuid,
+  disaster_title text,
+  name text,
+  location_name text,
+  type text,
+  attributes jsonb,
+  description text,
+  capacity integer,
+  current_occupancy integer,
+  is_full boolean,
+  lat double precision,
+  lng double precision,
+  distance_meters double precision,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    r.id,
+    r.disaster_id,
+    d.title AS disaster_title,
+    r.name,
+    r.location_name,
+    r.type,
+    r.attributes,
+    r.description,
+    r.capacity,
+    r.current_occupancy,
+    r.is_full,
+    r.lat,
+    r.lng,
+    ST_Distance(r.location, ST_SetSRID(ST_Point(origin_lng, origin_lat), 4326)::geography) AS distance_meters,
+    r.created_at
+  FROM resources r
+  JOIN disasters d ON d.id = r.disaster_id
+  WHERE r.location IS NOT NULL
+    AND d.archived_at IS NULL
+    AND d.status <> 'resolved'
+    AND ST_DWithin(
+      r.location,
+      ST_SetSRID(ST_Point(origin_lng, origin_lat), 4326)::geography,
+      find_nearby_resources.radius_meters
+    )
+    AND (NOT find_nearby_resources.only_available OR NOT r.is_full)
+  ORDER BY distance_meters ASC, r.id;
+$$;
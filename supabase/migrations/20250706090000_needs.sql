@@ -0,0 +1,176 @@
+/*
+  # Needs and resource matching
+
+  1. New Tables
+    - `needs` - a need for a resource category (food, shelter, ...) on a disaster,
+      optionally created from a field report or social post, with quantity,
+      urgency and location
+      - `lat` / `lng` generated from `location`
+      - `status` - open, fulfilled or cancelled
+      - `resource_id` - the resource the need was matched to once fulfilled
+
+  2. Functions
+    - `accept_need_match` - locks the need, books `quantity` places on the resource
+      through `adjust_resource_occupancy` and marks the need fulfilled, all in one
+      transaction
+    - `merge_disaster_records` - now also moves the duplicate's needs
+*/
+
+CREATE TABLE IF NOT EXISTS needs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE CASCADE,
+  category text NOT NULL,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  urgency text NOT NULL DEFAULT 'medium' CHECK (urgency IN ('low', 'medium', 'high', 'critical')),
+  description text,
+  location_name text,
+  location geography(POINT, 4326),
+  lat double precision GENERATED ALWAYS AS (ST_Y(location::geometry)) STORED,
+  lng double precision GENERATED ALWAYS AS (ST_X(location::geometry)) STORED,
+  source_type text NOT NULL DEFAULT 'manual' CHECK (source_type IN ('manual', 'report', 'social_post')),
+  source_id uuid,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'fulfilled', 'cancelled')),
+  resource_id uuid REFERENCES resources(id) ON DELETE SET NULL,
+  fulfilled_by text,
+  fulfilled_at timestamptz,
+  created_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS needs_disaster_status_idx ON needs(disaster_id, status);
+CREATE INDEX IF NOT EXISTS needs_source_idx ON needs(source_type, source_id);
+
+CREATE TRIGGER update_needs_updated_at
+  BEFORE UPDATE ON needs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE needs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read needs"
+  ON needs
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Raises no_data_found when the need is missing, check_violation when it is no
+-- longer open or the resource lacks space, and invalid_parameter_value when the
+-- resource is of another type
+CREATE OR REPLACE FUNCTION accept_need_match(
+  p_need_id uuid,
+  p_resource_id uuid,
+  p_user_id text
+)
+RETURNS needs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  need needs;
+  resource_type text;
+BEGIN
+  SELECT * INTO need FROM needs WHERE id = p_need_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Need not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF need.status <> 'open' THEN
+    RAISE EXCEPTION 'Need is already %', need.status USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT type INTO resource_type FROM resources WHERE id = p_resource_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF resource_type <> need.category THEN
+    RAISE EXCEPTION 'A % resource cannot fulfill a % need', resource_type, need.category
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  PERFORM adjust_resource_occupancy(
+    p_resource_id,
+    need.quantity,
+    'check_in',
+    p_user_id,
+    'Allocated to need ' || p_need_id
+  );
+
+  UPDATE needs
+  SET status = 'fulfilled',
+      resource_id = p_resource_id,
+      fulfilled_by = p_user_id,
+      fulfilled_at = now()
+  WHERE id = p_need_id
+  RETURNING * INTO need;
+
+  RETURN need;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_disaster_records(
+  p_target_id uuid,
+  p_source_id uuid,
+  p_user_id text,
+  p_target_entry jsonb,
+  p_source_entry jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reports_moved integer;
+  resources_moved integer;
+  children_moved integer;
+  needs_moved integer;
+  counts jsonb;
+BEGIN
+  PERFORM 1 FROM disasters
+  WHERE id = p_source_id AND archived_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Source disaster % is missing or already archived', p_source_id;
+  END IF;
+
+  UPDATE reports SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS reports_moved = ROW_COUNT;
+
+  UPDATE resources SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS resources_moved = ROW_COUNT;
+
+  UPDATE needs SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS needs_moved = ROW_COUNT;
+
+  -- The surviving record takes the duplicate's place if it was one of its children
+  UPDATE disasters
+  SET parent_id = (SELECT parent_id FROM disasters WHERE id = p_source_id)
+  WHERE id = p_target_id AND parent_id = p_source_id;
+
+  UPDATE disasters SET parent_id = p_target_id WHERE parent_id = p_source_id;
+  GET DIAGNOSTICS children_moved = ROW_COUNT;
+
+  counts := jsonb_build_object(
+    'reports_moved', reports_moved,
+    'resources_moved', resources_moved,
+    'needs_moved', needs_moved,
+    'children_moved', children_moved
+  );
+
+  UPDATE disasters
+  SET archived_at = now(),
+      archived_by = p_user_id,
+      merged_into = p_target_id,
+      version = version + 1,
+      audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_source_entry)
+  WHERE id = p_source_id;
+
+  UPDATE disasters
+  SET audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_target_entry || counts)
+  WHERE id = p_target_id;
+
+  RETURN counts;
+END;
+$$;
@@ -0,0 +1,158 @@
+/*
+  # Responders and tasks
+
+  1. New Tables
+    - `responders` - people in the field with skills, availability, last known
+      location and the disaster they are currently deployed to
+      - `user_id` - the account the responder signs in with, if any
+      - `lat` / `lng` generated from `location`
+    - `tasks` - work on a disaster (title, location, required skills) that a
+      coordinator assigns to a responder
+      - `status` - open, assigned, in_progress, completed or cancelled
+
+  2. Functions
+    - `merge_disaster_records` - now also moves the duplicate's tasks and the
+      responders deployed to it
+*/
+
+CREATE TABLE IF NOT EXISTS responders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text UNIQUE,
+  name text NOT NULL,
+  phone text,
+  skills text[] NOT NULL DEFAULT '{}',
+  availability text NOT NULL DEFAULT 'available' CHECK (availability IN ('available', 'busy', 'off_duty')),
+  location geography(POINT, 4326),
+  lat double precision GENERATED ALWAYS AS (ST_Y(location::geometry)) STORED,
+  lng double precision GENERATED ALWAYS AS (ST_X(location::geometry)) STORED,
+  location_updated_at timestamptz,
+  disaster_id uuid REFERENCES disasters(id) ON DELETE SET NULL,
+  created_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS responders_skills_idx ON responders USING GIN (skills);
+CREATE INDEX IF NOT EXISTS responders_disaster_idx ON responders(disaster_id);
+CREATE INDEX IF NOT EXISTS responders_location_idx ON responders USING GIST (location);
+
+CREATE TRIGGER update_responders_updated_at
+  BEFORE UPDATE ON responders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  description text,
+  location_name text,
+  location geography(POINT, 4326),
+  lat double precision GENERATED ALWAYS AS (ST_Y(location::geometry)) STORED,
+  lng double precision GENERATED ALWAYS AS (ST_X(location::geometry)) STORED,
+  required_skills text[] NOT NULL DEFAULT '{}',
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'critical')),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'assigned', 'in_progress', 'completed', 'cancelled')),
+  responder_id uuid REFERENCES responders(id) ON DELETE SET NULL,
+  assigned_by text,
+  assigned_at timestamptz,
+  completed_at timestamptz,
+  created_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tasks_disaster_status_idx ON tasks(disaster_id, status);
+CREATE INDEX IF NOT EXISTS tasks_responder_idx ON tasks(responder_id);
+
+CREATE TRIGGER update_tasks_updated_at
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE responders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read responders"
+  ON responders
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can read tasks"
+  ON tasks
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE OR REPLACE FUNCTION merge_disaster_records(
+  p_target_id uuid,
+  p_source_id uuid,
+  p_user_id text,
+  p_target_entry jsonb,
+  p_source_entry jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reports_moved integer;
+  resources_moved integer;
+  children_moved integer;
+  needs_moved integer;
+  tasks_moved integer;
+  counts jsonb;
+BEGIN
+  PERFORM 1 FROM disasters
+  WHERE id = p_source_id AND archived_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Source disaster % is missing or already archived', p_source_id;
+  END IF;
+
+  UPDATE reports SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS reports_moved = ROW_COUNT;
+
+  UPDATE resources SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS resources_moved = ROW_COUNT;
+
+  UPDATE needs SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS needs_moved = ROW_COUNT;
+
+  UPDATE tasks SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS tasks_moved = ROW_COUNT;
+
+  UPDATE responders SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+
+  -- The surviving record takes the duplicate's place if it was one of its children
+  UPDATE disasters
+  SET parent_id = (SELECT parent_id FROM disasters WHERE id = p_source_id)
+  WHERE id = p_target_id AND parent_id = p_source_id;
+
+  UPDATE disasters SET parent_id = p_target_id WHERE parent_id = p_source_id;
+  GET DIAGNOSTICS children_moved = ROW_COUNT;
+
+  counts := jsonb_build_object(
+    'reports_moved', reports_moved,
+    'resources_moved', resources_moved,
+    'needs_moved', needs_moved,
+    'tasks_moved', tasks_moved,
+    'children_moved', children_moved
+  );
+
+  UPDATE disasters
+  SET archived_at = now(),
+      archived_by = p_user_id,
+      merged_into = p_target_id,
+      version = version + 1,
+      audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_source_entry)
+  WHERE id = p_source_id;
+
+  UPDATE disasters
+  SET audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_target_entry || counts)
+  WHERE id = p_target_id;
+
+  RETURN counts;
+END;
+$$;
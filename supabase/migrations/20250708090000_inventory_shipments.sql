@@ -0,0 +1,242 @@
+/*
+  # Supply inventory and shipments
+
+  1. New Tables
+    - `inventory_items` - stock of one item (water, MREs, blankets, ...) at a resource,
+      with an optional low-stock threshold; one row per resource and item
+    - `shipments` - stock moving to a resource, either from another resource or
+      from an external donor
+      - `items` - `[{ "item": "water", "quantity": 500 }, ...]`
+      - `status` - requested, dispatched, delivered or cancelled
+      - `disaster_id` - the destination's disaster, for listing
+
+  2. Functions
+    - `adjust_inventory` - locks the stock row, applies a change and refuses to go
+      below zero
+    - `transition_shipment` - moves a shipment to its next status and moves the stock
+      with it: dispatching takes stock from the origin, delivering adds it to the
+      destination and cancelling a dispatched shipment returns it to the origin
+    - `merge_disaster_records` - now also moves the duplicate's shipments
+*/
+
+CREATE TABLE IF NOT EXISTS inventory_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id uuid NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  item text NOT NULL,
+  unit text,
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  low_stock_threshold integer CHECK (low_stock_threshold IS NULL OR low_stock_threshold >= 0),
+  updated_by text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (resource_id, item)
+);
+
+CREATE TRIGGER update_inventory_items_updated_at
+  BEFORE UPDATE ON inventory_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS shipments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE CASCADE,
+  origin_resource_id uuid REFERENCES resources(id) ON DELETE SET NULL,
+  donor_name text,
+  destination_resource_id uuid NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  items jsonb NOT NULL CHECK (jsonb_typeof(items) = 'array' AND jsonb_array_length(items) > 0),
+  status text NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'dispatched', 'delivered', 'cancelled')),
+  note text,
+  requested_by text NOT NULL,
+  dispatched_at timestamptz,
+  delivered_at timestamptz,
+  cancelled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT shipments_has_origin CHECK (origin_resource_id IS NOT NULL OR donor_name IS NOT NULL),
+  CONSTRAINT shipments_distinct_ends CHECK (origin_resource_id IS NULL OR origin_resource_id <> destination_resource_id)
+);
+
+CREATE INDEX IF NOT EXISTS shipments_disaster_status_idx ON shipments(disaster_id, status);
+CREATE INDEX IF NOT EXISTS shipments_origin_idx ON shipments(origin_resource_id);
+CREATE INDEX IF NOT EXISTS shipments_destination_idx ON shipments(destination_resource_id);
+
+CREATE TRIGGER update_shipments_updated_at
+  BEFORE UPDATE ON shipments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE inventory_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read inventory"
+  ON inventory_items
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can read shipments"
+  ON shipments
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Raises check_violation when the change would leave less than zero in stock
+CREATE OR REPLACE FUNCTION adjust_inventory(
+  p_resource_id uuid,
+  p_item text,
+  p_delta integer,
+  p_user_id text
+)
+RETURNS inventory_items
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  stock inventory_items;
+BEGIN
+  INSERT INTO inventory_items (resource_id, item, quantity, updated_by)
+  VALUES (p_resource_id, p_item, 0, p_user_id)
+  ON CONFLICT (resource_id, item) DO NOTHING;
+
+  SELECT * INTO stock
+  FROM inventory_items
+  WHERE resource_id = p_resource_id AND item = p_item
+  FOR UPDATE;
+
+  IF stock.quantity + p_delta < 0 THEN
+    RAISE EXCEPTION 'Only % % in stock', stock.quantity, p_item USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE inventory_items
+  SET quantity = quantity + p_delta,
+      updated_by = p_user_id
+  WHERE id = stock.id
+  RETURNING * INTO stock;
+
+  RETURN stock;
+END;
+$$;
+
+-- Raises no_data_found when the shipment is missing and check_violation when the
+-- move is not allowed or the origin is short of stock
+CREATE OR REPLACE FUNCTION transition_shipment(
+  p_shipment_id uuid,
+  p_status text,
+  p_user_id text
+)
+RETURNS shipments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  shipment shipments;
+  line jsonb;
+BEGIN
+  SELECT * INTO shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT (
+    (shipment.status = 'requested' AND p_status IN ('dispatched', 'cancelled')) OR
+    (shipment.status = 'dispatched' AND p_status IN ('delivered', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot move a shipment from % to %', shipment.status, p_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(shipment.items) LOOP
+    IF p_status = 'dispatched' AND shipment.origin_resource_id IS NOT NULL THEN
+      PERFORM adjust_inventory(shipment.origin_resource_id, line->>'item', -(line->>'quantity')::integer, p_user_id);
+    ELSIF p_status = 'delivered' THEN
+      PERFORM adjust_inventory(shipment.destination_resource_id, line->>'item', (line->>'quantity')::integer, p_user_id);
+    ELSIF p_status = 'cancelled' AND shipment.status = 'dispatched' AND shipment.origin_resource_id IS NOT NULL THEN
+      PERFORM adjust_inventory(shipment.origin_resource_id, line->>'item', (line->>'quantity')::integer, p_user_id);
+    END IF;
+  END LOOP;
+
+  UPDATE shipments
+  SET status = p_status,
+      dispatched_at = CASE WHEN p_status = 'dispatched' THEN now() ELSE dispatched_at END,
+      delivered_at = CASE WHEN p_status = 'delivered' THEN now() ELSE delivered_at END,
+      cancelled_at = CASE WHEN p_status = 'cancelled' THEN now() ELSE cancelled_at END
+  WHERE id = p_shipment_id
+  RETURNING * INTO shipment;
+
+  RETURN shipment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_disaster_records(
+  p_target_id uuid,
+  p_source_id uuid,
+  p_user_id text,
+  p_target_entry jsonb,
+  p_source_entry jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reports_moved integer;
+  resources_moved integer;
+  children_moved integer;
+  needs_moved integer;
+  tasks_moved integer;
+  counts jsonb;
+BEGIN
+  PERFORM 1 FROM disasters
+  WHERE id = p_source_id AND archived_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Source disaster % is missing or already archived', p_source_id;
+  END IF;
+
+  UPDATE reports SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS reports_moved = ROW_COUNT;
+
+  UPDATE resources SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS resources_moved = ROW_COUNT;
+
+  UPDATE needs SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS needs_moved = ROW_COUNT;
+
+  UPDATE tasks SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS tasks_moved = ROW_COUNT;
+
+  UPDATE responders SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+
+  -- Shipments follow their destination resource, which moved above
+  UPDATE shipments SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+
+  -- The surviving record takes the duplicate's place if it was one of its children
+  UPDATE disasters
+  SET parent_id = (SELECT parent_id FROM disasters WHERE id = p_source_id)
+  WHERE id = p_target_id AND parent_id = p_source_id;
+
+  UPDATE disasters SET parent_id = p_target_id WHERE parent_id = p_source_id;
+  GET DIAGNOSTICS children_moved = ROW_COUNT;
+
+  counts := jsonb_build_object(
+    'reports_moved', reports_moved,
+    'resources_moved', resources_moved,
+    'needs_moved', needs_moved,
+    'tasks_moved', tasks_moved,
+    'children_moved', children_moved
+  );
+
+  UPDATE disasters
+  SET archived_at = now(),
+      archived_by = p_user_id,
+      merged_into = p_target_id,
+      version = version + 1,
+      audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_source_entry)
+  WHERE id = p_source_id;
+
+  UPDATE disasters
+  SET audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_target_entry || counts)
+  WHERE id = p_target_id;
+
+  RETURN counts;
+END;
+$$;
@@ -0,0 +1,124 @@
+/*
+  # Social media ingestion
+
+  1. New Tables
+    - `social_post_matches` - which stored posts are relevant to which disaster, with
+      the relevance score the poller gave them
+      - `posted_at` - copied from the post so a disaster's feed can be paged by it
+
+  2. Changes
+    - `social_posts.ingested_by` - the source adapter that collected the post
+      (twitter, bluesky, mastodon, feed or seed)
+
+  3. Functions
+    - `merge_disaster_records` - now also moves the duplicate's post matches
+*/
+
+ALTER TABLE social_posts ADD COLUMN IF NOT EXISTS ingested_by text;
+
+CREATE TABLE IF NOT EXISTS social_post_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES social_posts(id) ON DELETE CASCADE,
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE CASCADE,
+  relevance_score double precision NOT NULL DEFAULT 0,
+  posted_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (post_id, disaster_id)
+);
+
+CREATE INDEX IF NOT EXISTS social_post_matches_feed_idx
+  ON social_post_matches(disaster_id, posted_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS social_post_matches_relevance_idx
+  ON social_post_matches(disaster_id, relevance_score DESC, id DESC);
+
+ALTER TABLE social_post_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read social post matches"
+  ON social_post_matches
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE OR REPLACE FUNCTION merge_disaster_records(
+  p_target_id uuid,
+  p_source_id uuid,
+  p_user_id text,
+  p_target_entry jsonb,
+  p_source_entry jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reports_moved integer;
+  resources_moved integer;
+  children_moved integer;
+  needs_moved integer;
+  tasks_moved integer;
+  counts jsonb;
+BEGIN
+  PERFORM 1 FROM disasters
+  WHERE id = p_source_id AND archived_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Source disaster % is missing or already archived', p_source_id;
+  END IF;
+
+  UPDATE reports SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS reports_moved = ROW_COUNT;
+
+  UPDATE resources SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS resources_moved = ROW_COUNT;
+
+  UPDATE needs SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS needs_moved = ROW_COUNT;
+
+  UPDATE tasks SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS tasks_moved = ROW_COUNT;
+
+  UPDATE responders SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+
+  -- Shipments follow their destination resource, which moved above
+  UPDATE shipments SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+
+  -- A post matched to both records keeps the surviving record's match
+  UPDATE social_post_matches m SET disaster_id = p_target_id
+  WHERE m.disaster_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM social_post_matches t
+      WHERE t.disaster_id = p_target_id AND t.post_id = m.post_id
+    );
+  DELETE FROM social_post_matches WHERE disaster_id = p_source_id;
+
+  -- The surviving record takes the duplicate's place if it was one of its children
+  UPDATE disasters
+  SET parent_id = (SELECT parent_id FROM disasters WHERE id = p_source_id)
+  WHERE id = p_target_id AND parent_id = p_source_id;
+
+  UPDATE disasters SET parent_id = p_target_id WHERE parent_id = p_source_id;
+  GET DIAGNOSTICS children_moved = ROW_COUNT;
+
+  counts := jsonb_build_object(
+    'reports_moved', reports_moved,
+    'resources_moved', resources_moved,
+    'needs_moved', needs_moved,
+    'tasks_moved', tasks_moved,
+    'children_moved', children_moved
+  );
+
+  UPDATE disasters
+  SET archived_at = now(),
+      archived_by = p_user_id,
+      merged_into = p_target_id,
+      version = version + 1,
+      audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_source_entry)
+  WHERE id = p_source_id;
+
+  UPDATE disasters
+  SET audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_target_entry || counts)
+  WHERE id = p_target_id;
+
+  RETURN counts;
+END;
+$$;
@@ -0,0 +1,31 @@
+/*
+  # Urgency and need classification
+
+  1. Changes
+    - `social_posts` - `need_categories`, `intent`, `classified_by`, `classified_at`;
+      the classified urgency goes in the existing `priority` column
+    - `reports` - `priority`, `need_categories`, `intent`, `classified_by`,
+      `classified_at`
+      - `need_categories` - any of food, water, medical, rescue, shelter
+      - `intent` - request, offer or info
+      - `classified_by` - rules or gemini
+
+  2. Indexes
+    - urgency and recency on both tables, for the priority alerts feed
+*/
+
+ALTER TABLE social_posts
+  ADD COLUMN IF NOT EXISTS need_categories text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS intent text CHECK (intent IN ('request', 'offer', 'info')),
+  ADD COLUMN IF NOT EXISTS classified_by text,
+  ADD COLUMN IF NOT EXISTS classified_at timestamptz;
+
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS priority text DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  ADD COLUMN IF NOT EXISTS need_categories text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS intent text CHECK (intent IN ('request', 'offer', 'info')),
+  ADD COLUMN IF NOT EXISTS classified_by text,
+  ADD COLUMN IF NOT EXISTS classified_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS social_posts_priority_idx ON social_posts(priority, posted_at DESC);
+CREATE INDEX IF NOT EXISTS reports_priority_idx ON reports(priority, created_at DESC);
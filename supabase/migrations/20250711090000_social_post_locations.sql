@@ -0,0 +1,26 @@
+/*
+  # Social post locations
+
+  1. Changes
+    - `social_posts` - where a post is about, extracted from its text and geocoded
+      - `location_name` - the place named in the text
+      - `location` - its coordinates, `lat` / `lng` generated from it
+      - `geocoded_at` - when extraction ran, also when it found nothing
+    - `social_post_matches.distance_meters` - distance from the post to the
+      disaster, null when either has no coordinates
+
+  2. Indexes
+    - `social_posts(lat, lng)` for bounding box filters
+*/
+
+ALTER TABLE social_posts
+  ADD COLUMN IF NOT EXISTS location_name text,
+  ADD COLUMN IF NOT EXISTS location geography(POINT, 4326),
+  ADD COLUMN IF NOT EXISTS lat double precision GENERATED ALWAYS AS (ST_Y(location::geometry)) STORED,
+  ADD COLUMN IF NOT EXISTS lng double precision GENERATED ALWAYS AS (ST_X(location::geometry)) STORED,
+  ADD COLUMN IF NOT EXISTS geocoded_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS social_posts_lat_lng_idx ON social_posts(lat, lng);
+
+ALTER TABLE social_post_matches
+  ADD COLUMN IF NOT EXISTS distance_meters double precision;
@@ -0,0 +1,154 @@
+/*
+  # Official updates
+
+  1. New Tables
+    - `official_updates` - items read from the configured RSS, Atom and CAP sources
+      - `source_id` / `guid` - an item is stored once per source
+      - `source` - the source's display name
+      - `priority` - from the CAP severity, else the source's default
+      - `area_desc` / `geometry` - the CAP area (polygons, circles) or GeoRSS
+        points the item applies to, when it has any
+    - `official_update_matches` - which updates concern which disaster
+      - `published_at` - copied from the update so a disaster's list can be paged by it
+
+  2. Functions
+    - `merge_disaster_records` - now also moves the duplicate's update matches
+*/
+
+CREATE TABLE IF NOT EXISTS official_updates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_id text NOT NULL,
+  source text NOT NULL,
+  guid text NOT NULL,
+  title text NOT NULL,
+  content text NOT NULL DEFAULT '',
+  url text,
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('urgent', 'high', 'medium', 'low')),
+  categories text[] NOT NULL DEFAULT '{}',
+  area_desc text,
+  geometry jsonb,
+  published_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (source_id, guid)
+);
+
+CREATE INDEX IF NOT EXISTS official_updates_published_at_idx ON official_updates(published_at DESC);
+
+CREATE TABLE IF NOT EXISTS official_update_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  update_id uuid NOT NULL REFERENCES official_updates(id) ON DELETE CASCADE,
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE CASCADE,
+  published_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (update_id, disaster_id)
+);
+
+CREATE INDEX IF NOT EXISTS official_update_matches_feed_idx
+  ON official_update_matches(disaster_id, published_at DESC, id DESC);
+
+ALTER TABLE official_updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE official_update_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read official updates"
+  ON official_updates
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can read official update matches"
+  ON official_update_matches
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE OR REPLACE FUNCTION merge_disaster_records(
+  p_target_id uuid,
+  p_source_id uuid,
+  p_user_id text,
+  p_target_entry jsonb,
+  p_source_entry jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reports_moved integer;
+  resources_moved integer;
+  children_moved integer;
+  needs_moved integer;
+  tasks_moved integer;
+  counts jsonb;
+BEGIN
+  PERFORM 1 FROM disasters
+  WHERE id = p_source_id AND archived_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Source disaster % is missing or already archived', p_source_id;
+  END IF;
+
+  UPDATE reports SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS reports_moved = ROW_COUNT;
+
+  UPDATE resources SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS resources_moved = ROW_COUNT;
+
+  UPDATE needs SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS needs_moved = ROW_COUNT;
+
+  UPDATE tasks SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS tasks_moved = ROW_COUNT;
+
+  UPDATE responders SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+
+  -- Shipments follow their destination resource, which moved above
+  UPDATE shipments SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+
+  -- A post matched to both records keeps the surviving record's match
+  UPDATE social_post_matches m SET disaster_id = p_target_id
+  WHERE m.disaster_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM social_post_matches t
+      WHERE t.disaster_id = p_target_id AND t.post_id = m.post_id
+    );
+  DELETE FROM social_post_matches WHERE disaster_id = p_source_id;
+
+  UPDATE official_update_matches m SET disaster_id = p_target_id
+  WHERE m.disaster_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM official_update_matches t
+      WHERE t.disaster_id = p_target_id AND t.update_id = m.update_id
+    );
+  DELETE FROM official_update_matches WHERE disaster_id = p_source_id;
+
+  -- The surviving record takes the duplicate's place if it was one of its children
+  UPDATE disasters
+  SET parent_id = (SELECT parent_id FROM disasters WHERE id = p_source_id)
+  WHERE id = p_target_id AND parent_id = p_source_id;
+
+  UPDATE disasters SET parent_id = p_target_id WHERE parent_id = p_source_id;
+  GET DIAGNOSTICS children_moved = ROW_COUNT;
+
+  counts := jsonb_build_object(
+    'reports_moved', reports_moved,
+    'resources_moved', resources_moved,
+    'needs_moved', needs_moved,
+    'tasks_moved', tasks_moved,
+    'children_moved', children_moved
+  );
+
+  UPDATE disasters
+  SET archived_at = now(),
+      archived_by = p_user_id,
+      merged_into = p_target_id,
+      version = version + 1,
+      audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_source_entry)
+  WHERE id = p_source_id;
+
+  UPDATE disasters
+  SET audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_target_entry || counts)
+  WHERE id = p_target_id;
+
+  RETURN counts;
+END;
+$$;
@@ -0,0 +1,36 @@
+/*
+  # CAP messages
+
+  1. New Tables
+    - `cap_messages` - Common Alerting Protocol 1.2 messages issued for disasters,
+      stored as sent so their identifiers can be referenced by later messages
+      - `msg_type` - Alert for the first message, Update after changes, Cancel on archive
+      - `cap_references` - the CAP `references` value: sender,identifier,sent of the
+        message this one updates or cancels
+      - `disaster_version` - the disaster version the message describes
+      - `xml` - the <alert> element
+*/
+
+CREATE TABLE IF NOT EXISTS cap_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  identifier text NOT NULL UNIQUE,
+  disaster_id uuid NOT NULL REFERENCES disasters(id) ON DELETE CASCADE,
+  sender text NOT NULL,
+  sent timestamptz NOT NULL,
+  msg_type text NOT NULL CHECK (msg_type IN ('Alert', 'Update', 'Cancel')),
+  cap_references text,
+  note text,
+  disaster_version integer,
+  xml text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS cap_messages_disaster_idx ON cap_messages(disaster_id, created_at DESC);
+
+ALTER TABLE cap_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read CAP messages"
+  ON cap_messages
+  FOR SELECT
+  TO public
+  USING (true);
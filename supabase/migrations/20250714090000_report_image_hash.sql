@@ -0,0 +1,16 @@
+/*
+  # Report image hashes
+
+  1. Changes
+    - `reports.image_hash` - 64-bit perceptual (difference) hash of the report's
+      image as 16 hex digits, set by image verification. Near-identical hashes
+      mark the same picture submitted with another report.
+
+  2. Indexes
+    - `reports(image_hash)` for reports with a hashed image
+*/
+
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS image_hash text;
+
+CREATE INDEX IF NOT EXISTS reports_image_hash_idx ON reports(image_hash) WHERE image_hash IS NOT NULL;
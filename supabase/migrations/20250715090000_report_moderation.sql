@@ -0,0 +1,18 @@
+/*
+  # Report moderation
+
+  1. Changes
+    - `reports.claimed_by` - moderator reviewing the report; the claim lapses
+      after a while so an abandoned report returns to the queue
+    - `reports.claimed_at` - when the claim was taken
+    Decisions, with the moderator and reason, are kept in `verification_details`.
+
+  2. Indexes
+    - `reports(verification_status, created_at)` for the moderation queue
+*/
+
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS claimed_by text,
+  ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS reports_moderation_queue_idx ON reports(verification_status, created_at, id);
@@ -0,0 +1,28 @@
+/*
+  # CAP message chain
+
+  1. Changes
+    - `cap_messages.previous_id` - the message this one was issued after (any
+      type, so an Alert issued on restore follows the Cancel), null for a
+      disaster's first message. Existing messages are chained in the order
+      they were created.
+
+  2. Indexes
+    - unique `(disaster_id, previous_id)` and a unique first message per
+      disaster: two messages issued concurrently can't both follow the same
+      one, so the second insert fails and is retried on the new latest
+*/
+
+ALTER TABLE cap_messages
+  ADD COLUMN IF NOT EXISTS previous_id uuid REFERENCES cap_messages(id) ON DELETE CASCADE;
+
+UPDATE cap_messages m
+SET previous_id = chain.previous_id
+FROM (
+  SELECT id, lag(id) OVER (PARTITION BY disaster_id ORDER BY created_at, id) AS previous_id
+  FROM cap_messages
+) chain
+WHERE m.id = chain.id AND m.previous_id IS DISTINCT FROM chain.previous_id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS cap_messages_chain_idx ON cap_messages(disaster_id, previous_id);
+CREATE UNIQUE INDEX IF NOT EXISTS cap_messages_first_idx ON cap_messages(disaster_id) WHERE previous_id IS NULL;
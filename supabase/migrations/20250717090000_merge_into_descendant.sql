@@ -0,0 +1,103 @@
+/*
+  # Merging into a descendant
+
+  1. Changes
+    - `merge_disaster_records` re-parents the target to the source's parent
+      whenever the source is one of its ancestors. Before, only a direct child
+      was re-parented, so merging a disaster into its grandchild left the
+      grandchild and the source's child pointing at each other.
+*/
+
+CREATE OR REPLACE FUNCTION merge_disaster_records(
+  p_target_id uuid,
+  p_source_id uuid,
+  p_user_id text,
+  p_target_entry jsonb,
+  p_source_entry jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reports_moved integer;
+  resources_moved integer;
+  children_moved integer;
+  needs_moved integer;
+  tasks_moved integer;
+  counts jsonb;
+BEGIN
+  PERFORM 1 FROM disasters
+  WHERE id = p_source_id AND archived_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Source disaster % is missing or already archived', p_source_id;
+  END IF;
+
+  UPDATE reports SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS reports_moved = ROW_COUNT;
+
+  UPDATE resources SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS resources_moved = ROW_COUNT;
+
+  UPDATE needs SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS needs_moved = ROW_COUNT;
+
+  UPDATE tasks SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+  GET DIAGNOSTICS tasks_moved = ROW_COUNT;
+
+  UPDATE responders SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+
+  -- Shipments follow their destination resource, which moved above
+  UPDATE shipments SET disaster_id = p_target_id WHERE disaster_id = p_source_id;
+
+  -- A post matched to both records keeps the surviving record's match
+  UPDATE social_post_matches m SET disaster_id = p_target_id
+  WHERE m.disaster_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM social_post_matches t
+      WHERE t.disaster_id = p_target_id AND t.post_id = m.post_id
+    );
+  DELETE FROM social_post_matches WHERE disaster_id = p_source_id;
+
+  UPDATE official_update_matches m SET disaster_id = p_target_id
+  WHERE m.disaster_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM official_update_matches t
+      WHERE t.disaster_id = p_target_id AND t.update_id = m.update_id
+    );
+  DELETE FROM official_update_matches WHERE disaster_id = p_source_id;
+
+  -- The surviving record takes the duplicate's place if it was anywhere below
+  -- it, not only a direct child, so its old parent can't end up beneath it
+  UPDATE disasters
+  SET parent_id = (SELECT parent_id FROM disasters WHERE id = p_source_id)
+  WHERE id = p_target_id
+    AND EXISTS (SELECT 1 FROM get_disaster_ancestors(p_target_id) a WHERE a.id = p_source_id);
+
+  UPDATE disasters SET parent_id = p_target_id WHERE parent_id = p_source_id;
+  GET DIAGNOSTICS children_moved = ROW_COUNT;
+
+  counts := jsonb_build_object(
+    'reports_moved', reports_moved,
+    'resources_moved', resources_moved,
+    'needs_moved', needs_moved,
+    'tasks_moved', tasks_moved,
+    'children_moved', children_moved
+  );
+
+  UPDATE disasters
+  SET archived_at = now(),
+      archived_by = p_user_id,
+      merged_into = p_target_id,
+      version = version + 1,
+      audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_source_entry)
+  WHERE id = p_source_id;
+
+  UPDATE disasters
+  SET audit_trail = COALESCE(audit_trail, '[]'::jsonb) || jsonb_build_array(p_target_entry || counts)
+  WHERE id = p_target_id;
+
+  RETURN counts;
+END;
+$$;